@@ -1,11 +1,19 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import "dotenv/config";
 import { handleApifyJob } from "../../src/routes/ingest";
-
-const APIFY_DATASET_URL_SYSTEK = process.env.APIFY_DATASET_URL_SYSTEK ?? "";
-const APIFY_DATASET_URL_ILDER = process.env.APIFY_DATASET_URL_ILDER ?? "";
-
-async function processDataset(datasetUrl: string, source: "systek" | "ilder") {
+import {
+  listIngestSources,
+  applySourceDefaults,
+  IngestSource,
+} from "../../src/lib/sources";
+import { verifyRequestAuth } from "../../src/lib/auth";
+
+type DatasetResult = { ok: number; failed: number; total: number };
+
+async function processDataset(
+  datasetUrl: string,
+  source: IngestSource
+): Promise<DatasetResult> {
   const dataRes = await fetch(datasetUrl);
   if (!dataRes.ok) {
     throw new Error(`Failed to fetch dataset (${dataRes.status})`);
@@ -20,27 +28,30 @@ async function processDataset(datasetUrl: string, source: "systek" | "ilder") {
     try {
       // Create mock request/reply objects for the handler
       const mockRequest = {
-        body: {
-          url: item.url,
-          title: item.title,
-          description: item.description,
-          company: item.company,
-          contactPersons: item.contactPersons ?? [],
-          email: item.email,
-          applicationUrl: item.applicationUrl,
-          location: item.location,
-          employmentType: item.employmentType,
-          salary: item.salary,
-          publicationDate: item.publicationDate,
-          expirationDate: item.expirationDate,
-          finnkode: item.finnkode,
-          companyLogoUrl: item.companyLogoUrl,
-          domain: item.domain,
-          sector: item.sector,
-          industries: item.industries,
-          positionFunctions: item.positionFunctions,
-          language: item.language,
-        },
+        body: applySourceDefaults(
+          {
+            url: item.url,
+            title: item.title,
+            description: item.description,
+            company: item.company,
+            contactPersons: item.contactPersons ?? [],
+            email: item.email,
+            applicationUrl: item.applicationUrl,
+            location: item.location,
+            employmentType: item.employmentType,
+            salary: item.salary,
+            publicationDate: item.publicationDate,
+            expirationDate: item.expirationDate,
+            finnkode: item.finnkode,
+            companyLogoUrl: item.companyLogoUrl,
+            domain: item.domain,
+            sector: item.sector,
+            industries: item.industries,
+            positionFunctions: item.positionFunctions,
+            language: item.language,
+          },
+          source
+        ),
       };
 
       let handlerError: Error | null = null;
@@ -69,7 +80,7 @@ async function processDataset(datasetUrl: string, source: "systek" | "ilder") {
         },
       };
 
-      await handleApifyJob(mockRequest as any, mockReply as any, source);
+      await handleApifyJob(mockRequest as any, mockReply as any, source.name);
 
       // Check if handler returned an error status
       if (statusCode >= 400 || handlerError) {
@@ -82,7 +93,7 @@ async function processDataset(datasetUrl: string, source: "systek" | "ilder") {
     } catch (err: any) {
       failed++;
       console.error(
-        `[${source.toUpperCase()}] Item ${i} failed:`,
+        `[${source.name.toUpperCase()}] Item ${i} failed:`,
         err?.message
       );
     }
@@ -103,10 +114,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   // Authentication: Accept Vercel Cron header OR Authorization Bearer token
 
-  const authHeader = req.headers.authorization;
-  const providedSecret = authHeader?.replace(/^Bearer\s+/i, "");
+  const auth = verifyRequestAuth({
+    secrets: [CRON_SECRET],
+    headers: req.headers,
+  });
 
-  if (providedSecret !== CRON_SECRET) {
+  if (!auth.ok) {
     console.warn("Unauthorized cron job attempt", {
       ip: req.headers["x-forwarded-for"] || req.headers["x-real-ip"],
     });
@@ -115,40 +128,28 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
   }
 
-  const results: {
-    systek?: { ok: number; failed: number; total: number };
-    ilder?: { ok: number; failed: number; total: number };
-  } = {};
+  const results: Record<string, DatasetResult> = {};
 
   try {
-    // Process SYSTEK dataset
-    if (APIFY_DATASET_URL_SYSTEK) {
-      try {
-        results.systek = await processDataset(
-          APIFY_DATASET_URL_SYSTEK,
-          "systek"
-        );
-      } catch (err: any) {
-        console.error("[SYSTEK] Fatal error:", err?.message);
-        results.systek = { ok: 0, failed: 0, total: 0 };
-      }
-    }
-
-    // Process ILDER dataset
-    if (APIFY_DATASET_URL_ILDER) {
+    // Process every registered source that has a dataset to poll
+    const sources = await listIngestSources("apify");
+    for (const source of sources) {
+      if (!source.dataset_url) continue;
       try {
-        results.ilder = await processDataset(APIFY_DATASET_URL_ILDER, "ilder");
+        results[source.name] = await processDataset(source.dataset_url, source);
       } catch (err: any) {
-        console.error("[ILDER] Fatal error:", err?.message);
-        results.ilder = { ok: 0, failed: 0, total: 0 };
+        console.error(
+          `[${source.name.toUpperCase()}] Fatal error:`,
+          err?.message
+        );
+        results[source.name] = { ok: 0, failed: 0, total: 0 };
       }
     }
 
-    const totalOk = (results.systek?.ok ?? 0) + (results.ilder?.ok ?? 0);
-    const totalFailed =
-      (results.systek?.failed ?? 0) + (results.ilder?.failed ?? 0);
-    const totalProcessed =
-      (results.systek?.total ?? 0) + (results.ilder?.total ?? 0);
+    const totals = Object.values(results);
+    const totalOk = totals.reduce((sum, r) => sum + r.ok, 0);
+    const totalFailed = totals.reduce((sum, r) => sum + r.failed, 0);
+    const totalProcessed = totals.reduce((sum, r) => sum + r.total, 0);
 
     return res.status(200).json({
       success: true,
@@ -0,0 +1,21 @@
+-- Align job_posts with the columns written by the ingest pipeline (src/lib/db.ts)
+-- The hosted Supabase schema already has these; this brings a local Postgres
+-- database (DB_BACKEND=postgres) up to the same shape.
+
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS finn_id text NULL;
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS title text NULL;
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS contact_email text NULL;
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS salary text NULL;
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS expiration_date timestamptz NULL;
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS sector text NULL;
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS industries text[] NULL;
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS position_functions text[] NULL;
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS language text NULL;
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS company_name text NULL;
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS company_domain_host text NULL;
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS source text NULL;
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS raw_payload jsonb NULL;
+
+-- upsertJobPostSmart resolves conflicts on finn_id
+CREATE UNIQUE INDEX IF NOT EXISTS job_posts_finn_id_key ON leadgen.job_posts USING btree (finn_id);
+CREATE INDEX IF NOT EXISTS job_posts_created_at_idx ON leadgen.job_posts USING btree (created_at);
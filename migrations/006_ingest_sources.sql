@@ -0,0 +1,27 @@
+-- Registry of ingest sources (teams/scrapers pushing jobs into the pipeline)
+-- Replaces the hard-coded /ingest/apify-job-systek and /ingest/apify-job-ilder routes
+-- and the per-team APIFY_DATASET_URL_* handling in the import cron.
+
+CREATE TABLE IF NOT EXISTS leadgen.ingest_sources (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  -- Apify dataset items URL polled by /api/cron/apify-import.
+  -- When NULL, falls back to the APIFY_DATASET_URL_<NAME> env var.
+  dataset_url text NULL,
+  -- Shared secret required on /ingest/:source/* (NULL = no auth)
+  auth_secret text NULL,
+  -- Default payload values applied when the scraper omits them
+  defaults jsonb NOT NULL DEFAULT '{}'::jsonb,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NULL DEFAULT now(),
+  updated_at timestamptz NULL DEFAULT now(),
+  CONSTRAINT ingest_sources_pkey PRIMARY KEY (id),
+  CONSTRAINT ingest_sources_name_key UNIQUE (name),
+  CONSTRAINT ingest_sources_name_check CHECK (name ~ '^[a-z0-9][a-z0-9_-]*$')
+);
+
+-- Seed the existing sources; their dataset URLs keep coming from
+-- APIFY_DATASET_URL_SYSTEK / APIFY_DATASET_URL_ILDER until set here.
+INSERT INTO leadgen.ingest_sources (name)
+VALUES ('systek'), ('ilder')
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,19 @@
+-- Pull-based ingest sources (NAV Arbeidsplassen pam-stilling-feed)
+-- kind:        'apify' (pushed to /ingest/:source/apify-job or polled dataset) or 'nav' (job feed)
+-- feed_cursor: URL of the next feed page to read, advanced by /cron/nav-import
+
+ALTER TABLE leadgen.ingest_sources ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'apify';
+ALTER TABLE leadgen.ingest_sources ADD COLUMN IF NOT EXISTS feed_cursor text NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'ingest_sources_kind_check') THEN
+    ALTER TABLE leadgen.ingest_sources
+      ADD CONSTRAINT ingest_sources_kind_check CHECK (kind IN ('apify', 'nav'));
+  END IF;
+END$$;
+
+-- NAV public feed; dataset_url is the feed's first page
+INSERT INTO leadgen.ingest_sources (name, kind, dataset_url)
+VALUES ('nav', 'nav', 'https://pam-stilling-feed.nav.no/api/v1/feed')
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,33 @@
+-- Source-agnostic job identity: (board, external_id) replaces finn_id
+-- board:       job board name ('finn', 'nav', 'webcruiter', 'jobbnorge', 'linkedin', ...)
+-- external_id: the board's own id for the posting (Finn code, NAV ad uuid, ...)
+-- finn_id is kept as a compatibility alias for finn.no posts (Clay tables anchor on it)
+
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS board text NULL;
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS external_id text NULL;
+
+-- NAV ads were stored with finn_id = 'nav:<uuid>'
+UPDATE leadgen.job_posts
+SET board = 'nav',
+    external_id = substring(finn_id FROM 5),
+    finn_id = NULL
+WHERE board IS NULL AND finn_id LIKE 'nav:%';
+
+-- Everything else with a finn_id came from finn.no
+UPDATE leadgen.job_posts
+SET board = 'finn',
+    external_id = finn_id
+WHERE board IS NULL AND finn_id IS NOT NULL;
+
+-- Rows without finn_id (e.g. CSV imports): recover the Finn code from the URL
+UPDATE leadgen.job_posts
+SET board = 'finn',
+    external_id = substring(finn_url FROM 'finn\.no/job/ad/(\d+)'),
+    finn_id = substring(finn_url FROM 'finn\.no/job/ad/(\d+)')
+WHERE board IS NULL AND finn_url ~ 'finn\.no/job/ad/\d+';
+
+ALTER TABLE leadgen.job_posts ALTER COLUMN finn_id DROP NOT NULL;
+
+-- upsertJobPostSmart resolves conflicts on (board, external_id)
+CREATE UNIQUE INDEX IF NOT EXISTS job_posts_board_external_id_key
+  ON leadgen.job_posts USING btree (board, external_id);
@@ -0,0 +1,46 @@
+-- Vacancies: one row per real-world position, grouping duplicate postings of
+-- the same job across boards (finn.no, NAV, ...). See src/lib/vacancies.ts.
+-- primary_job_post_id: the posting that carries job_post_people links and the Clay row
+
+CREATE TABLE IF NOT EXISTS leadgen.vacancies (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL,
+  primary_job_post_id uuid NULL,
+  title text NULL,
+  location text NULL,
+  first_published_at timestamptz NULL,
+  last_published_at timestamptz NULL,
+  created_at timestamptz NULL DEFAULT now(),
+  updated_at timestamptz NULL DEFAULT now(),
+  CONSTRAINT vacancies_pkey PRIMARY KEY (id),
+  CONSTRAINT vacancies_company_id_fkey FOREIGN KEY (company_id) REFERENCES leadgen.companies (id) ON DELETE CASCADE,
+  CONSTRAINT vacancies_primary_job_post_id_fkey FOREIGN KEY (primary_job_post_id) REFERENCES leadgen.job_posts (id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS vacancies_company_id_idx ON leadgen.vacancies USING btree (company_id);
+
+ALTER TABLE leadgen.job_posts ADD COLUMN IF NOT EXISTS vacancy_id uuid NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'job_posts_vacancy_id_fkey') THEN
+    ALTER TABLE leadgen.job_posts
+      ADD CONSTRAINT job_posts_vacancy_id_fkey FOREIGN KEY (vacancy_id) REFERENCES leadgen.vacancies (id) ON DELETE SET NULL;
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS job_posts_vacancy_id_idx ON leadgen.job_posts USING btree (vacancy_id);
+-- Duplicate candidates are looked up per company
+CREATE INDEX IF NOT EXISTS job_posts_company_id_idx ON leadgen.job_posts USING btree (company_id);
+
+-- Existing postings get a vacancy of their own; later duplicates join it
+INSERT INTO leadgen.vacancies (company_id, primary_job_post_id, title, location, first_published_at, last_published_at)
+SELECT jp.company_id, jp.id, jp.title, jp.location,
+       coalesce(jp.publication_date, jp.created_at), coalesce(jp.publication_date, jp.created_at)
+FROM leadgen.job_posts jp
+WHERE jp.vacancy_id IS NULL;
+
+UPDATE leadgen.job_posts jp
+SET vacancy_id = v.id
+FROM leadgen.vacancies v
+WHERE v.primary_job_post_id = jp.id AND jp.vacancy_id IS NULL;
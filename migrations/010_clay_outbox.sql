@@ -0,0 +1,26 @@
+-- Durable outbox for Clay webhook deliveries (src/lib/clay-outbox.ts)
+-- status:          'pending' (waiting for an attempt), 'delivered', 'dead' (gave up after max attempts)
+-- next_attempt_at: earliest time of the next attempt (exponential backoff / Retry-After)
+
+CREATE TABLE IF NOT EXISTS leadgen.clay_outbox (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  job_post_id uuid NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_status integer NULL,
+  last_error text NULL,
+  delivered_at timestamptz NULL,
+  created_at timestamptz NULL DEFAULT now(),
+  updated_at timestamptz NULL DEFAULT now(),
+  CONSTRAINT clay_outbox_pkey PRIMARY KEY (id),
+  CONSTRAINT clay_outbox_job_post_id_fkey FOREIGN KEY (job_post_id) REFERENCES leadgen.job_posts (id) ON DELETE CASCADE,
+  CONSTRAINT clay_outbox_status_check CHECK (status IN ('pending', 'delivered', 'dead'))
+);
+
+-- Due-delivery scan in deliverClayOutbox
+CREATE INDEX IF NOT EXISTS clay_outbox_pending_idx
+  ON leadgen.clay_outbox USING btree (next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS clay_outbox_job_post_id_idx ON leadgen.clay_outbox USING btree (job_post_id);
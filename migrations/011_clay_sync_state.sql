@@ -0,0 +1,25 @@
+-- Per-job-post Clay sync state (src/lib/clay-sync.ts)
+-- payload_hash: sha256 of the last payload queued for the job post
+-- status:       'queued' (in the outbox), 'delivered', 'failed' (outbox entry went dead)
+
+CREATE TABLE IF NOT EXISTS leadgen.clay_sync_state (
+  job_post_id uuid NOT NULL,
+  payload_hash text NOT NULL,
+  status text NOT NULL DEFAULT 'queued',
+  last_outbox_id uuid NULL,
+  last_sent_at timestamptz NULL,
+  created_at timestamptz NULL DEFAULT now(),
+  updated_at timestamptz NULL DEFAULT now(),
+  CONSTRAINT clay_sync_state_pkey PRIMARY KEY (job_post_id),
+  CONSTRAINT clay_sync_state_job_post_id_fkey FOREIGN KEY (job_post_id) REFERENCES leadgen.job_posts (id) ON DELETE CASCADE,
+  CONSTRAINT clay_sync_state_last_outbox_id_fkey FOREIGN KEY (last_outbox_id) REFERENCES leadgen.clay_outbox (id) ON DELETE SET NULL,
+  CONSTRAINT clay_sync_state_status_check CHECK (status IN ('queued', 'delivered', 'failed'))
+);
+
+-- Read positions of incremental sync jobs (e.g. 'clay-sync': created_at of the last job post scanned)
+CREATE TABLE IF NOT EXISTS leadgen.sync_cursors (
+  name text NOT NULL,
+  cursor text NULL,
+  updated_at timestamptz NULL DEFAULT now(),
+  CONSTRAINT sync_cursors_pkey PRIMARY KEY (name)
+);
@@ -0,0 +1,20 @@
+-- Reversible company merges (src/lib/company-merge.ts, POST /admin/companies/merge)
+-- Supersedes the one-off 003_deduplicate_companies.sql.
+-- field_sources: field -> id of the company whose value the survivor kept
+-- snapshot:      rows changed by the merge (merged companies, re-pointed job posts,
+--                vacancies and company_people links), used to revert it
+
+CREATE TABLE IF NOT EXISTS leadgen.company_merges (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  survivor_id uuid NOT NULL,
+  merged_company_ids uuid[] NOT NULL,
+  field_sources jsonb NOT NULL DEFAULT '{}'::jsonb,
+  snapshot jsonb NOT NULL,
+  reason text NULL,
+  reverted_at timestamptz NULL,
+  created_at timestamptz NULL DEFAULT now(),
+  updated_at timestamptz NULL DEFAULT now(),
+  CONSTRAINT company_merges_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS company_merges_survivor_id_idx ON leadgen.company_merges USING btree (survivor_id);
@@ -0,0 +1,22 @@
+-- Reversible person merges (src/lib/person-merge.ts, POST /admin/people/merge)
+-- field_sources: field -> id of the person whose value the survivor kept
+-- snapshot:      rows changed by the merge (merged people, re-pointed and dropped
+--                company_people / job_post_people links), used to revert it
+
+CREATE TABLE IF NOT EXISTS leadgen.person_merges (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  survivor_id uuid NOT NULL,
+  merged_person_ids uuid[] NOT NULL,
+  field_sources jsonb NOT NULL DEFAULT '{}'::jsonb,
+  snapshot jsonb NOT NULL,
+  reason text NULL,
+  reverted_at timestamptz NULL,
+  created_at timestamptz NULL DEFAULT now(),
+  updated_at timestamptz NULL DEFAULT now(),
+  CONSTRAINT person_merges_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS person_merges_survivor_id_idx ON leadgen.person_merges USING btree (survivor_id);
+
+-- Duplicate report lookups by phone (email and linkedin_url are indexed in 001_init.sql)
+CREATE INDEX IF NOT EXISTS people_phone_idx ON leadgen.people USING btree (phone);
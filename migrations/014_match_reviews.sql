@@ -0,0 +1,27 @@
+-- Review queue for uncertain entity matches (src/lib/match-reviews.ts)
+-- entity_id:    the newly written company/person
+-- candidate_id: the existing company/person it may duplicate
+-- pair_key:     both ids sorted and joined with ':', so a pair is stored once
+-- status:       pending | accepted (merged) | rejected (known to be distinct)
+
+CREATE TABLE IF NOT EXISTS leadgen.match_reviews (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  entity_type text NOT NULL,
+  entity_id uuid NOT NULL,
+  candidate_id uuid NOT NULL,
+  pair_key text NOT NULL,
+  confidence numeric NOT NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'pending',
+  decided_at timestamptz NULL,
+  decision_note text NULL,
+  created_at timestamptz NULL DEFAULT now(),
+  updated_at timestamptz NULL DEFAULT now(),
+  CONSTRAINT match_reviews_pkey PRIMARY KEY (id),
+  CONSTRAINT match_reviews_entity_type_check CHECK (entity_type IN ('company', 'person')),
+  CONSTRAINT match_reviews_status_check CHECK (status IN ('pending', 'accepted', 'rejected')),
+  CONSTRAINT match_reviews_pair_key UNIQUE (entity_type, pair_key)
+);
+
+CREATE INDEX IF NOT EXISTS match_reviews_status_idx ON leadgen.match_reviews USING btree (entity_type, status, created_at);
+
@@ -0,0 +1,4 @@
+-- Link accepted match reviews to the merge they triggered
+-- (company_merges.id or person_merges.id, depending on entity_type)
+
+ALTER TABLE leadgen.match_reviews ADD COLUMN IF NOT EXISTS merge_id uuid NULL;
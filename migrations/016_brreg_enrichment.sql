@@ -0,0 +1,6 @@
+-- Enhetsregisteret enrichment (src/lib/brreg.ts, GET /cron/brreg-enrichment)
+-- brreg_checked_at: last lookup, so companies without a match aren't retried every run
+
+ALTER TABLE leadgen.companies ADD COLUMN IF NOT EXISTS brreg_checked_at timestamptz NULL;
+
+CREATE INDEX IF NOT EXISTS companies_brreg_unchecked_idx ON leadgen.companies USING btree (created_at) WHERE brreg_checked_at IS NULL;
@@ -0,0 +1,42 @@
+-- Orgnr validation (parseOrgnr in src/lib/normalize.ts)
+-- 1. Reformats stored orgnr values written as "983 971 709" or "NO983971709MVA"
+-- 2. Clears values that aren't a valid 9-digit orgnr (MOD11 checksum), so they
+--    no longer match or block companies. company_key is left unchanged.
+-- Preview first:
+--   SELECT id, name, orgnr FROM leadgen.companies
+--   WHERE orgnr IS NOT NULL AND NOT leadgen.is_valid_orgnr(orgnr);
+
+CREATE OR REPLACE FUNCTION leadgen.is_valid_orgnr(value text) RETURNS boolean
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE
+    WHEN value IS NULL OR value !~ '^[0-9]{9}$' THEN false
+    ELSE (
+      WITH weighted AS (
+        SELECT (
+          3 * substr(value, 1, 1)::int + 2 * substr(value, 2, 1)::int +
+          7 * substr(value, 3, 1)::int + 6 * substr(value, 4, 1)::int +
+          5 * substr(value, 5, 1)::int + 4 * substr(value, 6, 1)::int +
+          3 * substr(value, 7, 1)::int + 2 * substr(value, 8, 1)::int
+        ) % 11 AS remainder
+      )
+      SELECT remainder <> 1
+        AND (CASE WHEN remainder = 0 THEN 0 ELSE 11 - remainder END) = substr(value, 9, 1)::int
+      FROM weighted
+    )
+  END
+$$;
+
+BEGIN;
+
+UPDATE leadgen.companies
+SET orgnr = REGEXP_REPLACE(
+  REGEXP_REPLACE(UPPER(TRIM(orgnr)), '^NO|MVA$', '', 'g'),
+  '[[:space:].-]', '', 'g'
+)
+WHERE orgnr IS NOT NULL AND orgnr !~ '^[0-9]{9}$';
+
+UPDATE leadgen.companies
+SET orgnr = NULL
+WHERE orgnr IS NOT NULL AND NOT leadgen.is_valid_orgnr(orgnr);
+
+COMMIT;
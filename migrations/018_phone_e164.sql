@@ -0,0 +1,58 @@
+-- Phone numbers in E.164 (parsePhone in src/lib/phone.ts)
+-- 1. Adds people.phone_type: mobile | landline | unknown
+-- 2. Rewrites stored phones from the old normalizePhone output (digits only,
+--    Norwegian numbers without country code) to E.164, and person_key along
+--    with it where the key is the phone. Keys that would collide with another
+--    person are left as they are; GET /admin/people/duplicates reports those
+--    people by their now equal phone.
+-- 3. Sets phone_type for Norwegian numbers; other numbers get 'unknown'
+--    until they are written again.
+-- Preview phones this leaves unconverted:
+--   SELECT id, full_name, phone FROM leadgen.people
+--   WHERE phone IS NOT NULL AND phone !~ '^\+[1-9][0-9]{6,14}$';
+
+ALTER TABLE leadgen.people ADD COLUMN IF NOT EXISTS phone_type text NULL;
+
+BEGIN;
+
+CREATE TEMP TABLE phone_e164 ON COMMIT DROP AS
+SELECT
+  id,
+  phone,
+  CASE
+    -- National Norwegian number
+    WHEN phone ~ '^[0-9]{8}$' THEN '+47' || phone
+    -- Norwegian number with country code but without "+"
+    WHEN phone ~ '^47[0-9]{8}$' THEN '+' || phone
+    -- International dialling prefix
+    WHEN phone ~ '^00[1-9][0-9]{6,14}$' THEN '+' || substr(phone, 3)
+  END AS e164,
+  person_key = phone AS phone_key
+FROM leadgen.people
+WHERE phone ~ '^[0-9]+$';
+
+UPDATE leadgen.people p
+SET phone = e.e164
+FROM phone_e164 e
+WHERE p.id = e.id AND e.e164 IS NOT NULL;
+
+UPDATE leadgen.people p
+SET person_key = e.e164
+FROM phone_e164 e
+WHERE p.id = e.id
+  AND e.phone_key
+  AND e.e164 IS NOT NULL
+  AND (SELECT COUNT(*) FROM phone_e164 o WHERE o.phone_key AND o.e164 = e.e164) = 1
+  AND NOT EXISTS (
+    SELECT 1 FROM leadgen.people other WHERE other.person_key = e.e164
+  );
+
+UPDATE leadgen.people
+SET phone_type = CASE
+  WHEN phone ~ '^\+47[49][0-9]{7}$' THEN 'mobile'
+  WHEN phone ~ '^\+47[2357][0-9]{7}$' THEN 'landline'
+  ELSE 'unknown'
+END
+WHERE phone IS NOT NULL AND phone_type IS NULL;
+
+COMMIT;
@@ -0,0 +1,49 @@
+-- Email classification (parseEmail in src/lib/email.ts)
+-- 1. Adds people.email_type: personal | role (post@, jobb@...) | free_mail (gmail.com...)
+-- 2. Classifies stored addresses; the lists below mirror ROLE_LOCAL_PARTS and
+--    FREE_MAIL_DOMAINS - keep both in sync.
+-- person_key is left unchanged: people keyed by a role or free-mail address keep
+-- their key, new people get a phone or name based key instead.
+-- Preview shared mailboxes used as person keys:
+--   SELECT id, full_name, email FROM leadgen.people
+--   WHERE email_type = 'role' AND person_key = email;
+
+ALTER TABLE leadgen.people ADD COLUMN IF NOT EXISTS email_type text NULL;
+
+BEGIN;
+
+UPDATE leadgen.people
+SET email = LOWER(TRIM(email))
+WHERE email IS NOT NULL AND email <> LOWER(TRIM(email));
+
+UPDATE leadgen.people
+SET email_type = CASE
+  WHEN split_part(email, '@', 1) = ANY (roles.local_parts)
+    OR (regexp_split_to_array(split_part(email, '@', 1), '[-._+]'))[1] = ANY (roles.local_parts)
+    THEN 'role'
+  WHEN split_part(email, '@', 2) = ANY (free.domains) THEN 'free_mail'
+  ELSE 'personal'
+END
+FROM
+  (SELECT ARRAY[
+    'post', 'postmottak', 'firmapost', 'kontakt', 'kontor', 'jobb', 'jobbsoknad',
+    'soknad', 'rekruttering', 'personal', 'salg', 'kundeservice', 'kundesenter',
+    'service', 'faktura', 'regnskap', 'okonomi', 'lonn', 'resepsjon',
+    'bestilling', 'ordre', 'hei', 'sentralbord', 'ledig', 'stilling',
+    'stillinger', 'info', 'contact', 'hello', 'office', 'mail', 'admin', 'hr',
+    'jobs', 'careers', 'career', 'recruitment', 'recruiting', 'sales', 'support',
+    'invoice', 'billing', 'accounts', 'booking', 'reception', 'team', 'noreply',
+    'no-reply', 'donotreply', 'postmaster', 'webmaster'
+  ] AS local_parts) roles,
+  (SELECT ARRAY[
+    'gmail.com', 'googlemail.com', 'hotmail.com', 'hotmail.no', 'hotmail.co.uk',
+    'outlook.com', 'outlook.no', 'live.com', 'live.no', 'msn.com', 'yahoo.com',
+    'yahoo.no', 'yahoo.co.uk', 'icloud.com', 'me.com', 'mac.com', 'aol.com',
+    'protonmail.com', 'proton.me', 'gmx.com', 'gmx.de', 'gmx.net', 'mail.com',
+    'yandex.com', 'zoho.com', 'online.no', 'broadpark.no', 'getmail.no',
+    'start.no', 'frisurf.no', 'c2i.net', 'lyse.net', 'altibox.no', 'epost.no',
+    'tele2.no'
+  ] AS domains) free
+WHERE email LIKE '%_@_%.__%' AND email_type IS NULL;
+
+COMMIT;
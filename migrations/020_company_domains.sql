@@ -0,0 +1,31 @@
+-- Company domain aliases (src/lib/company-domains.ts)
+-- domain:        registrable domain; belongs to one company
+-- is_primary:    the company's main domain (companies.clean_domain)
+-- source:        ingest source / "clay" / "import" that first sent the domain
+-- first_seen_at / last_seen_at: first and latest time a source sent it
+-- Backfilled from companies.clean_domain (run scripts/normalize-company-domains.ts
+-- first); when several companies share a domain, the oldest gets it.
+
+CREATE TABLE IF NOT EXISTS leadgen.company_domains (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL,
+  domain text NOT NULL,
+  is_primary boolean NOT NULL DEFAULT false,
+  source text NULL,
+  first_seen_at timestamptz NOT NULL DEFAULT now(),
+  last_seen_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NULL DEFAULT now(),
+  updated_at timestamptz NULL DEFAULT now(),
+  CONSTRAINT company_domains_pkey PRIMARY KEY (id),
+  CONSTRAINT company_domains_domain_key UNIQUE (domain),
+  CONSTRAINT company_domains_company_id_fkey FOREIGN KEY (company_id) REFERENCES leadgen.companies (id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS company_domains_company_id_idx ON leadgen.company_domains USING btree (company_id);
+
+INSERT INTO leadgen.company_domains (company_id, domain, is_primary, source, first_seen_at, last_seen_at)
+SELECT DISTINCT ON (clean_domain) id, clean_domain, true, 'backfill', COALESCE(created_at, now()), COALESCE(updated_at, now())
+FROM leadgen.companies
+WHERE clean_domain IS NOT NULL
+ORDER BY clean_domain, created_at ASC NULLS LAST
+ON CONFLICT (domain) DO NOTHING;
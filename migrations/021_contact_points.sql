@@ -0,0 +1,43 @@
+-- Contact points per person (src/lib/contact-points.ts)
+-- kind:          email / phone / linkedin
+-- value:         normalized value (lowercase email, E.164 phone, canonical LinkedIn URL)
+-- value_type:    email_type for emails, line type for phones
+-- status:        unverified / valid / invalid (invalid values are never sent to Clay)
+-- source:        ingest source / "clay" / "import" that first sent the value
+-- first_seen_at / last_seen_at: first and latest time a source sent it
+-- Backfilled from people.email / phone / linkedin_url (run 018 and 019 first).
+
+CREATE TABLE IF NOT EXISTS leadgen.contact_points (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  person_id uuid NOT NULL,
+  kind text NOT NULL,
+  value text NOT NULL,
+  value_type text NULL,
+  status text NOT NULL DEFAULT 'unverified',
+  source text NULL,
+  first_seen_at timestamptz NOT NULL DEFAULT now(),
+  last_seen_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NULL DEFAULT now(),
+  updated_at timestamptz NULL DEFAULT now(),
+  CONSTRAINT contact_points_pkey PRIMARY KEY (id),
+  CONSTRAINT contact_points_person_kind_value_key UNIQUE (person_id, kind, value),
+  CONSTRAINT contact_points_kind_check CHECK (kind IN ('email', 'phone', 'linkedin')),
+  CONSTRAINT contact_points_status_check CHECK (status IN ('unverified', 'valid', 'invalid')),
+  CONSTRAINT contact_points_person_id_fkey FOREIGN KEY (person_id) REFERENCES leadgen.people (id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS contact_points_kind_value_idx ON leadgen.contact_points USING btree (kind, value);
+
+INSERT INTO leadgen.contact_points (person_id, kind, value, value_type, source, first_seen_at, last_seen_at)
+SELECT id, 'email', email, email_type, 'backfill', COALESCE(created_at, now()), COALESCE(updated_at, now())
+FROM leadgen.people
+WHERE email IS NOT NULL
+UNION ALL
+SELECT id, 'phone', phone, phone_type, 'backfill', COALESCE(created_at, now()), COALESCE(updated_at, now())
+FROM leadgen.people
+WHERE phone IS NOT NULL
+UNION ALL
+SELECT id, 'linkedin', linkedin_url, NULL, 'backfill', COALESCE(created_at, now()), COALESCE(updated_at, now())
+FROM leadgen.people
+WHERE linkedin_url IS NOT NULL
+ON CONFLICT (person_id, kind, value) DO NOTHING;
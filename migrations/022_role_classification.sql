@@ -0,0 +1,12 @@
+-- Title classification (src/lib/role-classification.ts, rules in src/lib/role-rules.json)
+-- seniority:          owner / c_level / director / head / lead / manager / senior / entry
+-- department:         hr / technology / sales / marketing / finance / operations /
+--                     customer_service / executive
+-- role_rules_version: rule set version the person was classified with
+-- Existing people stay unclassified (NULL version); run
+--   POST /admin/people/reclassify-roles
+-- repeatedly (passing next_after) to classify them and update their link roles.
+
+ALTER TABLE leadgen.people ADD COLUMN IF NOT EXISTS seniority text NULL;
+ALTER TABLE leadgen.people ADD COLUMN IF NOT EXISTS department text NULL;
+ALTER TABLE leadgen.people ADD COLUMN IF NOT EXISTS role_rules_version text NULL;
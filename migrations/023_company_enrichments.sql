@@ -0,0 +1,19 @@
+-- Company enrichment log (src/lib/company-enrichments.ts, GET /companies/:id)
+-- source:        enrichment provider ("clay", "brreg", ...)
+-- fields:        company fields the enrichment filled
+-- field_values:  filled field -> value
+-- Only enrichments that filled at least one field are recorded.
+
+CREATE TABLE IF NOT EXISTS leadgen.company_enrichments (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL,
+  source text NULL,
+  fields text[] NOT NULL,
+  field_values jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NULL DEFAULT now(),
+  updated_at timestamptz NULL DEFAULT now(),
+  CONSTRAINT company_enrichments_pkey PRIMARY KEY (id),
+  CONSTRAINT company_enrichments_company_id_fkey FOREIGN KEY (company_id) REFERENCES leadgen.companies (id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS company_enrichments_company_id_idx ON leadgen.company_enrichments USING btree (company_id, created_at);
@@ -0,0 +1,129 @@
+-- Full-text search over job posts (src/lib/search.ts, GET /search)
+-- search_vector:   Norwegian + English tsvector of a text
+-- search_query:    websearch query ("quoted phrase", -exclude, or) parsed with both dictionaries
+-- search_headline: text with the query words wrapped in <mark>, NULL when none occur
+-- search_job_posts: job posts whose title + description, company name or a linked
+--                  person's title match the query (and whose combined text has none
+--                  of the excluded words), ranked (title > company name > people
+--                  titles > description) with highlighted fields
+-- GIN expression indexes keep the per-field matches off sequential scans.
+
+CREATE OR REPLACE FUNCTION leadgen.search_vector(doc text) RETURNS tsvector
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT to_tsvector('norwegian', coalesce(doc, '')) || to_tsvector('english', coalesce(doc, ''))
+$$;
+
+CREATE OR REPLACE FUNCTION leadgen.search_query(query text) RETURNS tsquery
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT websearch_to_tsquery('norwegian', query) || websearch_to_tsquery('english', query)
+$$;
+
+CREATE OR REPLACE FUNCTION leadgen.search_headline(doc text, query text, options text DEFAULT '') RETURNS text
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE
+    WHEN position('<mark>' IN h.norwegian) > 0 THEN h.norwegian
+    WHEN position('<mark>' IN h.english) > 0 THEN h.english
+  END
+  FROM (
+    SELECT
+      ts_headline('norwegian', doc, websearch_to_tsquery('norwegian', query), 'StartSel=<mark>, StopSel=</mark>, ' || options) AS norwegian,
+      ts_headline('english', doc, websearch_to_tsquery('english', query), 'StartSel=<mark>, StopSel=</mark>, ' || options) AS english
+  ) h
+$$;
+
+CREATE INDEX IF NOT EXISTS job_posts_search_idx ON leadgen.job_posts USING gin (leadgen.search_vector(coalesce(title, '') || ' ' || coalesce(description, '')));
+CREATE INDEX IF NOT EXISTS companies_name_search_idx ON leadgen.companies USING gin (leadgen.search_vector(name));
+CREATE INDEX IF NOT EXISTS people_title_search_idx ON leadgen.people USING gin (leadgen.search_vector(title));
+
+CREATE OR REPLACE FUNCTION leadgen.search_job_posts(
+  search_query text,
+  filter_board text DEFAULT NULL,
+  filter_source text DEFAULT NULL,
+  filter_company_id uuid DEFAULT NULL,
+  filter_sector text DEFAULT NULL,
+  filter_industry text DEFAULT NULL,
+  filter_location text DEFAULT NULL,
+  created_from timestamptz DEFAULT NULL,
+  created_to timestamptz DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+) RETURNS TABLE (
+  job_post_id uuid,
+  rank real,
+  title_highlight text,
+  description_highlight text,
+  company_name_highlight text,
+  people_title_highlights text[]
+)
+LANGUAGE sql STABLE AS $$
+  WITH query AS (
+    SELECT leadgen.search_query(search_query) AS q
+  ),
+  candidates AS (
+    SELECT jp.id
+    FROM leadgen.job_posts jp, query
+    WHERE leadgen.search_vector(coalesce(jp.title, '') || ' ' || coalesce(jp.description, '')) @@ query.q
+    UNION
+    SELECT jp.id
+    FROM leadgen.companies c
+    JOIN leadgen.job_posts jp ON jp.company_id = c.id, query
+    WHERE leadgen.search_vector(c.name) @@ query.q
+    UNION
+    SELECT jpp.job_post_id
+    FROM leadgen.people p
+    JOIN leadgen.job_post_people jpp ON jpp.person_id = p.id, query
+    WHERE leadgen.search_vector(p.title) @@ query.q
+  ),
+  ranked AS (
+    SELECT
+      jp.id,
+      jp.title,
+      jp.description,
+      jp.created_at,
+      c.name AS company_name,
+      pt.titles AS people_titles,
+      ts_rank(d.document, query.q) AS rank
+    FROM candidates
+    JOIN leadgen.job_posts jp ON jp.id = candidates.id
+    LEFT JOIN leadgen.companies c ON c.id = jp.company_id
+    LEFT JOIN LATERAL (
+      SELECT array_agg(DISTINCT p.title) AS titles
+      FROM leadgen.job_post_people jpp
+      JOIN leadgen.people p ON p.id = jpp.person_id
+      WHERE jpp.job_post_id = jp.id AND p.title IS NOT NULL
+    ) pt ON true
+    CROSS JOIN LATERAL (
+      SELECT
+        setweight(leadgen.search_vector(jp.title), 'A') ||
+        setweight(leadgen.search_vector(c.name), 'B') ||
+        setweight(leadgen.search_vector(array_to_string(pt.titles, ' ')), 'C') ||
+        setweight(leadgen.search_vector(jp.description), 'D') AS document
+    ) d,
+    query
+    WHERE d.document @@ query.q
+      AND (filter_board IS NULL OR jp.board = filter_board)
+      AND (filter_source IS NULL OR jp.source ILIKE '%' || filter_source || '%')
+      AND (filter_company_id IS NULL OR jp.company_id = filter_company_id)
+      AND (filter_sector IS NULL OR jp.sector ILIKE filter_sector)
+      AND (filter_industry IS NULL OR jp.industries @> ARRAY[filter_industry])
+      AND (filter_location IS NULL OR jp.location ILIKE '%' || filter_location || '%')
+      AND (created_from IS NULL OR jp.created_at >= created_from)
+      AND (created_to IS NULL OR jp.created_at < created_to)
+    ORDER BY rank DESC, jp.created_at DESC, jp.id
+    LIMIT result_limit OFFSET result_offset
+  )
+  SELECT
+    ranked.id,
+    ranked.rank,
+    leadgen.search_headline(ranked.title, search_query, 'HighlightAll=true'),
+    leadgen.search_headline(ranked.description, search_query, 'MaxFragments=2, MaxWords=30, MinWords=10'),
+    leadgen.search_headline(ranked.company_name, search_query, 'HighlightAll=true'),
+    ARRAY(
+      SELECT highlight
+      FROM unnest(ranked.people_titles) AS title,
+        leadgen.search_headline(title, search_query, 'HighlightAll=true') AS highlight
+      WHERE highlight IS NOT NULL
+    )
+  FROM ranked
+  ORDER BY ranked.rank DESC, ranked.created_at DESC, ranked.id
+$$;
@@ -0,0 +1,28 @@
+-- CRM sync state (src/lib/crm-sync.ts, GET /cron/hubspot-sync)
+-- provider:     'hubspot'
+-- entity_type:  'company' (leadgen.companies) or 'person' (leadgen.people, a HubSpot contact)
+-- external_id:  id of the object in the CRM
+-- payload_hash: sha256 of the properties (and associations) last sent
+-- status:       'synced', or 'failed' (retried on the next run; last_error holds the reason)
+-- Read positions of the sync are in leadgen.sync_cursors ('hubspot-companies', 'hubspot-people').
+
+CREATE TABLE IF NOT EXISTS leadgen.crm_sync_state (
+  provider text NOT NULL,
+  entity_type text NOT NULL,
+  entity_id uuid NOT NULL,
+  external_id text NULL,
+  payload_hash text NULL,
+  status text NOT NULL DEFAULT 'synced',
+  last_error text NULL,
+  synced_at timestamptz NULL,
+  created_at timestamptz NULL DEFAULT now(),
+  updated_at timestamptz NULL DEFAULT now(),
+  CONSTRAINT crm_sync_state_pkey PRIMARY KEY (provider, entity_type, entity_id),
+  CONSTRAINT crm_sync_state_entity_type_check CHECK (entity_type IN ('company', 'person')),
+  CONSTRAINT crm_sync_state_status_check CHECK (status IN ('synced', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS crm_sync_state_external_id_idx ON leadgen.crm_sync_state USING btree (provider, entity_type, external_id);
+CREATE INDEX IF NOT EXISTS crm_sync_state_failed_idx ON leadgen.crm_sync_state USING btree (provider, updated_at) WHERE status = 'failed';
+CREATE INDEX IF NOT EXISTS companies_updated_at_idx ON leadgen.companies USING btree (updated_at);
+CREATE INDEX IF NOT EXISTS people_updated_at_idx ON leadgen.people USING btree (updated_at);
@@ -0,0 +1,4 @@
+-- Claims on Clay outbox entries (src/lib/clay-outbox.ts)
+-- claimed_until: set while a run is sending the entry; other runs skip it until then
+
+ALTER TABLE leadgen.clay_outbox ADD COLUMN IF NOT EXISTS claimed_until timestamptz NULL;
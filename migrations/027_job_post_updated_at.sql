@@ -0,0 +1,18 @@
+-- Change timestamp on job posts (set by the repository on every write), read
+-- by the Clay sync (src/lib/clay-sync.ts) together with companies.updated_at
+-- and people.updated_at
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'leadgen' AND table_name = 'job_posts' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE leadgen.job_posts ADD COLUMN updated_at timestamptz NULL DEFAULT now();
+    -- Existing posts: last changed when created
+    UPDATE leadgen.job_posts SET updated_at = created_at WHERE created_at IS NOT NULL;
+  END IF;
+END$$;
+
+-- (updated_at, id) scans in queueChangedJobPostsForClay
+CREATE INDEX IF NOT EXISTS job_posts_updated_at_idx ON leadgen.job_posts USING btree (updated_at, id);
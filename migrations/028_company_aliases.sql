@@ -0,0 +1,33 @@
+-- Former company keys and clean names (src/lib/company-merge.ts)
+-- kind:   'company_key' or 'clean_name' of a company merged into company_id
+-- value:  belongs to one company; findExistingCompany still finds the
+--         survivor under the merged company's key and name
+-- source: 'merge'
+
+CREATE TABLE IF NOT EXISTS leadgen.company_aliases (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL,
+  kind text NOT NULL,
+  value text NOT NULL,
+  source text NULL,
+  created_at timestamptz NULL DEFAULT now(),
+  updated_at timestamptz NULL DEFAULT now(),
+  CONSTRAINT company_aliases_pkey PRIMARY KEY (id),
+  CONSTRAINT company_aliases_kind_value_key UNIQUE (kind, value),
+  CONSTRAINT company_aliases_company_id_fkey FOREIGN KEY (company_id) REFERENCES leadgen.companies (id) ON DELETE CASCADE,
+  CONSTRAINT company_aliases_kind_check CHECK (kind IN ('company_key', 'clean_name'))
+);
+
+CREATE INDEX IF NOT EXISTS company_aliases_company_id_idx ON leadgen.company_aliases USING btree (company_id);
+
+-- Merges are finished by a retry of the same merge (completed_at is set last)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'leadgen' AND table_name = 'company_merges' AND column_name = 'completed_at'
+  ) THEN
+    ALTER TABLE leadgen.company_merges ADD COLUMN completed_at timestamptz NULL;
+    UPDATE leadgen.company_merges SET completed_at = created_at;
+  END IF;
+END$$;
@@ -0,0 +1,10 @@
+-- Where a company_people / job_post_people role came from
+-- role_source: 'title'   classified from the person's title (src/lib/role-classification.ts)
+--              'company' a company decision maker linked to the company's job post
+--              'clay'    decision maker found by Clay enrichment
+--              'import'  role given in a CSV / JSON import
+--              NULL      recorded before role_source existed
+-- reclassifyPersonRoles only changes 'title' links.
+
+ALTER TABLE leadgen.company_people ADD COLUMN IF NOT EXISTS role_source text NULL;
+ALTER TABLE leadgen.job_post_people ADD COLUMN IF NOT EXISTS role_source text NULL;
@@ -0,0 +1,33 @@
+-- HTML-escaped search highlights (src/lib/search.ts, GET /search)
+-- html_escape:     & < > " ' as HTML entities
+-- search_headline: as in 024, but the text is escaped and only the <mark> tags
+--                  are markup. ts_headline marks the words with chr(1) / chr(2)
+--                  (removed from the text first), which become the tags after
+--                  escaping.
+
+CREATE OR REPLACE FUNCTION leadgen.html_escape(value text) RETURNS text
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT replace(replace(replace(replace(replace(value,
+    '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')
+$$;
+
+CREATE OR REPLACE FUNCTION leadgen.search_headline(doc text, query text, options text DEFAULT '') RETURNS text
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT replace(replace(leadgen.html_escape(m.marked), chr(1), '<mark>'), chr(2), '</mark>')
+  FROM (
+    SELECT CASE
+      WHEN position(chr(1) IN h.norwegian) > 0 THEN h.norwegian
+      WHEN position(chr(1) IN h.english) > 0 THEN h.english
+    END AS marked
+    FROM (
+      SELECT
+        ts_headline('norwegian', d.doc, websearch_to_tsquery('norwegian', query), d.selectors || options) AS norwegian,
+        ts_headline('english', d.doc, websearch_to_tsquery('english', query), d.selectors || options) AS english
+      FROM (
+        SELECT
+          translate(doc, chr(1) || chr(2), '') AS doc,
+          'StartSel="' || chr(1) || '", StopSel="' || chr(2) || '", ' AS selectors
+      ) d
+    ) h
+  ) m
+$$;
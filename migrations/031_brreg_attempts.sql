@@ -0,0 +1,9 @@
+-- Failed Enhetsregisteret lookups (src/lib/brreg.ts)
+-- brreg_attempts:        failed lookups in a row; after BRREG_MAX_ATTEMPTS the company is marked checked
+-- brreg_last_attempt_at: last failed lookup; failed companies are retried after the never-attempted ones,
+--                        least recently attempted first
+
+ALTER TABLE leadgen.companies ADD COLUMN IF NOT EXISTS brreg_attempts integer NOT NULL DEFAULT 0;
+ALTER TABLE leadgen.companies ADD COLUMN IF NOT EXISTS brreg_last_attempt_at timestamptz NULL;
+
+CREATE INDEX IF NOT EXISTS companies_brreg_retry_idx ON leadgen.companies USING btree (brreg_last_attempt_at, id) WHERE brreg_checked_at IS NULL AND brreg_last_attempt_at IS NOT NULL;
@@ -0,0 +1,34 @@
+-- CRM sync retries and change tracking (src/lib/crm-sync.ts)
+-- attempts:        failed attempts in a row; retries stop at CRM_MAX_ATTEMPTS until the record changes
+-- last_attempt_at: when the record was last sent; failed records are retried oldest attempt first
+-- The sync reads companies and people by (updated_at, id) from its positions in leadgen.sync_cursors.
+-- updated_at is set by a trigger on every update of companies and people, also by writes that bypass
+-- the application.
+
+ALTER TABLE leadgen.crm_sync_state ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0;
+ALTER TABLE leadgen.crm_sync_state ADD COLUMN IF NOT EXISTS last_attempt_at timestamptz NULL;
+
+-- Replaced by indexes matching the new scans
+DROP INDEX IF EXISTS leadgen.crm_sync_state_failed_idx;
+DROP INDEX IF EXISTS leadgen.companies_updated_at_idx;
+DROP INDEX IF EXISTS leadgen.people_updated_at_idx;
+CREATE INDEX IF NOT EXISTS crm_sync_state_retry_idx ON leadgen.crm_sync_state USING btree (provider, last_attempt_at, entity_id) WHERE status = 'failed';
+CREATE INDEX IF NOT EXISTS companies_updated_at_id_idx ON leadgen.companies USING btree (updated_at, id);
+CREATE INDEX IF NOT EXISTS people_updated_at_id_idx ON leadgen.people USING btree (updated_at, id);
+
+CREATE OR REPLACE FUNCTION leadgen.set_updated_at() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW IS DISTINCT FROM OLD THEN
+    NEW.updated_at = now();
+  END IF;
+  RETURN NEW;
+END
+$$;
+
+DROP TRIGGER IF EXISTS companies_set_updated_at ON leadgen.companies;
+CREATE TRIGGER companies_set_updated_at BEFORE UPDATE ON leadgen.companies
+  FOR EACH ROW EXECUTE FUNCTION leadgen.set_updated_at();
+DROP TRIGGER IF EXISTS people_set_updated_at ON leadgen.people;
+CREATE TRIGGER people_set_updated_at BEFORE UPDATE ON leadgen.people
+  FOR EACH ROW EXECUTE FUNCTION leadgen.set_updated_at();
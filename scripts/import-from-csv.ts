@@ -9,10 +9,17 @@ import {
   normalizePhone,
   normalizeNameForKey,
   normalizeNameForComparison,
-  normalizeDomainHost,
+  normalizeCompanyDomain,
   normalizeOrgnr,
 } from "../src/lib/normalize";
 import { buildPersonKey, buildCompanyKey } from "../src/lib/keys";
+import { phoneLineType } from "../src/lib/phone";
+import {
+  companyDomainFromEmail,
+  emailType,
+  personEmail,
+} from "../src/lib/email";
+import { personTitleFields } from "../src/lib/role-classification";
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -46,8 +53,13 @@ type CsvPerson = {
   full_name: string;
   title?: string;
   email?: string;
+  email_type?: string;
   phone?: string;
+  phone_type?: string;
   linkedin_url?: string;
+  seniority?: string;
+  department?: string;
+  role_rules_version?: string;
   normalized_company_name?: string;
   normalized_company_domain?: string;
 };
@@ -137,12 +149,6 @@ function fail(ctx: string, error: any) {
   throw error;
 }
 
-function emailDomain(email?: string) {
-  if (!email) return null;
-  const m = email.toLowerCase().match(/@([^@]+)$/);
-  return m ? m[1] : null;
-}
-
 function normalizeDomain(s?: string | null) {
   if (!s) return null;
   return s
@@ -166,8 +172,8 @@ function deduplicateCompanies(rows: CsvCompany[]): CsvCompany[] {
   const normalizedRows = rows.map((row) => ({
     ...row,
     orgnr: normalizeOrgnr(row.orgnr) || undefined,
-    clean_domain: normalizeDomainHost(row.clean_domain) || undefined,
-    domain: normalizeDomainHost(row.domain) || undefined,
+    clean_domain: normalizeCompanyDomain(row.clean_domain) || undefined,
+    domain: normalizeCompanyDomain(row.domain) || undefined,
     name_normalized: normalizeName(row.name) || undefined, // Use normalizeName for comparison (slug format)
   }));
 
@@ -368,10 +374,46 @@ async function upsertCompanies(rows: CsvCompany[]) {
         name: (r.name as string | null) ?? null,
       }))
     );
+
+    // Record each company's domain as its primary alias; domains already
+    // owned by another company are left alone
+    const aliases = (data ?? [])
+      .filter((r) => r.clean_domain)
+      .map((r) => ({
+        company_id: r.id,
+        domain: r.clean_domain,
+        is_primary: true,
+        source: "csv",
+      }));
+    if (aliases.length) {
+      const { error: aliasError } = await supabase
+        .from("company_domains")
+        .upsert(aliases, { onConflict: "domain", ignoreDuplicates: true });
+      fail("upsert company_domains", aliasError);
+    }
   }
   return collected;
 }
 
+/**
+ * Domain -> company id for all domain aliases (company_domains)
+ */
+async function fetchDomainAliases(): Promise<Map<string, string>> {
+  const aliases = new Map<string, string>();
+  for (let from = 0; ; from += CHUNK) {
+    const { data, error } = await supabase
+      .from("company_domains")
+      .select("domain, company_id")
+      .order("domain")
+      .range(from, from + CHUNK - 1);
+    fail("select company_domains", error);
+    for (const row of data ?? []) {
+      aliases.set(row.domain as string, row.company_id as string);
+    }
+    if (!data || data.length < CHUNK) return aliases;
+  }
+}
+
 /**
  * Find existing person by any identifier (LinkedIn, email, phone)
  */
@@ -389,8 +431,9 @@ async function findPersonByIdentifiers(params: {
       conditions.push(`linkedin_url.eq.${normalizedLinkedIn}`);
     }
   }
+  // Shared mailboxes (post@, jobb@) don't identify a person
   if (email) {
-    const normalizedEmail = normalizeEmail(email);
+    const normalizedEmail = personEmail(email);
     if (normalizedEmail) {
       conditions.push(`email.eq.${normalizedEmail}`);
     }
@@ -435,13 +478,14 @@ function deduplicatePeople(rows: CsvPerson[]): CsvPerson[] {
   for (const row of normalizedRows) {
     // Find existing group by checking all identifiers
     let groupKey: string | undefined;
+    const matchEmail = personEmail(row.email);
 
     // Check if any identifier already has a group
     if (row.linkedin_url) {
       groupKey = identifierToGroup.get(`linkedin:${row.linkedin_url}`);
     }
-    if (!groupKey && row.email) {
-      groupKey = identifierToGroup.get(`email:${row.email}`);
+    if (!groupKey && matchEmail) {
+      groupKey = identifierToGroup.get(`email:${matchEmail}`);
     }
     if (!groupKey && row.phone) {
       groupKey = identifierToGroup.get(`phone:${row.phone}`);
@@ -452,8 +496,8 @@ function deduplicatePeople(rows: CsvPerson[]): CsvPerson[] {
       // Use the best identifier as the group key
       if (row.linkedin_url) {
         groupKey = `linkedin:${row.linkedin_url}`;
-      } else if (row.email) {
-        groupKey = `email:${row.email}`;
+      } else if (matchEmail) {
+        groupKey = `email:${matchEmail}`;
       } else if (row.phone) {
         groupKey = `phone:${row.phone}`;
       } else {
@@ -469,8 +513,8 @@ function deduplicatePeople(rows: CsvPerson[]): CsvPerson[] {
     if (row.linkedin_url) {
       identifierToGroup.set(`linkedin:${row.linkedin_url}`, groupKey);
     }
-    if (row.email) {
-      identifierToGroup.set(`email:${row.email}`, groupKey);
+    if (matchEmail) {
+      identifierToGroup.set(`email:${matchEmail}`, groupKey);
     }
     if (row.phone) {
       identifierToGroup.set(`phone:${row.phone}`, groupKey);
@@ -584,12 +628,18 @@ async function upsertPeople(rows: CsvPerson[]) {
 
     // Use normalized identifiers and correct key for upsert
     // Convert null to undefined for type compatibility
+    const titleFields = personTitleFields(row.title);
     processedRows.push({
       ...row,
       person_key: correctKey,
       email: normalizedEmail || undefined,
+      email_type: emailType(normalizedEmail) || undefined,
       phone: normalizedPhone || undefined,
+      phone_type: phoneLineType(normalizedPhone) || undefined,
       linkedin_url: normalizedLinkedIn || undefined,
+      seniority: titleFields.seniority || undefined,
+      department: titleFields.department || undefined,
+      role_rules_version: titleFields.role_rules_version,
     });
 
     processed++;
@@ -612,8 +662,13 @@ async function upsertPeople(rows: CsvPerson[]) {
         "full_name",
         "title",
         "email",
+        "email_type",
         "phone",
+        "phone_type",
         "linkedin_url",
+        "seniority",
+        "department",
+        "role_rules_version",
         "normalized_company_name",
         "normalized_company_domain",
       ])
@@ -623,7 +678,7 @@ async function upsertPeople(rows: CsvPerson[]) {
       .from("people")
       .upsert(sanitized, { onConflict: "person_key" })
       .select(
-        "id, person_key, email, normalized_company_name, normalized_company_domain"
+        "id, person_key, email, email_type, phone, phone_type, linkedin_url, normalized_company_name, normalized_company_domain"
       );
     fail("upsert people", error);
     collected = collected.concat(
@@ -637,6 +692,26 @@ async function upsertPeople(rows: CsvPerson[]) {
           (r.normalized_company_domain as string | null) ?? null,
       }))
     );
+
+    // Record each person's email / phone / LinkedIn as contact points
+    const contactPoints = (data ?? []).flatMap((r) =>
+      [
+        { kind: "email", value: r.email, value_type: r.email_type },
+        { kind: "phone", value: r.phone, value_type: r.phone_type },
+        { kind: "linkedin", value: r.linkedin_url, value_type: null },
+      ]
+        .filter((point) => point.value)
+        .map((point) => ({ person_id: r.id, ...point, source: "csv" }))
+    );
+    if (contactPoints.length) {
+      const { error: contactError } = await supabase
+        .from("contact_points")
+        .upsert(contactPoints, {
+          onConflict: "person_id,kind,value",
+          ignoreDuplicates: true,
+        });
+      fail("upsert contact_points", contactError);
+    }
   }
   return collected;
 }
@@ -697,6 +772,7 @@ async function upsertJobPostPeopleFromContacts(
     job_post_id: string;
     person_id: string;
     role: string;
+    role_source: string;
     source: string | null;
   }[] = [];
 
@@ -753,6 +829,7 @@ async function upsertJobPostPeopleFromContacts(
       job_post_id,
       person_id,
       role: job.contact_role || "contact_person",
+      role_source: "import",
       source: "csv_contact",
     });
 
@@ -764,6 +841,7 @@ async function upsertJobPostPeopleFromContacts(
           company_id,
           person_id,
           role: job.contact_role || "contact_person",
+          role_source: "import",
         },
       ];
       const { error: cpErr } = await supabase
@@ -797,8 +875,9 @@ async function upsertCompanyPeopleBySignals(
     normalized_company_domain: string | null;
   }[]
 ) {
-  // Build domain lookup (prefer clean_domain, fall back to domain)
-  const byDomain = new Map<string, string>();
+  // Build domain lookup: every alias of a company (other brands/domains), then
+  // clean_domain and domain
+  const byDomain = await fetchDomainAliases();
   for (const c of companies) {
     const doms = [
       normalizeDomain(c.clean_domain),
@@ -814,10 +893,16 @@ async function upsertCompanyPeopleBySignals(
     if (n) byName.set(n, c.id);
   }
 
-  const payload: { company_id: string; person_id: string; role: string }[] = [];
+  const payload: {
+    company_id: string;
+    person_id: string;
+    role: string;
+    role_source: string;
+  }[] = [];
   for (const p of people) {
     const dom =
-      normalizeDomain(emailDomain(p.email || undefined)) ||
+      // Free-mail addresses (gmail.com etc.) say nothing about the employer
+      normalizeDomain(companyDomainFromEmail(p.email)) ||
       normalizeDomain(p.normalized_company_domain || undefined);
     const companyByDomain = dom ? byDomain.get(dom) : undefined;
 
@@ -827,7 +912,12 @@ async function upsertCompanyPeopleBySignals(
     const company_id = companyByDomain || companyByName;
     if (!company_id) continue;
 
-    payload.push({ company_id, person_id: p.id, role: "contact_person" });
+    payload.push({
+      company_id,
+      person_id: p.id,
+      role: "contact_person",
+      role_source: "import",
+    });
   }
 
   for (const batch of chunk(payload, CHUNK)) {
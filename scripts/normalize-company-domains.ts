@@ -0,0 +1,119 @@
+import "dotenv/config";
+import { getRepository, eq, gt, Row } from "../src/lib/repository";
+import { normalizeCompanyDomain } from "../src/lib/normalize";
+import { isDistinctPair, queueMatchReview } from "../src/lib/match-reviews";
+
+// Rewrites companies.clean_domain and people.normalized_company_domain to
+// registrable domains (normalizeCompanyDomain): "karriere.equinor.com" ->
+// "equinor.com", platform domains like finn.no -> null. Companies that end up
+// sharing a domain are queued in the match review queue (they are not merged).
+// company_key is left unchanged. Pass --dry-run to only print the changes.
+const DRY_RUN = process.argv.includes("--dry-run");
+const PAGE_SIZE = 500;
+
+async function* pages(table: string, columns: string[]) {
+  let lastId: string | null = null;
+  while (true) {
+    const rows: Row[] = await getRepository().select(table, {
+      columns: ["id", ...columns],
+      filters: lastId ? [gt("id", lastId)] : [],
+      orderBy: [{ column: "id", ascending: true }],
+      limit: PAGE_SIZE,
+    });
+    if (rows.length === 0) return;
+    yield rows;
+    lastId = rows[rows.length - 1].id;
+  }
+}
+
+async function normalizeCompanies() {
+  // Domain -> companies having it after normalization (oldest first)
+  const byDomain = new Map<string, Row[]>();
+  let updated = 0;
+
+  for await (const companies of pages("companies", [
+    "name",
+    "domain",
+    "clean_domain",
+    "created_at",
+  ])) {
+    for (const company of companies) {
+      const cleanDomain = normalizeCompanyDomain(
+        company.clean_domain || company.domain
+      );
+      if (cleanDomain) {
+        byDomain.set(cleanDomain, [
+          ...(byDomain.get(cleanDomain) ?? []),
+          company,
+        ]);
+      }
+      if (cleanDomain === (company.clean_domain ?? null)) continue;
+
+      updated++;
+      console.log(
+        `${company.name}: ${company.clean_domain ?? "-"} -> ${cleanDomain ?? "-"}`
+      );
+      if (!DRY_RUN) {
+        await getRepository().update("companies", [eq("id", company.id)], {
+          clean_domain: cleanDomain,
+        });
+      }
+    }
+  }
+
+  let queued = 0;
+  for (const [domain, companies] of byDomain) {
+    if (companies.length < 2) continue;
+    const [oldest, ...others] = [...companies].sort((a, b) =>
+      String(a.created_at).localeCompare(String(b.created_at))
+    );
+    console.log(
+      `Shared domain ${domain}: ${companies.map((c) => c.name).join(", ")}`
+    );
+    if (DRY_RUN) continue;
+    for (const company of others) {
+      // Known to be different companies sharing a website
+      if (await isDistinctPair("company", company.id, oldest.id)) continue;
+      const review = await queueMatchReview({
+        entity_type: "company",
+        entity_id: company.id,
+        candidate_id: oldest.id,
+        confidence: 0.9,
+        details: { method: "registrable_domain", domain },
+      });
+      if (review) queued++;
+    }
+  }
+  return { updated, queued };
+}
+
+async function normalizePeople() {
+  let updated = 0;
+  for await (const people of pages("people", ["normalized_company_domain"])) {
+    for (const person of people) {
+      if (!person.normalized_company_domain) continue;
+      const domain = normalizeCompanyDomain(person.normalized_company_domain);
+      if (domain === person.normalized_company_domain) continue;
+      updated++;
+      if (!DRY_RUN) {
+        await getRepository().update("people", [eq("id", person.id)], {
+          normalized_company_domain: domain,
+        });
+      }
+    }
+  }
+  return { updated };
+}
+
+async function main() {
+  console.log(`Normalizing company domains${DRY_RUN ? " (dry run)" : ""}...`);
+  const companies = await normalizeCompanies();
+  const people = await normalizePeople();
+  console.log("Companies:", companies);
+  console.log("People:", people);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -1,13 +1,13 @@
 import "dotenv/config";
+import { listIngestSources, IngestSource } from "../src/lib/sources";
+import { buildSignatureHeaders } from "../src/lib/auth";
 
 // Config
-const APIFY_DATASET_URL_SYSTEK = process.env.APIFY_DATASET_URL_SYSTEK ?? "";
-const APIFY_DATASET_URL_ILDER = process.env.APIFY_DATASET_URL_ILDER ?? "";
 const INGEST_BASE_URL =
   process.env.INGEST_URL ?? "http://localhost:5432/ingest";
 
 // Simple helper
-async function postJob(job: any, source: "systek" | "ilder") {
+async function postJob(job: any, source: IngestSource) {
   const payload = {
     url: job.url,
     title: job.title,
@@ -30,12 +30,17 @@ async function postJob(job: any, source: "systek" | "ilder") {
     language: job.language,
   };
 
-  const endpoint = `${INGEST_BASE_URL}/apify-job-${source}`;
+  const endpoint = `${INGEST_BASE_URL}/${source.name}/apify-job`;
+  const body = JSON.stringify(payload);
   try {
     const res = await fetch(endpoint, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
+      headers: {
+        "Content-Type": "application/json",
+        ...(source.auth_secret &&
+          buildSignatureHeaders(source.auth_secret, body)),
+      },
+      body,
     });
 
     if (!res.ok) {
@@ -57,9 +62,10 @@ async function postJob(job: any, source: "systek" | "ilder") {
   }
 }
 
-async function processDataset(datasetUrl: string, source: "systek" | "ilder") {
+async function processDataset(datasetUrl: string, source: IngestSource) {
+  const label = source.name.toUpperCase();
   console.log(
-    `\n[${source.toUpperCase()}] Fetching Apify dataset from`,
+    `\n[${label}] Fetching Apify dataset from`,
     datasetUrl
   );
   const dataRes = await fetch(datasetUrl);
@@ -71,7 +77,7 @@ async function processDataset(datasetUrl: string, source: "systek" | "ilder") {
   if (!Array.isArray(items)) throw new Error("Dataset payload is not an array");
 
   console.log(
-    `[${source.toUpperCase()}] Fetched ${items.length} items. Posting...`
+    `[${label}] Fetched ${items.length} items. Posting...`
   );
   let ok = 0;
   let failed = 0;
@@ -80,17 +86,17 @@ async function processDataset(datasetUrl: string, source: "systek" | "ilder") {
       await postJob(item, source);
       ok++;
       if (ok % 25 === 0)
-        console.log(`[${source.toUpperCase()}] Posted ${ok}/${items.length}`);
+        console.log(`[${label}] Posted ${ok}/${items.length}`);
     } catch (err: any) {
       failed++;
       console.error(
-        `[${source.toUpperCase()}] Item ${i} failed:`,
+        `[${label}] Item ${i} failed:`,
         err?.message ?? err
       );
     }
   }
   console.log(
-    `[${source.toUpperCase()}] Done. Success: ${ok}/${
+    `[${label}] Done. Success: ${ok}/${
       items.length
     }, Failed: ${failed}`
   );
@@ -98,50 +104,35 @@ async function processDataset(datasetUrl: string, source: "systek" | "ilder") {
 }
 
 async function main() {
-  const results: {
-    systek?: { ok: number; failed: number; total: number };
-    ilder?: { ok: number; failed: number; total: number };
-  } = {};
+  const results: Record<string, { ok: number; failed: number; total: number }> =
+    {};
 
-  // Process SYSTEK dataset
-  if (APIFY_DATASET_URL_SYSTEK) {
-    try {
-      results.systek = await processDataset(APIFY_DATASET_URL_SYSTEK, "systek");
-    } catch (err: any) {
-      console.error("[SYSTEK] Fatal error:", err?.message ?? err);
+  // Process every registered source that has a dataset URL
+  const sources = await listIngestSources("apify");
+  for (const source of sources) {
+    const label = source.name.toUpperCase();
+    if (!source.dataset_url) {
+      console.warn(`[${label}] No dataset URL configured, skipping`);
+      continue;
     }
-  } else {
-    console.warn("[SYSTEK] APIFY_DATASET_URL_SYSTEK not set, skipping");
-  }
-
-  // Process ILDER dataset
-  if (APIFY_DATASET_URL_ILDER) {
     try {
-      results.ilder = await processDataset(APIFY_DATASET_URL_ILDER, "ilder");
+      results[source.name] = await processDataset(source.dataset_url, source);
     } catch (err: any) {
-      console.error("[ILDER] Fatal error:", err?.message ?? err);
+      console.error(`[${label}] Fatal error:`, err?.message ?? err);
     }
-  } else {
-    console.warn("[ILDER] APIFY_DATASET_URL_ILDER not set, skipping");
   }
 
   // Summary
   console.log("\n=== Summary ===");
-  if (results.systek) {
-    console.log(
-      `SYSTEK: ${results.systek.ok}/${results.systek.total} succeeded, ${results.systek.failed} failed`
-    );
-  }
-  if (results.ilder) {
+  for (const [name, result] of Object.entries(results)) {
     console.log(
-      `ILDER: ${results.ilder.ok}/${results.ilder.total} succeeded, ${results.ilder.failed} failed`
+      `${name.toUpperCase()}: ${result.ok}/${result.total} succeeded, ${result.failed} failed`
     );
   }
-  const totalOk = (results.systek?.ok ?? 0) + (results.ilder?.ok ?? 0);
-  const totalFailed =
-    (results.systek?.failed ?? 0) + (results.ilder?.failed ?? 0);
-  const totalProcessed =
-    (results.systek?.total ?? 0) + (results.ilder?.total ?? 0);
+  const totals = Object.values(results);
+  const totalOk = totals.reduce((sum, r) => sum + r.ok, 0);
+  const totalFailed = totals.reduce((sum, r) => sum + r.failed, 0);
+  const totalProcessed = totals.reduce((sum, r) => sum + r.total, 0);
   console.log(
     `Total: ${totalOk}/${totalProcessed} succeeded, ${totalFailed} failed`
   );
@@ -0,0 +1,242 @@
+import "dotenv/config";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import { AddressInfo } from "node:net";
+import {
+  getRepository,
+  setRepository,
+  MemoryRepository,
+  eq,
+  Row,
+} from "../src/lib/repository";
+import {
+  createBrregFetcher,
+  enrichCompaniesFromBrreg,
+  BRREG_BASE_URL,
+  BRREG_MAX_ATTEMPTS,
+  BrregFetcher,
+} from "../src/lib/brreg";
+
+// Config
+// BRREG_FIXTURES_DIR: recorded API responses (default data/fixtures/brreg),
+// served by a local stand-in for the Enhetsregisteret API. Set BRREG_LIVE=1
+// to query the real API. Without DB_BACKEND the run uses an in-memory store
+// seeded with a few sample companies, and checks the mapped fields and that
+// a company whose lookups keep failing is retried BRREG_MAX_ATTEMPTS times
+// (after the companies never looked up) and then marked checked.
+const FIXTURES_DIR =
+  process.env.BRREG_FIXTURES_DIR ??
+  path.join(process.cwd(), "data", "fixtures", "brreg");
+const LIVE = process.env.BRREG_LIVE === "1";
+const FAILING_NAME = "Feilende Firma AS";
+
+/**
+ * Local fixture server. Paths map to file names:
+ *   /enheter/<orgnr>     -> enheter-<orgnr>.json
+ *   /enheter?navn=<name> -> enheter-navn-<name slug>.json
+ * Unknown units answer 404, unknown searches an empty result page, and
+ * searches for FAILING_NAME a 503.
+ */
+function startFixtureServer(dir: string): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const navn = url.searchParams.get("navn");
+    const name = navn
+      ? `enheter-navn-${navn.toLowerCase().replace(/[^a-z0-9æøå]+/g, "-")}`
+      : url.pathname.replace(/^\//, "").replace(/\//g, "-");
+    const file = path.join(dir, `${name}.json`);
+
+    res.setHeader("Content-Type", "application/json");
+    if (navn === FAILING_NAME) {
+      res.statusCode = 503;
+      res.end(JSON.stringify({ status: 503, error: "Service Unavailable" }));
+    } else if (fs.existsSync(file)) {
+      res.end(fs.readFileSync(file, "utf8"));
+    } else if (navn) {
+      res.end(JSON.stringify({ page: { totalElements: 0 } }));
+    } else {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ status: 404, error: "Not Found" }));
+    }
+  });
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve(server))
+  );
+}
+
+async function main() {
+  const seeded = !process.env.DB_BACKEND;
+  if (seeded) {
+    setRepository(new MemoryRepository());
+    await getRepository().insert("companies", [
+      // Looked up by orgnr
+      {
+        company_key: "sykehuset-innlandet.no",
+        name: "Sykehuset Innlandet HF",
+        orgnr: "983 971 709",
+      },
+      // Found by name; the registered homepage confirms the match
+      {
+        company_key: "equinor.com",
+        name: "Equinor",
+        domain: "equinor.com",
+        clean_domain: "equinor.com",
+      },
+      // Already known with an orgnr...
+      {
+        company_key: "990888213",
+        name: "Equinor Energy",
+        orgnr: "990888213",
+        brreg_checked_at: new Date().toISOString(),
+      },
+      // ...so the same unit found by name is queued for review
+      { company_key: "equinor-energy-as", name: "Equinor Energy AS" },
+      // No match
+      { company_key: "ukjent-firma", name: "Ukjent Firma AS" },
+      // The search fails every time
+      { company_key: "feilende-firma", name: FAILING_NAME },
+    ]);
+  }
+
+  const server = LIVE ? null : await startFixtureServer(FIXTURES_DIR);
+  const baseUrl = server
+    ? `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    : BRREG_BASE_URL;
+  console.log(`[Brreg] Enriching from ${baseUrl}...`);
+
+  const fetcher = createBrregFetcher(baseUrl);
+  // The checks expect the seeded companies and the recorded responses
+  const check = seeded && !LIVE;
+  try {
+    const result = await enrichCompaniesFromBrreg({
+      limit: 20,
+      delayMs: LIVE ? 100 : 0,
+      fetcher,
+    });
+    console.log("[Brreg] Result:", result);
+    if (check) {
+      assert.deepEqual(result, {
+        checked: 4,
+        enriched: 2,
+        not_found: 1,
+        duplicates: 1,
+        failed: 1,
+      });
+      await checkEnrichedCompanies();
+      await checkFailingCompany(fetcher);
+      console.log("[Brreg] All checks passed");
+    }
+  } finally {
+    server?.close();
+  }
+
+  if (getRepository().backend === "memory") {
+    const companies = await getRepository().select("companies", {
+      columns: ["name", "orgnr", "industry", "company_size", "location", "sector"],
+    });
+    console.log("\n=== Companies ===");
+    console.table(companies);
+    const reviews = await getRepository().select("match_reviews", {
+      columns: ["entity_type", "confidence", "details", "status"],
+    });
+    console.log("=== Match reviews ===");
+    console.table(reviews);
+  }
+}
+
+const companyNamed = async (name: string): Promise<Row> => {
+  const [company] = await getRepository().select("companies", {
+    filters: [eq("name", name)],
+  });
+  return company;
+};
+
+async function checkEnrichedCompanies() {
+  // Existing values are kept (the orgnr stays as entered)
+  const sykehus = await companyNamed("Sykehuset Innlandet HF");
+  assert.equal(sykehus.orgnr, "983 971 709");
+  assert.equal(sykehus.industry, "Alminnelige somatiske sykehus");
+  assert.equal(sykehus.company_size, "10132");
+  assert.equal(sykehus.location, "Furnesvegen 26, 2382 Brumunddal");
+  assert.equal(sykehus.sector, "Offentlig");
+  assert.ok(sykehus.brreg_checked_at);
+
+  const equinor = await companyNamed("Equinor");
+  assert.equal(equinor.orgnr, "923609016");
+  assert.equal(equinor.industry, "Utvinning av råolje");
+  assert.equal(equinor.company_size, "21126");
+  assert.equal(equinor.location, "Forusbeen 50, 4035 Stavanger");
+  assert.equal(equinor.sector, "Privat");
+
+  // The orgnr found by name belongs to Equinor Energy: queued, not copied
+  const duplicate = await companyNamed("Equinor Energy AS");
+  assert.equal(duplicate.orgnr ?? null, null);
+  assert.ok(duplicate.brreg_checked_at);
+  const reviews = await getRepository().select("match_reviews", {});
+  assert.equal(reviews.length, 1);
+  assert.deepEqual(reviews[0].details, {
+    method: "brreg_orgnr",
+    orgnr: "990888213",
+  });
+
+  // No match is still a finished lookup
+  const unknown = await companyNamed("Ukjent Firma AS");
+  assert.equal(unknown.orgnr ?? null, null);
+  assert.ok(unknown.brreg_checked_at);
+}
+
+async function checkFailingCompany(fetcher: BrregFetcher) {
+  console.log("[Brreg] Company whose lookups keep failing...");
+  let failing = await companyNamed(FAILING_NAME);
+  assert.equal(failing.brreg_attempts, 1);
+  assert.ok(failing.brreg_last_attempt_at);
+  assert.equal(failing.brreg_checked_at ?? null, null);
+
+  // A company added since is looked up before the retry
+  await getRepository().insert("companies", [
+    { company_key: "nytt-firma", name: "Nytt Firma AS" },
+  ]);
+  const fresh = await enrichCompaniesFromBrreg({
+    limit: 1,
+    delayMs: 0,
+    fetcher,
+  });
+  assert.deepEqual(fresh, {
+    checked: 1,
+    enriched: 0,
+    not_found: 1,
+    duplicates: 0,
+    failed: 0,
+  });
+  assert.ok((await companyNamed("Nytt Firma AS")).brreg_checked_at);
+
+  for (let attempt = 2; attempt <= BRREG_MAX_ATTEMPTS; attempt++) {
+    const run = await enrichCompaniesFromBrreg({
+      limit: 20,
+      delayMs: 0,
+      fetcher,
+    });
+    assert.equal(run.failed, 1);
+    failing = await companyNamed(FAILING_NAME);
+    assert.equal(failing.brreg_attempts, attempt);
+    assert.equal(
+      Boolean(failing.brreg_checked_at),
+      attempt === BRREG_MAX_ATTEMPTS
+    );
+  }
+
+  // Given up: nothing left to look up
+  const done = await enrichCompaniesFromBrreg({
+    limit: 20,
+    delayMs: 0,
+    fetcher,
+  });
+  assert.equal(done.checked + done.failed, 0);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,157 @@
+import "dotenv/config";
+import assert from "node:assert/strict";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  getRepository,
+  setRepository,
+  MemoryRepository,
+  eq,
+} from "../src/lib/repository";
+import type { ClayJobPostPayload } from "../src/lib/clay";
+import type { ClayOutboxEntry } from "../src/lib/clay-outbox";
+
+// Runs the Clay outbox against a local mock webhook with an in-memory store:
+// a payload queued while its pending entry is unclaimed replaces it, and one
+// queued while a run is sending the entry gets an entry of its own that is
+// still pending after the run marks the first one delivered.
+
+/**
+ * Mock Clay webhook. Records every payload; `onRequest` runs before the
+ * response is sent, while the delivering run holds its claim.
+ */
+function startMockClay() {
+  const received: ClayJobPostPayload[] = [];
+  let onRequest: (() => Promise<void>) | null = null;
+
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", async () => {
+      received.push(JSON.parse(raw));
+      const hook = onRequest;
+      onRequest = null;
+      if (hook) await hook();
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end("{}");
+    });
+  });
+
+  return {
+    server,
+    received,
+    setOnRequest: (hook: () => Promise<void>) => (onRequest = hook),
+    listen: () =>
+      new Promise<string>((resolve) =>
+        server.listen(0, () =>
+          resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+        )
+      ),
+  };
+}
+
+function payload(title: string): ClayJobPostPayload {
+  return {
+    job_post: {
+      finn_id: "400000001",
+      board: "finn",
+      external_id: "400000001",
+      job_key: "finn:400000001",
+      finn_url: "https://www.finn.no/job/ad/400000001",
+      title,
+      description: null,
+      location: "Oslo",
+      employment_type: null,
+      salary: null,
+      publication_date: "2026-10-01",
+      expiration_date: null,
+      application_url: null,
+      sector: null,
+      industries: null,
+      source: "test",
+      vacancy_id: null,
+      posting_urls: ["https://www.finn.no/job/ad/400000001"],
+    },
+    company: {
+      name: "Testbedrift AS",
+      domain: "testbedrift.no",
+      clean_domain: "testbedrift.no",
+      orgnr: null,
+      proff_url: null,
+      industry: null,
+      company_size: null,
+      location: "Oslo",
+      sector: null,
+      profit_before_tax: null,
+      turnover: null,
+    },
+    decision_makers: [],
+    contact_persons: [],
+    decision_makers_formatted: null,
+    contact_persons_formatted: null,
+  };
+}
+
+async function main() {
+  const mock = startMockClay();
+  // clay.ts reads the webhook URL when it is first imported
+  process.env.CLAY_WEBHOOK_URL = await mock.listen();
+  const { enqueueClayDelivery, deliverClayOutbox } = await import(
+    "../src/lib/clay-outbox"
+  );
+  setRepository(new MemoryRepository());
+  const outbox = () =>
+    getRepository().select<ClayOutboxEntry>("clay_outbox", {
+      orderBy: [{ column: "created_at" }],
+    });
+
+  try {
+    console.log("[Clay] Enqueue twice (the pending entry is replaced)...");
+    const first = await enqueueClayDelivery(payload("Utvikler"), "post-1");
+    const replaced = await enqueueClayDelivery(payload("Utvikler v2"), "post-1");
+    assert.equal(replaced.id, first.id);
+    assert.equal((await outbox()).length, 1);
+    assert.equal((await outbox())[0].payload.job_post.title, "Utvikler v2");
+
+    console.log("[Clay] Enqueue while a run sends (a new entry is queued)...");
+    const queued: ClayOutboxEntry[] = [];
+    mock.setOnRequest(async () => {
+      queued.push(await enqueueClayDelivery(payload("Utvikler v3"), "post-1"));
+    });
+    const run = await deliverClayOutbox({ delayMs: 0 });
+    assert.equal(run.delivered, 1);
+    assert.equal(mock.received.length, 1);
+    assert.equal(mock.received[0].job_post.title, "Utvikler v2");
+    assert.equal(queued.length, 1);
+    assert.notEqual(queued[0].id, first.id);
+
+    const [delivered] = await getRepository().select<ClayOutboxEntry>(
+      "clay_outbox",
+      { filters: [eq("id", first.id)] }
+    );
+    assert.equal(delivered.status, "delivered");
+    assert.equal(delivered.payload.job_post.title, "Utvikler v2");
+    const [pending] = await getRepository().select<ClayOutboxEntry>(
+      "clay_outbox",
+      { filters: [eq("id", queued[0].id)] }
+    );
+    assert.equal(pending.status, "pending");
+    assert.equal(pending.payload.job_post.title, "Utvikler v3");
+
+    console.log("[Clay] Next run (sends the newer payload)...");
+    const next = await deliverClayOutbox({ delayMs: 0 });
+    assert.equal(next.delivered, 1);
+    assert.equal(mock.received.length, 2);
+    assert.equal(mock.received[1].job_post.title, "Utvikler v3");
+    assert.ok((await outbox()).every((entry) => entry.status === "delivered"));
+
+    console.log("[Clay] All checks passed");
+  } finally {
+    mock.server.close();
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,63 @@
+import "dotenv/config";
+import assert from "node:assert/strict";
+import {
+  setRepository,
+  getRepository,
+  MemoryRepository,
+} from "../src/lib/repository";
+import { normalizeCompanyNameForMatching } from "../src/lib/normalize";
+import {
+  COMPANY_MATCH_CONFIG,
+  findFuzzyCompanyMatch,
+} from "../src/lib/company-matching";
+
+// Runs the fuzzy company match against an in-memory store holding more
+// companies on one clean_name prefix than fit in a candidate page. The real
+// match has the highest id (it is read last) and must still be found.
+
+const FILLERS = COMPANY_MATCH_CONFIG.candidatePageSize + 100;
+
+function company(id: string, name: string) {
+  return {
+    id,
+    company_key: name.toLowerCase().replace(/\s+/g, "-"),
+    name,
+    clean_name: normalizeCompanyNameForMatching(name),
+    location: "Oslo",
+  };
+}
+
+async function main() {
+  setRepository(new MemoryRepository());
+  const fillers = Array.from({ length: FILLERS }, (_, i) => {
+    const n = String(i).padStart(12, "0");
+    return company(`00000000-0000-4000-8000-${n}`, `Nordic Widget ${i}`);
+  });
+  await getRepository().insert("companies", [
+    ...fillers,
+    company("ffffffff-ffff-4fff-bfff-ffffffffffff", "Norsk Hydro ASA"),
+  ]);
+
+  console.log(`[Matching] ${FILLERS + 1} companies on the "nor" prefix...`);
+  const match = await findFuzzyCompanyMatch({
+    name: "Norsk Hydroo",
+    location: "Oslo",
+  });
+  console.log("[Matching] Result:", match);
+  assert.ok(match);
+  assert.equal(match.id, "ffffffff-ffff-4fff-bfff-ffffffffffff");
+  assert.equal(match.name, "Norsk Hydro ASA");
+
+  console.log("[Matching] A name no company is close to...");
+  assert.equal(
+    await findFuzzyCompanyMatch({ name: "Norrøna Sport", location: "Oslo" }),
+    null
+  );
+
+  console.log("[Matching] All checks passed");
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
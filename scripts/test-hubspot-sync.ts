@@ -0,0 +1,233 @@
+import "dotenv/config";
+import assert from "node:assert/strict";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  getRepository,
+  setRepository,
+  MemoryRepository,
+  eq,
+} from "../src/lib/repository";
+import { createHubSpotFetcher } from "../src/lib/hubspot";
+import {
+  syncChangesToCrm,
+  getCrmSyncState,
+  CRM_MAX_ATTEMPTS,
+} from "../src/lib/crm-sync";
+
+// Runs the HubSpot sync against a local mock of the CRM objects API with an
+// in-memory store: a first sync (one company is rejected), a second one that
+// retries it without resending unchanged records, and one after a person
+// changed. Then a company HubSpot keeps rejecting is retried up to
+// CRM_MAX_ATTEMPTS times, and companies sharing an updated_at are all read
+// one per run. The mock already knows one company (by domain) and one contact
+// (by email), which must be updated rather than duplicated.
+
+type MockObject = { id: string; properties: Record<string, string> };
+
+const ACCESS_TOKEN = "test-token";
+
+/**
+ * Mock HubSpot: search / create / update for companies and contacts, and
+ * default contact-company associations. Answers 401 without the token and
+ * 400 when a company has no name property, like a missing required property.
+ */
+function startMockHubSpot() {
+  const objects: Record<string, MockObject[]> = { companies: [], contacts: [] };
+  const associations = new Set<string>();
+  const requests: string[] = [];
+  let nextId = 1000;
+
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const body = raw ? JSON.parse(raw) : {};
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const send = (status: number, data: unknown) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(data));
+      };
+      requests.push(`${req.method} ${url.pathname}`);
+      if (req.headers.authorization !== `Bearer ${ACCESS_TOKEN}`) {
+        return send(401, { status: "error", message: "Authentication credentials not found" });
+      }
+
+      let match: RegExpMatchArray | null;
+      if (
+        req.method === "PUT" &&
+        (match = url.pathname.match(
+          /^\/crm\/v4\/objects\/contacts\/(\d+)\/associations\/default\/companies\/(\d+)$/
+        ))
+      ) {
+        const [, contactId, companyId] = match;
+        const exists = (type: string, id: string) =>
+          objects[type].some((o) => o.id === id);
+        if (!exists("contacts", contactId) || !exists("companies", companyId)) {
+          return send(404, { status: "error", message: "Object not found" });
+        }
+        associations.add(`${contactId}->${companyId}`);
+        return send(200, { status: "COMPLETE", results: [] });
+      }
+
+      match = url.pathname.match(/^\/crm\/v3\/objects\/(companies|contacts)(?:\/(search|\d+))?$/);
+      if (!match) return send(404, { status: "error", message: "Not found" });
+      const [, type, rest] = match;
+      const list = objects[type];
+
+      if (req.method === "POST" && rest === "search") {
+        const filter = body.filterGroups[0].filters[0];
+        const found = list.filter(
+          (o) =>
+            o.properties[filter.propertyName]?.toLowerCase() ===
+            String(filter.value).toLowerCase()
+        );
+        return send(200, { total: found.length, results: found.slice(0, body.limit) });
+      }
+      if (req.method === "POST" && !rest) {
+        if (type === "companies" && !body.properties.name) {
+          return send(400, { status: "error", message: "Property values were not valid: name" });
+        }
+        const object = { id: String(nextId++), properties: body.properties };
+        list.push(object);
+        return send(201, object);
+      }
+      if (req.method === "PATCH" && rest) {
+        const object = list.find((o) => o.id === rest);
+        if (!object) return send(404, { status: "error", message: "Object not found" });
+        Object.assign(object.properties, body.properties);
+        return send(200, object);
+      }
+      send(405, { status: "error", message: "Method not allowed" });
+    });
+  });
+
+  return new Promise<{
+    server: http.Server;
+    objects: typeof objects;
+    associations: typeof associations;
+    requests: typeof requests;
+  }>((resolve) =>
+    server.listen(0, "127.0.0.1", () =>
+      resolve({ server, objects, associations, requests })
+    )
+  );
+}
+
+async function main() {
+  setRepository(new MemoryRepository());
+  const repo = getRepository();
+  const [equinor, kongsberg, unnamed] = await repo.insert("companies", [
+    // Known in HubSpot by domain
+    { company_key: "equinor.com", name: "Equinor", clean_domain: "equinor.com", orgnr: "923609016" },
+    // New
+    { company_key: "kongsberg.com", name: "Kongsberg Gruppen", clean_domain: "kongsberg.com", company_size: "12000" },
+    // Rejected by HubSpot (no name)
+    { company_key: "no-name" },
+  ]);
+  const [kari, ola, nils] = await repo.insert("people", [
+    // Known in HubSpot by email; works for two companies
+    { person_key: "kari", full_name: "Kari Nordmann", email: "kari@equinor.com", title: "CTO" },
+    { person_key: "ola", full_name: "Ola Hansen", email: "ola@kongsberg.com", title: "HR-sjef" },
+    // No email: not synced
+    { person_key: "nils", full_name: "Nils" },
+  ]);
+  await repo.insert("company_people", [
+    { company_id: equinor.id, person_id: kari.id, role: "decision_maker" },
+    { company_id: kongsberg.id, person_id: kari.id, role: "contact_person" },
+    { company_id: kongsberg.id, person_id: ola.id, role: "recruiter" },
+    { company_id: kongsberg.id, person_id: nils.id, role: "other" },
+    { company_id: unnamed.id, person_id: ola.id, role: "other" },
+  ]);
+
+  const mock = await startMockHubSpot();
+  mock.objects.companies.push({ id: "1", properties: { name: "Equinor ASA", domain: "equinor.com" } });
+  mock.objects.contacts.push({ id: "2", properties: { email: "kari@equinor.com", lifecyclestage: "lead" } });
+  const fetcher = createHubSpotFetcher({
+    baseUrl: `http://127.0.0.1:${(mock.server.address() as AddressInfo).port}`,
+    accessToken: ACCESS_TOKEN,
+  });
+
+  try {
+    console.log("[HubSpot] First sync...");
+    const first = await syncChangesToCrm({ fetcher });
+    console.log("[HubSpot] Result:", first);
+    assert.deepEqual(first.companies, { created: 1, updated: 1, unchanged: 0, skipped: 0, failed: 1 });
+    assert.deepEqual(first.contacts, { created: 1, updated: 1, unchanged: 0, skipped: 1, failed: 0 });
+    assert.equal(mock.objects.companies.length, 2);
+    assert.equal(mock.objects.contacts.length, 2);
+    assert.equal(mock.objects.companies[0].properties.name, "Equinor");
+    assert.equal(mock.objects.contacts[0].properties.lifecyclestage, "lead");
+    assert.equal(mock.objects.contacts[0].properties.jobtitle, "CTO");
+    assert.deepEqual([...mock.associations].sort(), ["1001->1000", "2->1", "2->1000"]);
+
+    console.log("[HubSpot] Second sync (the nameless company got a name)...");
+    const requestCount = mock.requests.length;
+    await repo.update("companies", [eq("id", unnamed.id)], { name: "Navnløs AS" });
+    const second = await syncChangesToCrm({ fetcher });
+    console.log("[HubSpot] Result:", second);
+    // Only the previously failed company (now with a name) goes out
+    assert.equal(second.retried, 1);
+    assert.equal(second.companies.created, 1);
+    assert.equal(second.companies.failed, 0);
+    assert.ok(
+      mock.requests.slice(requestCount).every((r) => !r.includes("/contacts/2") && !r.endsWith("/companies/1")),
+      "unchanged records must not be sent again"
+    );
+
+    console.log("[HubSpot] Third sync (Ola changed title)...");
+    await repo.update("people", [eq("id", ola.id)], { title: "HR-direktør" });
+    const third = await syncChangesToCrm({ fetcher });
+    console.log("[HubSpot] Result:", third);
+    assert.equal(third.contacts.updated, 1);
+    assert.equal(mock.objects.contacts[1].properties.jobtitle, "HR-direktør");
+    assert.ok(mock.associations.has(`1001->1002`));
+
+    console.log("[HubSpot] Syncs with a company HubSpot keeps rejecting...");
+    const [rejected] = await repo.insert("companies", [{ company_key: "rejected" }]);
+    const retried: number[] = [];
+    for (let run = 0; run <= CRM_MAX_ATTEMPTS; run++) {
+      retried.push((await syncChangesToCrm({ fetcher })).retried);
+    }
+    // Failed once as a change, then retried until the cap
+    assert.deepEqual(
+      retried,
+      Array.from({ length: CRM_MAX_ATTEMPTS + 1 }, (_, run) =>
+        run === 0 || run === CRM_MAX_ATTEMPTS ? 0 : 1
+      )
+    );
+    assert.equal((await getCrmSyncState("company", rejected.id))?.attempts, CRM_MAX_ATTEMPTS);
+
+    console.log("[HubSpot] Companies sharing an updated_at, one per sync...");
+    const updatedAt = new Date(Date.now() + 60_000).toISOString();
+    const tied = await repo.insert(
+      "companies",
+      ["a", "b", "c"].map((key) => ({ company_key: `tied-${key}`, name: `Tied ${key}`, updated_at: updatedAt }))
+    );
+    for (const _ of tied) await syncChangesToCrm({ fetcher, limit: 1 });
+    for (const company of tied) {
+      assert.equal((await getCrmSyncState("company", company.id))?.status, "synced");
+    }
+  } finally {
+    mock.server.close();
+  }
+
+  console.log("\n=== HubSpot companies ===");
+  console.table(mock.objects.companies.map((o) => ({ id: o.id, ...o.properties })));
+  console.log("=== HubSpot contacts ===");
+  console.table(mock.objects.contacts.map((o) => ({ id: o.id, ...o.properties })));
+  console.log("=== Associations ===");
+  console.log([...mock.associations].join("\n"));
+  console.log("=== Sync state ===");
+  console.table(
+    await repo.select("crm_sync_state", {
+      columns: ["entity_type", "entity_id", "external_id", "status", "last_error"],
+    })
+  );
+  console.log("[HubSpot] All checks passed");
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
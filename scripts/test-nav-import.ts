@@ -0,0 +1,66 @@
+import "dotenv/config";
+import path from "node:path";
+import {
+  getRepository,
+  setRepository,
+  MemoryRepository,
+} from "../src/lib/repository";
+import { getIngestSource } from "../src/lib/sources";
+import {
+  importNavFeed,
+  createFixtureNavFetcher,
+  createNavFeedFetcher,
+} from "../src/lib/nav";
+
+// Config
+// NAV_FIXTURES_DIR: recorded feed responses (default data/fixtures/nav); set NAV_LIVE=1 to read the real feed
+// Without DB_BACKEND the import runs against an in-memory store.
+const FIXTURES_DIR =
+  process.env.NAV_FIXTURES_DIR ??
+  path.join(process.cwd(), "data", "fixtures", "nav");
+const LIVE = process.env.NAV_LIVE === "1";
+
+async function main() {
+  if (!process.env.DB_BACKEND) {
+    setRepository(new MemoryRepository());
+    await getRepository().insert("ingest_sources", [
+      { name: "nav", kind: "nav", defaults: {}, enabled: true },
+    ]);
+  }
+
+  const source = await getIngestSource("nav");
+  if (!source) throw new Error('No "nav" ingest source registered');
+
+  const fetcher = LIVE
+    ? createNavFeedFetcher()
+    : createFixtureNavFetcher(FIXTURES_DIR);
+  console.log(
+    `[NAV] Importing from ${LIVE ? "live feed" : FIXTURES_DIR}...`
+  );
+
+  const result = await importNavFeed({ source, fetcher, maxPages: 5 });
+  console.log("[NAV] Result:", result);
+
+  if (getRepository().backend === "memory") {
+    const companies = await getRepository().select("companies", {
+      columns: ["company_key", "name", "orgnr", "clean_domain", "sector"],
+    });
+    const jobPosts = await getRepository().select("job_posts", {
+      columns: ["board", "external_id", "title", "location", "employment_type", "source"],
+    });
+    const people = await getRepository().select("people", {
+      columns: ["person_key", "full_name", "title", "email", "phone"],
+    });
+    console.log("\n=== Companies ===");
+    console.table(companies);
+    console.log("=== Job posts ===");
+    console.table(jobPosts);
+    console.log("=== People ===");
+    console.table(people);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
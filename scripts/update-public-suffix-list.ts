@@ -0,0 +1,60 @@
+import fs from "node:fs";
+import path from "node:path";
+import { domainToASCII } from "node:url";
+
+// Regenerates src/lib/public-suffix-list.ts from the Public Suffix List.
+// Source: a local file path as the first argument, otherwise downloaded from
+// publicsuffix.org.
+const SOURCE_URL = "https://publicsuffix.org/list/public_suffix_list.dat";
+const OUTPUT = path.join(process.cwd(), "src", "lib", "public-suffix-list.ts");
+
+async function readList(source?: string): Promise<string> {
+  if (source) return fs.readFileSync(source, "utf8");
+  const response = await fetch(SOURCE_URL);
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
+
+/**
+ * Rule in the ASCII (punycode) form URL hostnames use, keeping the
+ * "*." / "!" markers
+ */
+function toAsciiRule(rule: string): string | null {
+  const marker = rule.match(/^(!|\*\.)?/)?.[0] ?? "";
+  const ascii = domainToASCII(rule.slice(marker.length));
+  return ascii ? `${marker}${ascii}` : null;
+}
+
+async function main() {
+  const source = process.argv[2];
+  const list = await readList(source);
+
+  const rules = new Set<string>();
+  for (const line of list.split("\n")) {
+    // Rules end at the first whitespace; comments start with "//"
+    const rule = line.trim().split(/\s/)[0];
+    if (!rule || rule.startsWith("//")) continue;
+    const ascii = toAsciiRule(rule.toLowerCase());
+    if (ascii) rules.add(ascii);
+  }
+
+  const output = [
+    "// Generated by scripts/update-public-suffix-list.ts - do not edit.",
+    `// Source: ${SOURCE_URL} (Mozilla Public License 2.0)`,
+    `// Rules: ${rules.size}, punycode, one per line`,
+    "",
+    "export const PUBLIC_SUFFIX_RULES = `",
+    ...rules,
+    "`;",
+    "",
+  ].join("\n");
+  fs.writeFileSync(OUTPUT, output);
+  console.log(`Wrote ${rules.size} rules to ${path.relative(process.cwd(), OUTPUT)}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
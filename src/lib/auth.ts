@@ -0,0 +1,209 @@
+/**
+ * Request authentication for webhook-style routes (/ingest/*, /import/*, /cron/*).
+ *
+ * Callers authenticate with an HMAC signature of the raw request body:
+ *   x-signature-timestamp: <unix seconds>
+ *   x-signature: sha256=<hex HMAC-SHA256(secret, "<timestamp>.<raw body>")>
+ * Signed requests outside the timestamp tolerance, or replaying a signature
+ * already accepted, are rejected. Existing integrations may keep sending the
+ * shared secret itself (x-<name>-secret header or Authorization: Bearer).
+ * All secret comparisons are constant-time. Scopes registered with `required`
+ * answer 503 while their secret is not configured; the others stay open.
+ */
+
+import crypto from "node:crypto";
+import fp from "fastify-plugin";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    // Unparsed JSON body, kept for signature verification
+    rawBody?: string;
+  }
+}
+
+export const SIGNATURE_HEADER = "x-signature";
+export const TIMESTAMP_HEADER = "x-signature-timestamp";
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+type Headers = Record<string, string | string[] | undefined>;
+type MaybeSecret = string | null | undefined;
+
+export type RequestAuthOptions = {
+  // Secrets accepted for the request (e.g. the source's own secret).
+  // When none are configured the route stays open, unless `required`.
+  resolveSecrets: (
+    request: FastifyRequest
+  ) => MaybeSecret[] | Promise<MaybeSecret[]>;
+  // Header carrying the plain shared secret, besides Authorization: Bearer
+  secretHeader?: string;
+  // Accept the plain shared secret without a signature (default true)
+  allowSharedSecret?: boolean;
+  // Max clock skew for signed requests (default 300s)
+  toleranceSeconds?: number;
+  // Refuse every request (503) while no secret is configured
+  required?: boolean;
+};
+
+export type AuthResult =
+  | { ok: true; method: "signature" | "shared_secret" | "none" }
+  | { ok: false; reason: string };
+
+/**
+ * Constant-time string comparison (hashing first so lengths don't leak)
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const digestA = crypto.createHash("sha256").update(a).digest();
+  const digestB = crypto.createHash("sha256").update(b).digest();
+  return crypto.timingSafeEqual(digestA, digestB);
+}
+
+export function signRequestBody(
+  secret: string,
+  timestamp: string | number,
+  body: string
+): string {
+  const hmac = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${hmac}`;
+}
+
+/**
+ * Headers for a signed request (for clients and scripts calling the API)
+ */
+export function buildSignatureHeaders(
+  secret: string,
+  body: string,
+  now: number = Date.now()
+): Record<string, string> {
+  const timestamp = Math.floor(now / 1000).toString();
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [SIGNATURE_HEADER]: signRequestBody(secret, timestamp, body),
+  };
+}
+
+// Signatures accepted within the tolerance window, by expiry time.
+// Replay protection is per process; the timestamp tolerance bounds the rest.
+const acceptedSignatures = new Map<string, number>();
+
+function isReplay(signature: string, expiresAt: number, now: number) {
+  for (const [seen, expiry] of acceptedSignatures) {
+    if (expiry < now) acceptedSignatures.delete(seen);
+  }
+  if (acceptedSignatures.has(signature)) return true;
+  acceptedSignatures.set(signature, expiresAt);
+  return false;
+}
+
+const headerValue = (headers: Headers, name: string) => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+export function verifyRequestAuth(params: {
+  secrets: MaybeSecret[];
+  headers: Headers;
+  rawBody?: string;
+  secretHeader?: string;
+  allowSharedSecret?: boolean;
+  toleranceSeconds?: number;
+  now?: number;
+}): AuthResult {
+  const {
+    headers,
+    rawBody = "",
+    secretHeader,
+    allowSharedSecret = true,
+    toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+    now = Date.now(),
+  } = params;
+  const secrets = params.secrets.filter((s): s is string => Boolean(s));
+  if (secrets.length === 0) return { ok: true, method: "none" };
+
+  const signature = headerValue(headers, SIGNATURE_HEADER);
+  if (signature) {
+    const timestamp = headerValue(headers, TIMESTAMP_HEADER);
+    if (!timestamp || !/^\d+$/.test(timestamp)) {
+      return { ok: false, reason: "Missing or invalid signature timestamp" };
+    }
+    const skewSeconds = Math.abs(now / 1000 - Number(timestamp));
+    if (skewSeconds > toleranceSeconds) {
+      return { ok: false, reason: "Signature timestamp outside tolerance" };
+    }
+    const valid = secrets.some((secret) =>
+      safeCompare(signRequestBody(secret, timestamp, rawBody), signature)
+    );
+    if (!valid) return { ok: false, reason: "Invalid signature" };
+    if (isReplay(signature, now + toleranceSeconds * 1000, now)) {
+      return { ok: false, reason: "Signature already used" };
+    }
+    return { ok: true, method: "signature" };
+  }
+
+  if (allowSharedSecret) {
+    const provided =
+      (secretHeader && headerValue(headers, secretHeader)) ||
+      headerValue(headers, "authorization")?.replace(/^Bearer\s+/i, "");
+    if (provided && secrets.some((secret) => safeCompare(secret, provided))) {
+      return { ok: true, method: "shared_secret" };
+    }
+  }
+
+  return { ok: false, reason: "Invalid or missing authentication" };
+}
+
+/**
+ * Fastify plugin: authenticates every route of the scope it is registered in.
+ * Also keeps the raw JSON body on request.rawBody for signature checks.
+ */
+async function requestAuthPlugin(
+  app: FastifyInstance,
+  options: RequestAuthOptions
+) {
+  app.removeContentTypeParser("application/json");
+  app.addContentTypeParser(
+    "application/json",
+    { parseAs: "string" },
+    (request, body, done) => {
+      request.rawBody = body as string;
+      if (!body) return done(null, undefined);
+      try {
+        done(null, JSON.parse(body as string));
+      } catch (err: any) {
+        err.statusCode = 400;
+        done(err, undefined);
+      }
+    }
+  );
+
+  app.addHook("preHandler", async (request, reply) => {
+    const secrets = await options.resolveSecrets(request);
+    if (options.required && !secrets.some(Boolean)) {
+      request.log.error("No secret configured for an authenticated route");
+      return reply.status(503).send({
+        error: "Service Unavailable",
+        message: "Authentication is not configured",
+      });
+    }
+    const result = verifyRequestAuth({
+      secrets,
+      headers: request.headers,
+      rawBody: request.rawBody,
+      secretHeader: options.secretHeader,
+      allowSharedSecret: options.allowSharedSecret,
+      toleranceSeconds: options.toleranceSeconds,
+    });
+    if (!result.ok) {
+      request.log.warn({ reason: result.reason }, "Unauthorized request");
+      return reply.status(401).send({
+        error: "Unauthorized",
+        message: result.reason,
+      });
+    }
+  });
+}
+
+export const requestAuth = fp(requestAuthPlugin);
@@ -0,0 +1,411 @@
+/**
+ * Brønnøysund Register Centre (Enhetsregisteret) company enrichment.
+ *
+ * Looks companies up in the open Enhetsregisteret JSON API - by orgnr when we
+ * have one, otherwise by name search (best candidate scored like fuzzy company
+ * matching, with the registered homepage as a strong hint) - and fills orgnr,
+ * industry (NACE description), company_size (employees), location (business
+ * address) and sector through updateCompanyEnrichment, so existing values are
+ * never overwritten.
+ */
+
+import { z } from "zod";
+import { getRepository, eq, isNull, notNull, Row } from "./repository";
+import { updateCompanyEnrichment } from "./db";
+import {
+  normalizeCompanyDomain,
+  normalizeDomainHost,
+  normalizeOrgnr,
+} from "./normalize";
+import {
+  COMPANY_MATCH_CONFIG,
+  scoreCompanyMatch,
+  sharesDistinguishingToken,
+} from "./company-matching";
+import { isDistinctPair, queueMatchReview } from "./match-reviews";
+
+export const BRREG_BASE_URL =
+  process.env.BRREG_BASE_URL ?? "https://data.brreg.no/enhetsregisteret/api";
+
+// ============================================================
+// API schemas (only the fields we use)
+// ============================================================
+
+const nullableString = z.string().nullish();
+const codeSchema = z
+  .object({ kode: nullableString, beskrivelse: nullableString })
+  .nullish();
+
+const BrregAddressSchema = z
+  .object({
+    adresse: z.array(z.string()).nullish(),
+    postnummer: nullableString,
+    poststed: nullableString,
+    kommune: nullableString,
+    land: nullableString,
+  })
+  .nullish();
+
+export const BrregEnhetSchema = z.object({
+  organisasjonsnummer: z.string(),
+  navn: z.string(),
+  organisasjonsform: codeSchema,
+  hjemmeside: nullableString,
+  forretningsadresse: BrregAddressSchema,
+  postadresse: BrregAddressSchema,
+  naeringskode1: codeSchema,
+  antallAnsatte: z.number().nullish(),
+  harRegistrertAntallAnsatte: z.boolean().nullish(),
+  institusjonellSektorkode: codeSchema,
+  konkurs: z.boolean().nullish(),
+  underAvvikling: z.boolean().nullish(),
+  slettedato: nullableString,
+});
+
+export const BrregSearchSchema = z.object({
+  _embedded: z
+    .object({ enheter: z.array(BrregEnhetSchema).default([]) })
+    .nullish(),
+});
+
+export type BrregEnhet = z.infer<typeof BrregEnhetSchema>;
+
+export class BrregEnrichmentError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = statusCode === 404 ? "Not Found" : "Bad Request";
+  }
+}
+
+// ============================================================
+// Fetcher
+// ============================================================
+
+/** Fetches an API path (relative to the base URL); resolves null on 404 */
+export type BrregFetcher = (path: string) => Promise<unknown | null>;
+
+export function createBrregFetcher(
+  baseUrl: string = BRREG_BASE_URL
+): BrregFetcher {
+  return async (path) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}${path}`, {
+      headers: { Accept: "application/json" },
+    });
+    // Enhetsregisteret answers 410 for deleted units
+    if (response.status === 404 || response.status === 410) return null;
+    if (!response.ok) {
+      throw new Error(
+        `Brreg request failed: ${response.status} ${response.statusText}`
+      );
+    }
+    return response.json();
+  };
+}
+
+export async function fetchBrregEnhet(
+  orgnr: string,
+  fetcher: BrregFetcher = createBrregFetcher()
+): Promise<BrregEnhet | null> {
+  const data = await fetcher(`/enheter/${encodeURIComponent(orgnr)}`);
+  return data ? BrregEnhetSchema.parse(data) : null;
+}
+
+export async function searchBrregEnheter(
+  name: string,
+  fetcher: BrregFetcher = createBrregFetcher(),
+  size = 10
+): Promise<BrregEnhet[]> {
+  const query = new URLSearchParams({ navn: name, size: String(size) });
+  const data = await fetcher(`/enheter?${query}`);
+  if (!data) return [];
+  return BrregSearchSchema.parse(data)._embedded?.enheter ?? [];
+}
+
+// ============================================================
+// Mapping
+// ============================================================
+
+const titleCase = (value: string) =>
+  value.toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (m) => m.toUpperCase());
+
+// Institutional sector codes for public administration (3xxx legacy, 6xxx)
+const PUBLIC_SECTOR_CODE = /^[36]\d{3}$/;
+
+/**
+ * Map a unit to company fields, in the formats the CSV import and Clay use:
+ * industry = NACE description, company_size = employee count,
+ * location = "street, postcode city", sector = "Offentlig" / "Privat"
+ */
+export function mapBrregEnhet(enhet: BrregEnhet) {
+  const address = enhet.forretningsadresse ?? enhet.postadresse;
+  const city = address?.poststed ? titleCase(address.poststed) : null;
+  const location =
+    [
+      address?.adresse?.filter(Boolean).join(", "),
+      [address?.postnummer, city].filter(Boolean).join(" "),
+    ]
+      .filter(Boolean)
+      .join(", ") || null;
+
+  const sectorCode = enhet.institusjonellSektorkode?.kode;
+
+  return {
+    orgnr: normalizeOrgnr(enhet.organisasjonsnummer),
+    industry: enhet.naeringskode1?.beskrivelse ?? null,
+    nace_code: enhet.naeringskode1?.kode ?? null,
+    company_size:
+      enhet.harRegistrertAntallAnsatte !== false &&
+      typeof enhet.antallAnsatte === "number"
+        ? String(enhet.antallAnsatte)
+        : null,
+    location,
+    sector: sectorCode
+      ? PUBLIC_SECTOR_CODE.test(sectorCode)
+        ? "Offentlig"
+        : "Privat"
+      : null,
+  };
+}
+
+// ============================================================
+// Lookup + enrichment
+// ============================================================
+
+export type BrregMatch = {
+  enhet: BrregEnhet;
+  method: "orgnr" | "name";
+  confidence: number;
+};
+
+/**
+ * Find the unit for a company: direct lookup by orgnr, otherwise the best
+ * name search hit. A hit whose homepage equals the company's domain only needs
+ * the review threshold; other hits need the auto-merge threshold and a
+ * distinguishing name word in common (like fuzzy auto-merges).
+ */
+export async function findBrregEnhet(
+  company: {
+    orgnr?: string | null;
+    name?: string | null;
+    clean_domain?: string | null;
+    location?: string | null;
+  },
+  fetcher: BrregFetcher = createBrregFetcher()
+): Promise<BrregMatch | null> {
+  const orgnr = normalizeOrgnr(company.orgnr);
+  if (orgnr) {
+    const enhet = await fetchBrregEnhet(orgnr, fetcher);
+    return enhet ? { enhet, method: "orgnr", confidence: 1 } : null;
+  }
+  if (!company.name) return null;
+
+  const domain = normalizeCompanyDomain(company.clean_domain);
+  const candidates = (await searchBrregEnheter(company.name, fetcher))
+    .filter((enhet) => !enhet.slettedato)
+    .map((enhet) => {
+      const score = scoreCompanyMatch(company, {
+        name: enhet.navn,
+        location: enhet.forretningsadresse?.poststed,
+      });
+      const sameDomain =
+        Boolean(domain) && normalizeDomainHost(enhet.hjemmeside) === domain;
+      const threshold = sameDomain
+        ? COMPANY_MATCH_CONFIG.reviewThreshold
+        : COMPANY_MATCH_CONFIG.autoMergeThreshold;
+      const accepted =
+        score.confidence >= threshold &&
+        (sameDomain || sharesDistinguishingToken(company.name, enhet.navn));
+      return { enhet, confidence: score.confidence, sameDomain, accepted };
+    })
+    .filter((c) => c.accepted)
+    // Prefer homepage matches, then confidence, then units still in business
+    .sort(
+      (a, b) =>
+        Number(b.sameDomain) - Number(a.sameDomain) ||
+        b.confidence - a.confidence ||
+        Number(Boolean(a.enhet.konkurs)) - Number(Boolean(b.enhet.konkurs))
+    );
+
+  const best = candidates[0];
+  return best
+    ? { enhet: best.enhet, method: "name", confidence: best.confidence }
+    : null;
+}
+
+export type BrregEnrichmentResult = {
+  company_id: string;
+  status: "enriched" | "unchanged" | "not_found" | "duplicate";
+  orgnr: string | null;
+  nace_code?: string | null;
+  method: BrregMatch["method"] | null;
+  confidence: number | null;
+  fieldsUpdated: string[];
+  // Company that already has the found orgnr (queued for review)
+  duplicate_of?: string;
+};
+
+/**
+ * Enrich one company from Enhetsregisteret. When another company already has
+ * the orgnr found by name, the orgnr is not copied and the pair is queued for
+ * review instead (or the hit is dropped when reviewers marked the two
+ * companies distinct).
+ */
+export async function enrichCompanyFromBrreg(
+  companyId: string,
+  fetcher: BrregFetcher = createBrregFetcher()
+): Promise<BrregEnrichmentResult> {
+  const repo = getRepository();
+  const [company] = await repo.select("companies", {
+    filters: [eq("id", companyId)],
+    limit: 1,
+  });
+  if (!company) {
+    throw new BrregEnrichmentError(`Company not found: ${companyId}`, 404);
+  }
+
+  const match = await findBrregEnhet(company, fetcher);
+  await repo.update("companies", [eq("id", companyId)], {
+    brreg_checked_at: new Date().toISOString(),
+  });
+
+  const result: BrregEnrichmentResult = {
+    company_id: companyId,
+    status: "not_found",
+    orgnr: null,
+    method: match?.method ?? null,
+    confidence: match?.confidence ?? null,
+    fieldsUpdated: [],
+  };
+  if (!match) return result;
+
+  const { nace_code, ...fields } = mapBrregEnhet(match.enhet);
+  result.orgnr = fields.orgnr;
+  result.nace_code = nace_code;
+
+  if (match.method === "name" && fields.orgnr) {
+    const [owner] = await repo.select<Row>("companies", {
+      columns: ["id"],
+      filters: [eq("orgnr", fields.orgnr)],
+      limit: 1,
+    });
+    // Reviewers said the owner is another company: the name hit is not ours
+    if (owner && (await isDistinctPair("company", companyId, owner.id))) {
+      console.log(
+        `[Brreg] ${company.name} -> ${match.enhet.navn} (${fields.orgnr}) belongs to distinct company ${owner.id}`
+      );
+      return { ...result, status: "not_found", orgnr: null, nace_code: null };
+    }
+    if (owner && owner.id !== companyId) {
+      await queueMatchReview({
+        entity_type: "company",
+        entity_id: companyId,
+        candidate_id: owner.id,
+        confidence: match.confidence,
+        details: { method: "brreg_orgnr", orgnr: fields.orgnr },
+      });
+      return { ...result, status: "duplicate", duplicate_of: owner.id };
+    }
+  }
+
+  const { fieldsUpdated } = await updateCompanyEnrichment(companyId, fields, {
+    source: "brreg",
+  });
+  console.log(
+    `[Brreg] ${company.name} -> ${match.enhet.navn} (${fields.orgnr}, ${match.method}): ${fieldsUpdated.join(", ") || "no new fields"}`
+  );
+  return {
+    ...result,
+    status: fieldsUpdated.length > 0 ? "enriched" : "unchanged",
+    fieldsUpdated,
+  };
+}
+
+export type BrregBatchResult = {
+  checked: number;
+  enriched: number;
+  not_found: number;
+  duplicates: number;
+  failed: number;
+};
+
+// Failed lookups before a company is marked checked and left alone
+export const BRREG_MAX_ATTEMPTS = 5;
+
+/**
+ * Companies to look up: never attempted first (oldest first), then those
+ * whose lookups failed, least recently attempted first
+ */
+async function selectUncheckedCompanies(limit: number): Promise<Row[]> {
+  const repo = getRepository();
+  const columns = ["id", "brreg_attempts"];
+  const fresh = await repo.select("companies", {
+    columns,
+    filters: [isNull("brreg_checked_at"), isNull("brreg_last_attempt_at")],
+    orderBy: [{ column: "created_at", ascending: true }],
+    limit,
+  });
+  if (fresh.length >= limit) return fresh;
+  const retries = await repo.select("companies", {
+    columns,
+    filters: [isNull("brreg_checked_at"), notNull("brreg_last_attempt_at")],
+    orderBy: [
+      { column: "brreg_last_attempt_at", ascending: true },
+      { column: "id", ascending: true },
+    ],
+    limit: limit - fresh.length,
+  });
+  return [...fresh, ...retries];
+}
+
+/**
+ * Record a failed lookup. After BRREG_MAX_ATTEMPTS failures the company is
+ * marked checked, so it stops taking a place in every batch.
+ */
+async function recordFailedAttempt(company: Row) {
+  const attempts = (company.brreg_attempts ?? 0) + 1;
+  const now = new Date().toISOString();
+  await getRepository().update("companies", [eq("id", company.id)], {
+    brreg_attempts: attempts,
+    brreg_last_attempt_at: now,
+    ...(attempts >= BRREG_MAX_ATTEMPTS && { brreg_checked_at: now }),
+  });
+  return attempts;
+}
+
+/**
+ * Enrich companies not yet checked against Enhetsregisteret
+ */
+export async function enrichCompaniesFromBrreg(
+  params: { limit?: number; delayMs?: number; fetcher?: BrregFetcher } = {}
+): Promise<BrregBatchResult> {
+  const { limit = 50, delayMs = 100, fetcher = createBrregFetcher() } = params;
+  const companies = await selectUncheckedCompanies(limit);
+
+  const result: BrregBatchResult = {
+    checked: 0,
+    enriched: 0,
+    not_found: 0,
+    duplicates: 0,
+    failed: 0,
+  };
+  for (const [i, company] of companies.entries()) {
+    if (i > 0 && delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+    try {
+      const enrichment = await enrichCompanyFromBrreg(company.id, fetcher);
+      result.checked++;
+      if (enrichment.status === "enriched") result.enriched++;
+      if (enrichment.status === "not_found") result.not_found++;
+      if (enrichment.status === "duplicate") result.duplicates++;
+    } catch (err: any) {
+      result.failed++;
+      const attempts = await recordFailedAttempt(company);
+      console.error(
+        `[Brreg] Company ${company.id} failed (attempt ${attempts}/${BRREG_MAX_ATTEMPTS}):`,
+        err?.message
+      );
+    }
+  }
+  return result;
+}
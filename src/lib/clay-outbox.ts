@@ -0,0 +1,292 @@
+/**
+ * Durable outbox for Clay webhook deliveries.
+ *
+ * Payloads are persisted in leadgen.clay_outbox before they are sent, so a
+ * Clay outage delays leads instead of dropping them. Failed deliveries are
+ * retried with exponential backoff (honouring Retry-After on 429/503) and
+ * moved to the "dead" state after CLAY_OUTBOX_MAX_ATTEMPTS attempts, where
+ * they wait to be listed and re-driven via /admin/clay-outbox.
+ *
+ * An entry is claimed (claimed_until set with a compare-and-set update)
+ * before it is sent, so the ingest hand-off and the cron never send the same
+ * entry twice. A claim left by a crashed run expires after CLAIM_LEASE_MS.
+ */
+
+import { getRepository, eq, inList, isNull, lt, lte } from "./repository";
+import {
+  postToClayWebhook,
+  isClayWebhookEnabled,
+  ClayJobPostPayload,
+} from "./clay";
+
+export type ClayOutboxStatus = "pending" | "delivered" | "dead";
+
+export type ClayOutboxEntry = {
+  id: string;
+  job_post_id: string | null;
+  payload: ClayJobPostPayload;
+  status: ClayOutboxStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_status: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  // Set while a run is sending the entry
+  claimed_until: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ClayOutboxRunResult = {
+  attempted: number;
+  delivered: number;
+  retrying: number;
+  dead: number;
+  // Clay answered 429; remaining due entries are left for the next run
+  rate_limited: boolean;
+};
+
+export const CLAY_OUTBOX_MAX_ATTEMPTS = Number(
+  process.env.CLAY_OUTBOX_MAX_ATTEMPTS || 8
+);
+// /cron/clay-outbox runs every 5 minutes (vercel.json)
+const BASE_DELAY_MS = 5 * 60 * 1000;
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+
+/**
+ * Delay before the next attempt: 5m, 10m, 20m, 40m, ... capped at 6h.
+ * A Retry-After from Clay wins when it asks for longer.
+ */
+export function computeBackoffMs(
+  attempts: number,
+  retryAfterMs: number | null = null
+): number {
+  const backoff = Math.min(
+    MAX_DELAY_MS,
+    BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1)
+  );
+  return Math.max(backoff, retryAfterMs ?? 0);
+}
+
+/**
+ * Queue a payload for delivery. A still-pending delivery for the same job post
+ * is replaced, so Clay only receives the latest version. One a run has
+ * claimed is left alone (that run is sending the old payload and will mark it
+ * delivered); the new payload gets an entry of its own.
+ */
+export async function enqueueClayDelivery(
+  payload: ClayJobPostPayload,
+  jobPostId: string | null = null
+): Promise<ClayOutboxEntry> {
+  if (jobPostId) {
+    const pending = [eq("job_post_id", jobPostId), eq("status", "pending")];
+    const [unclaimed] = await getRepository().update<ClayOutboxEntry>(
+      "clay_outbox",
+      [...pending, isNull("claimed_until")],
+      { payload }
+    );
+    if (unclaimed) return unclaimed;
+    // A claim left by a crashed run
+    const [expired] = await getRepository().update<ClayOutboxEntry>(
+      "clay_outbox",
+      [...pending, lt("claimed_until", new Date().toISOString())],
+      { payload }
+    );
+    if (expired) return expired;
+  }
+
+  const [entry] = await getRepository().insert<ClayOutboxEntry>(
+    "clay_outbox",
+    [
+      {
+        job_post_id: jobPostId,
+        payload,
+        status: "pending",
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+      },
+    ]
+  );
+  return entry;
+}
+
+/**
+ * Mirror a delivery outcome on the job post's Clay sync state
+ * (ignored when a newer payload has been queued since)
+ */
+async function recordSyncState(
+  entry: ClayOutboxEntry,
+  status: "queued" | "delivered" | "failed"
+) {
+  if (!entry.job_post_id) return;
+  await getRepository().update(
+    "clay_sync_state",
+    [eq("job_post_id", entry.job_post_id), eq("last_outbox_id", entry.id)],
+    {
+      status,
+      ...(status === "delivered" && { last_sent_at: new Date().toISOString() }),
+    }
+  );
+}
+
+/**
+ * Claim a pending entry for this run. The update only matches while
+ * claimed_until still holds the value we read, so of two concurrent runs
+ * only one gets the entry back.
+ */
+async function claimEntry(
+  entry: ClayOutboxEntry
+): Promise<ClayOutboxEntry | null> {
+  const [claimed] = await getRepository().update<ClayOutboxEntry>(
+    "clay_outbox",
+    [
+      eq("id", entry.id),
+      eq("status", "pending"),
+      entry.claimed_until
+        ? eq("claimed_until", entry.claimed_until)
+        : isNull("claimed_until"),
+    ],
+    { claimed_until: new Date(Date.now() + CLAIM_LEASE_MS).toISOString() }
+  );
+  return claimed ?? null;
+}
+
+/**
+ * Attempt one delivery and record the outcome on the entry (releasing the
+ * claim)
+ */
+async function attemptDelivery(entry: ClayOutboxEntry) {
+  const result = await postToClayWebhook(entry.payload);
+  const attempts = entry.attempts + 1;
+  const now = Date.now();
+
+  if (result.ok) {
+    await getRepository().update("clay_outbox", [eq("id", entry.id)], {
+      status: "delivered",
+      attempts,
+      last_status: result.status,
+      last_error: null,
+      delivered_at: new Date(now).toISOString(),
+      claimed_until: null,
+    });
+    await recordSyncState(entry, "delivered");
+    return { status: "delivered" as const, result };
+  }
+
+  const dead = attempts >= CLAY_OUTBOX_MAX_ATTEMPTS;
+  await getRepository().update("clay_outbox", [eq("id", entry.id)], {
+    status: dead ? "dead" : "pending",
+    attempts,
+    last_status: result.status,
+    last_error: result.error,
+    next_attempt_at: new Date(
+      now + computeBackoffMs(attempts, result.retryAfterMs)
+    ).toISOString(),
+    claimed_until: null,
+  });
+  if (dead) await recordSyncState(entry, "failed");
+  console.error(
+    `[Clay] Delivery ${entry.id} failed (attempt ${attempts}/${CLAY_OUTBOX_MAX_ATTEMPTS}): ${result.error}`
+  );
+  return { status: dead ? ("dead" as const) : ("pending" as const), result };
+}
+
+/**
+ * Deliver due outbox entries (oldest first), skipping entries another run
+ * is sending.
+ * Pass `ids` to deliver specific entries regardless of their next_attempt_at.
+ */
+export async function deliverClayOutbox(
+  params: { limit?: number; delayMs?: number; ids?: string[] } = {}
+): Promise<ClayOutboxRunResult> {
+  const { limit = 50, delayMs = 100, ids } = params;
+  const run: ClayOutboxRunResult = {
+    attempted: 0,
+    delivered: 0,
+    retrying: 0,
+    dead: 0,
+    rate_limited: false,
+  };
+  if (!isClayWebhookEnabled() || ids?.length === 0) return run;
+
+  const now = new Date().toISOString();
+  const entries = (
+    await getRepository().select<ClayOutboxEntry>("clay_outbox", {
+      filters: [
+        eq("status", "pending"),
+        ids ? inList("id", ids) : lte("next_attempt_at", now),
+      ],
+      orderBy: [{ column: "next_attempt_at" }],
+      limit,
+    })
+  ).filter(
+    (entry) =>
+      !entry.claimed_until ||
+      Date.parse(entry.claimed_until) <= Date.parse(now)
+  );
+
+  for (const [index, candidate] of entries.entries()) {
+    const entry = await claimEntry(candidate);
+    if (!entry) continue;
+    run.attempted++;
+    const { status, result } = await attemptDelivery(entry);
+    if (status === "delivered") run.delivered++;
+    else if (status === "dead") run.dead++;
+    else run.retrying++;
+
+    if (result.status === 429) {
+      run.rate_limited = true;
+      break;
+    }
+
+    // Delay between requests to avoid rate limiting
+    if (delayMs > 0 && index < entries.length - 1) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
+  return run;
+}
+
+/**
+ * List outbox entries, newest first (payloads are summarized by job key)
+ */
+export async function listClayOutbox(
+  params: { status?: ClayOutboxStatus; limit?: number } = {}
+) {
+  const { status, limit = 50 } = params;
+  const entries = await getRepository().select<ClayOutboxEntry>(
+    "clay_outbox",
+    {
+      filters: status ? [eq("status", status)] : [],
+      orderBy: [{ column: "created_at", ascending: false }],
+      limit,
+    }
+  );
+  return entries.map(({ payload, ...entry }) => ({
+    ...entry,
+    job_key: payload?.job_post?.job_key ?? null,
+  }));
+}
+
+/**
+ * Reset failed deliveries to pending so the next run retries them.
+ * Without `ids`, re-drives every dead entry.
+ */
+export async function redriveClayOutbox(ids?: string[]): Promise<string[]> {
+  const entries = await getRepository().update<ClayOutboxEntry>(
+    "clay_outbox",
+    ids?.length
+      ? [inList("id", ids), inList("status", ["dead", "pending"])]
+      : [eq("status", "dead")],
+    {
+      status: "pending",
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      claimed_until: null,
+    }
+  );
+  for (const entry of entries) await recordSyncState(entry, "queued");
+  return entries.map((entry) => entry.id);
+}
@@ -0,0 +1,187 @@
+/**
+ * Per-job-post Clay sync state.
+ *
+ * leadgen.clay_sync_state remembers the hash of the last payload queued for
+ * each job post and whether it was delivered (updated by the outbox), so a job
+ * post is only sent to Clay again when its payload changed (new contacts,
+ * enrichment, ...).
+ */
+
+import crypto from "node:crypto";
+import { getRepository, eq, inList } from "./repository";
+import { getJobPostWithDecisionMakers } from "./db";
+import { toClayJobPostPayload, ClayJobPostPayload } from "./clay";
+import { enqueueClayDelivery } from "./clay-outbox";
+import { getPrimaryJobPostIds } from "./vacancies";
+import {
+  getSyncPosition,
+  saveSyncPosition,
+  selectChangedRows,
+  lastPosition,
+  positionAt,
+  SyncPosition,
+} from "./sync-cursors";
+
+export type ClaySyncStatus = "queued" | "delivered" | "failed";
+
+export type ClaySyncState = {
+  job_post_id: string;
+  payload_hash: string;
+  status: ClaySyncStatus;
+  // Outbox entry carrying the latest payload
+  last_outbox_id: string | null;
+  last_sent_at: string | null;
+};
+
+export type ClaySyncOutcome =
+  | { status: "queued"; outbox_id: string }
+  | { status: "unchanged" }
+  | { status: "missing" };
+
+export const CLAY_SYNC_CURSOR = "clay-sync";
+
+export function hashClayPayload(payload: ClayJobPostPayload): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(payload))
+    .digest("hex");
+}
+
+/**
+ * Queue a job post for Clay unless the same payload was already queued or
+ * delivered. A failed (dead) delivery is queued again. `force` always queues.
+ */
+export async function syncJobPostToClay(
+  jobPostId: string,
+  options: { force?: boolean } = {}
+): Promise<ClaySyncOutcome> {
+  const enrichedJobPost = await getJobPostWithDecisionMakers(jobPostId);
+  if (!enrichedJobPost) return { status: "missing" };
+
+  const payload = toClayJobPostPayload(enrichedJobPost);
+  const payloadHash = hashClayPayload(payload);
+
+  const [state] = await getRepository().select<ClaySyncState>(
+    "clay_sync_state",
+    { filters: [eq("job_post_id", jobPostId)], limit: 1 }
+  );
+  if (
+    !options.force &&
+    state?.payload_hash === payloadHash &&
+    state.status !== "failed"
+  ) {
+    return { status: "unchanged" };
+  }
+
+  const entry = await enqueueClayDelivery(payload, jobPostId);
+  await getRepository().upsert(
+    "clay_sync_state",
+    [
+      {
+        job_post_id: jobPostId,
+        payload_hash: payloadHash,
+        status: "queued",
+        last_outbox_id: entry.id,
+      },
+    ],
+    { onConflict: ["job_post_id"] }
+  );
+  return { status: "queued", outbox_id: entry.id };
+}
+
+export type ClaySyncRunResult = {
+  scanned: number;
+  queued: string[];
+  unchanged: number;
+  cursors: Record<ClaySyncSource, SyncPosition | null>;
+};
+
+type ClaySyncSource = "job_posts" | "companies" | "people";
+
+const CLAY_SYNC_CURSORS: Record<ClaySyncSource, string> = {
+  job_posts: CLAY_SYNC_CURSOR,
+  companies: "clay-sync-companies",
+  people: "clay-sync-people",
+};
+
+/**
+ * Of the given job posts, the ones Clay already has (a changed company or
+ * person only re-sends those; new posts come through their own updated_at)
+ */
+async function syncedJobPostIds(jobPostIds: string[]): Promise<string[]> {
+  if (jobPostIds.length === 0) return [];
+  const states = await getRepository().select("clay_sync_state", {
+    columns: ["job_post_id"],
+    filters: [inList("job_post_id", Array.from(new Set(jobPostIds)))],
+  });
+  return states.map((s) => s.job_post_id);
+}
+
+/**
+ * Queue job posts changed since the saved positions (first run: last 24
+ * hours): posts by their own updated_at, plus the posts Clay already has of
+ * changed companies and changed linked people. Posts whose payload Clay
+ * already has are skipped. Duplicate postings sync through their vacancy's
+ * primary posting. `limit` applies per source.
+ */
+export async function queueChangedJobPostsForClay(
+  limit: number = 200
+): Promise<ClaySyncRunResult> {
+  const repo = getRepository();
+  const since = positionAt(
+    new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+  );
+  const result: ClaySyncRunResult = {
+    scanned: 0,
+    queued: [],
+    unchanged: 0,
+    cursors: { job_posts: null, companies: null, people: null },
+  };
+
+  const jobPostIds: string[] = [];
+  for (const source of Object.keys(CLAY_SYNC_CURSORS) as ClaySyncSource[]) {
+    const after = (await getSyncPosition(CLAY_SYNC_CURSORS[source])) ?? since;
+    const rows = await selectChangedRows(source, {
+      column: "updated_at",
+      after,
+      columns: ["id"],
+      limit,
+    });
+    result.scanned += rows.length;
+    result.cursors[source] = lastPosition(rows, "updated_at") ?? after;
+
+    const ids = rows.map((row) => row.id);
+    if (ids.length === 0) continue;
+    if (source === "job_posts") {
+      jobPostIds.push(...ids);
+    } else if (source === "companies") {
+      const posts = await repo.select("job_posts", {
+        columns: ["id"],
+        filters: [inList("company_id", ids)],
+      });
+      jobPostIds.push(...(await syncedJobPostIds(posts.map((p) => p.id))));
+    } else {
+      const links = await repo.select("job_post_people", {
+        columns: ["job_post_id"],
+        filters: [inList("person_id", ids)],
+      });
+      jobPostIds.push(
+        ...(await syncedJobPostIds(links.map((l) => l.job_post_id)))
+      );
+    }
+  }
+
+  const primaryIds = await getPrimaryJobPostIds(Array.from(new Set(jobPostIds)));
+  for (const jobPostId of primaryIds) {
+    const outcome = await syncJobPostToClay(jobPostId);
+    if (outcome.status === "queued") result.queued.push(outcome.outbox_id);
+    else if (outcome.status === "unchanged") result.unchanged++;
+  }
+
+  // Saved after queueing, so a failed run scans the same rows again
+  for (const source of Object.keys(CLAY_SYNC_CURSORS) as ClaySyncSource[]) {
+    const position = result.cursors[source];
+    if (position) await saveSyncPosition(CLAY_SYNC_CURSORS[source], position);
+  }
+  return result;
+}
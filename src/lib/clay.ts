@@ -3,6 +3,8 @@
  */
 
 import { z } from "zod";
+import type { EnrichedJobPost } from "./db";
+import { formatJobKey, toLegacyFinnId } from "./job-boards";
 
 // ============================================================
 // Incoming Clay Enrichment Payload Schema (FROM Clay)
@@ -41,7 +43,8 @@ const ClayEnrichedCompanySchema = z.object({
 });
 
 export const ClayEnrichmentPayloadSchema = z.object({
-  // Required anchor to find the company via job_posts
+  // Required anchor to find the company via job_posts: a Finn code, a job key
+  // ("nav:<uuid>") or a posting URL (see parseJobReference)
   finn_id: z.string().min(1),
   // Enriched company data
   company: ClayEnrichedCompanySchema.optional(),
@@ -71,7 +74,11 @@ export type ClayDecisionMaker = ClayPerson;
 
 export type ClayJobPostPayload = {
   job_post: {
+    // Finn code for finn.no posts, "board:external_id" otherwise (Clay's row anchor)
     finn_id: string;
+    board: string;
+    external_id: string;
+    job_key: string;
     finn_url: string;
     title: string | null;
     description: string | null;
@@ -84,6 +91,9 @@ export type ClayJobPostPayload = {
     sector: string | null;
     industries: string[] | null;
     source: string | null;
+    vacancy_id: string | null;
+    // URLs of every posting of this vacancy (same job on several boards)
+    posting_urls: string[];
   };
   company: {
     name: string | null;
@@ -104,6 +114,67 @@ export type ClayJobPostPayload = {
   contact_persons_formatted: string | null;
 };
 
+/**
+ * Build the outgoing Clay payload for an enriched job post
+ */
+export function toClayJobPostPayload(
+  enrichedJobPost: EnrichedJobPost
+): ClayJobPostPayload {
+  const { job_post: jobPost, company } = enrichedJobPost;
+  const ref = { board: jobPost.board, external_id: jobPost.external_id };
+  const toClayPerson = (p: ClayPerson): ClayPerson => ({
+    full_name: p.full_name,
+    title: p.title,
+    email: p.email,
+    phone: p.phone,
+    linkedin_url: p.linkedin_url,
+  });
+
+  return {
+    job_post: {
+      finn_id: toLegacyFinnId(ref),
+      board: jobPost.board,
+      external_id: jobPost.external_id,
+      job_key: formatJobKey(ref),
+      finn_url: jobPost.finn_url,
+      title: jobPost.title,
+      description: truncateDescription(jobPost.description),
+      location: jobPost.location,
+      employment_type: jobPost.employment_type,
+      salary: jobPost.salary,
+      publication_date: jobPost.publication_date,
+      expiration_date: jobPost.expiration_date,
+      application_url: jobPost.application_url,
+      sector: jobPost.sector,
+      industries: jobPost.industries,
+      source: jobPost.source,
+      vacancy_id: jobPost.vacancy_id,
+      posting_urls: enrichedJobPost.postings.map((p) => p.finn_url),
+    },
+    company: {
+      name: company.name,
+      domain: company.domain,
+      clean_domain: company.clean_domain,
+      orgnr: company.orgnr,
+      proff_url: company.proff_url,
+      industry: company.industry,
+      company_size: company.company_size,
+      location: company.location,
+      sector: company.sector,
+      profit_before_tax: company.profit_before_tax,
+      turnover: company.turnover,
+    },
+    decision_makers: enrichedJobPost.decision_makers.map(toClayPerson),
+    contact_persons: enrichedJobPost.contact_persons.map(toClayPerson),
+    decision_makers_formatted: formatPersonsCompact(
+      enrichedJobPost.decision_makers
+    ),
+    contact_persons_formatted: formatPersonsCompact(
+      enrichedJobPost.contact_persons
+    ),
+  };
+}
+
 const CLAY_CELL_MAX_BYTES = 6000; // Clay limit is 8KB, use 6KB for safety
 
 /**
@@ -179,16 +250,42 @@ export function isClayWebhookEnabled(): boolean {
   return !!CLAY_WEBHOOK_URL;
 }
 
+export type ClayDeliveryResult = {
+  ok: boolean;
+  // HTTP status (null on network errors)
+  status: number | null;
+  // Delay requested by Clay via Retry-After (429/503), in ms
+  retryAfterMs: number | null;
+  error: string | null;
+};
+
 /**
- * Send job post with decision makers to Clay webhook
- * Returns true on success, false on failure (logs errors but doesn't throw)
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into ms
  */
-export async function sendToClayWebhook(
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now()
+): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * POST a payload to the Clay webhook and report the outcome (never throws)
+ */
+export async function postToClayWebhook(
   payload: ClayJobPostPayload
-): Promise<boolean> {
+): Promise<ClayDeliveryResult> {
   if (!CLAY_WEBHOOK_URL) {
-    console.log("[Clay] Webhook URL not configured, skipping");
-    return false;
+    return {
+      ok: false,
+      status: null,
+      retryAfterMs: null,
+      error: "CLAY_WEBHOOK_URL not configured",
+    };
   }
 
   try {
@@ -201,20 +298,48 @@ export async function sendToClayWebhook(
     });
 
     if (!response.ok) {
-      console.error(
-        `[Clay] Webhook failed: ${response.status} ${response.statusText}`
-      );
-      return false;
+      return {
+        ok: false,
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+        error: `${response.status} ${response.statusText}`,
+      };
     }
 
-    console.log(
-      `[Clay] Successfully sent job post ${payload.job_post.finn_id} to Clay`
-    );
-    return true;
-  } catch (error) {
-    console.error("[Clay] Webhook error:", error);
+    return { ok: true, status: response.status, retryAfterMs: null, error: null };
+  } catch (error: any) {
+    return {
+      ok: false,
+      status: null,
+      retryAfterMs: null,
+      error: error?.message ?? String(error),
+    };
+  }
+}
+
+/**
+ * Send job post with decision makers to Clay webhook
+ * Returns true on success, false on failure (logs errors but doesn't throw).
+ * Prefer enqueueClayDelivery (src/lib/clay-outbox.ts), which retries failures.
+ */
+export async function sendToClayWebhook(
+  payload: ClayJobPostPayload
+): Promise<boolean> {
+  if (!CLAY_WEBHOOK_URL) {
+    console.log("[Clay] Webhook URL not configured, skipping");
     return false;
   }
+
+  const result = await postToClayWebhook(payload);
+  if (!result.ok) {
+    console.error(`[Clay] Webhook failed: ${result.error}`);
+    return false;
+  }
+
+  console.log(
+    `[Clay] Successfully sent job post ${payload.job_post.job_key} to Clay`
+  );
+  return true;
 }
 
 /**
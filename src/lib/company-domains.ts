@@ -0,0 +1,148 @@
+/**
+ * Company domain aliases (leadgen.company_domains).
+ *
+ * A company can be reached under several domains (brands, old names, country
+ * sites). companies.clean_domain stays the primary domain; every domain a
+ * source sends for the company is recorded here with the source and when it
+ * was first and last seen. A domain belongs to at most one company, and a
+ * domain already owned by another company is never moved - that pair is for a
+ * merge to resolve.
+ */
+
+import { getRepository, eq } from "./repository";
+import { normalizeCompanyDomain } from "./normalize";
+
+export type CompanyDomain = {
+  id: string;
+  company_id: string;
+  // Registrable domain (normalizeCompanyDomain)
+  domain: string;
+  is_primary: boolean;
+  // Source that first sent the domain (ingest source, "clay", "import"...)
+  source: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  created_at: string;
+};
+
+/**
+ * Company owning a domain, or null
+ */
+export async function findCompanyIdByDomain(
+  domain?: string | null
+): Promise<string | null> {
+  const normalized = normalizeCompanyDomain(domain);
+  if (!normalized) return null;
+  const [alias] = await getRepository().select<CompanyDomain>(
+    "company_domains",
+    {
+      columns: ["company_id"],
+      filters: [eq("domain", normalized)],
+      limit: 1,
+    }
+  );
+  return alias?.company_id ?? null;
+}
+
+export async function listCompanyDomains(
+  companyId: string
+): Promise<CompanyDomain[]> {
+  return getRepository().select<CompanyDomain>("company_domains", {
+    filters: [eq("company_id", companyId)],
+    orderBy: [
+      { column: "is_primary", ascending: false },
+      { column: "first_seen_at", ascending: true },
+    ],
+  });
+}
+
+/**
+ * All domains of the company owning `domain` (the domain itself when no
+ * company has it as an alias), for lookups by any of a company's domains
+ */
+export async function expandDomainAliases(
+  domain?: string | null
+): Promise<string[]> {
+  const normalized = normalizeCompanyDomain(domain);
+  if (!normalized) return [];
+  const companyId = await findCompanyIdByDomain(normalized);
+  if (!companyId) return [normalized];
+  const aliases = await listCompanyDomains(companyId);
+  return Array.from(new Set([normalized, ...aliases.map((a) => a.domain)]));
+}
+
+// Mark an alias seen for a company, or null when another company owns it
+async function touchCompanyDomain(
+  alias: CompanyDomain,
+  companyId: string
+): Promise<CompanyDomain | null> {
+  if (alias.company_id !== companyId) {
+    console.log(
+      `[Domains] ${alias.domain} belongs to company ${alias.company_id}, not recorded for ${companyId}`
+    );
+    return null;
+  }
+  const [seen] = await getRepository().update<CompanyDomain>(
+    "company_domains",
+    [eq("id", alias.id)],
+    { last_seen_at: new Date().toISOString() }
+  );
+  return seen;
+}
+
+async function findCompanyDomain(
+  domain: string
+): Promise<CompanyDomain | null> {
+  const [alias] = await getRepository().select<CompanyDomain>(
+    "company_domains",
+    { filters: [eq("domain", domain)], limit: 1 }
+  );
+  return alias ?? null;
+}
+
+/**
+ * Record that `domain` was seen for a company. New domains become the
+ * primary when the company has none yet. Returns the alias, or null when the
+ * domain is empty, a platform domain, or owned by another company.
+ *
+ * The alias is inserted with on conflict do nothing: when another request
+ * records the same domain in between, its row is kept and re-read rather
+ * than overwritten.
+ */
+export async function recordCompanyDomain(params: {
+  company_id: string;
+  domain?: string | null;
+  source?: string | null;
+}): Promise<CompanyDomain | null> {
+  const domain = normalizeCompanyDomain(params.domain);
+  if (!domain) return null;
+  const repo = getRepository();
+
+  const existing = await findCompanyDomain(domain);
+  if (existing) return touchCompanyDomain(existing, params.company_id);
+
+  const [primary] = await repo.select("company_domains", {
+    columns: ["id"],
+    filters: [eq("company_id", params.company_id), eq("is_primary", true)],
+    limit: 1,
+  });
+  const now = new Date().toISOString();
+  const [alias] = await repo.upsert<CompanyDomain>(
+    "company_domains",
+    [
+      {
+        company_id: params.company_id,
+        domain,
+        is_primary: !primary,
+        source: params.source ?? null,
+        first_seen_at: now,
+        last_seen_at: now,
+      },
+    ],
+    { onConflict: ["domain"], ignoreDuplicates: true }
+  );
+  if (alias) return alias;
+
+  const recorded = await findCompanyDomain(domain);
+  return recorded ? touchCompanyDomain(recorded, params.company_id) : null;
+}
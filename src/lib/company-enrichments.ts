@@ -0,0 +1,53 @@
+/**
+ * Company enrichment log (leadgen.company_enrichments).
+ *
+ * updateCompanyEnrichment only fills empty company fields; every call that
+ * fills at least one field is recorded here with the provider ("clay",
+ * "brreg", ...) and the values it filled, so the company view can show which
+ * enrichment filled which field and when.
+ */
+
+import { getRepository, eq } from "./repository";
+
+export type CompanyEnrichment = {
+  id: string;
+  company_id: string;
+  // Enrichment provider ("clay", "brreg", ...)
+  source: string | null;
+  fields: string[];
+  // Filled field -> value
+  field_values: Record<string, string>;
+  created_at: string;
+};
+
+/**
+ * Record the fields an enrichment filled (no-op when none)
+ */
+export async function recordCompanyEnrichment(params: {
+  company_id: string;
+  source?: string | null;
+  values: Record<string, string>;
+}): Promise<void> {
+  const fields = Object.keys(params.values);
+  if (fields.length === 0) return;
+  await getRepository().insert("company_enrichments", [
+    {
+      company_id: params.company_id,
+      source: params.source ?? null,
+      fields,
+      field_values: params.values,
+    },
+  ]);
+}
+
+/**
+ * A company's enrichments, oldest first
+ */
+export async function listCompanyEnrichments(
+  companyId: string
+): Promise<CompanyEnrichment[]> {
+  return getRepository().select<CompanyEnrichment>("company_enrichments", {
+    filters: [eq("company_id", companyId)],
+    orderBy: [{ column: "created_at", ascending: true }],
+  });
+}
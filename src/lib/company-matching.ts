@@ -0,0 +1,331 @@
+/**
+ * Fuzzy company matching.
+ *
+ * Used by findExistingCompany when no exact orgnr / domain / name match exists,
+ * so "Sykehuset Innlandet" and "Sykehuset Innlandet HF" or small typos don't
+ * create new companies. Candidates share a clean_name prefix; each is scored
+ * with Jaro-Winkler over normalizeCompanyNameForMatching output and token
+ * overlap of the name words, adjusted by location. Matches above
+ * autoMergeThreshold that share a distinguishing name word, and whose
+ * candidate was not ruled distinct from another close candidate, are used
+ * directly; the others go to the review queue.
+ */
+
+import { getRepository, gt, ilike, Row } from "./repository";
+import { buildPairKey, distinctPairKeys } from "./match-reviews";
+import {
+  normalizeCompanyNameForMatching,
+  normalizeCompanyDomain,
+  normalizeOrgnr,
+} from "./normalize";
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const COMPANY_MATCH_CONFIG = {
+  // Confidence at or above which the existing company is used
+  autoMergeThreshold: envNumber("COMPANY_MATCH_AUTO_THRESHOLD", 0.95),
+  // Confidence at or above which the pair is queued for review
+  reviewThreshold: envNumber("COMPANY_MATCH_REVIEW_THRESHOLD", 0.85),
+  // Shorter clean names are too ambiguous to match fuzzily
+  minNameLength: 4,
+  // Candidates must share this many leading clean_name characters
+  prefixLength: 3,
+  // Candidates are read (and scored) in pages of this size
+  candidatePageSize: 500,
+  // Confidence adjustments for location hints
+  locationMatchBonus: 0.03,
+  locationMismatchPenalty: 0.1,
+};
+
+export type CompanyMatchScore = {
+  confidence: number;
+  name_similarity: number;
+  token_similarity: number;
+  location: "match" | "mismatch" | "unknown";
+};
+
+export type FuzzyCompanyMatch = CompanyMatchScore & {
+  id: string;
+  company_key: string;
+  name: string | null;
+  decision: "auto_merge" | "review";
+};
+
+// Legal-form suffixes: the same company is registered or written with and
+// without them
+const LEGAL_FORM_TOKENS = new Set([
+  // Norwegian
+  "as",
+  "asa",
+  "ans",
+  "da",
+  "ba",
+  "sa",
+  "nuf",
+  "ks",
+  "hf",
+  "kf",
+  "iks",
+  "sf",
+  // International
+  "ltd",
+  "limited",
+  "inc",
+  "incorporated",
+  "corp",
+  "corporation",
+  "llc",
+  "llp",
+  "gmbh",
+  "ag",
+  "ab",
+  "oy",
+  "aps",
+  "bv",
+  "nv",
+  "plc",
+  "co",
+  "company",
+]);
+
+// Words many different companies share: they count towards the name
+// similarity, but a match needs another word in common to be auto-merged
+// ("Nordic Group" / "Nordic Holding" are not)
+const GENERIC_NAME_TOKENS = new Set([
+  "group",
+  "holding",
+  "holdings",
+  "norge",
+  "norway",
+  "norsk",
+  "nordic",
+]);
+
+const tokenize = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFKC")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+export function companyNameTokens(name?: string | null): Set<string> {
+  return new Set(
+    tokenize(name ?? "").filter((token) => !LEGAL_FORM_TOKENS.has(token))
+  );
+}
+
+/**
+ * True when the names have a word in common that is neither a legal form nor
+ * a generic word
+ */
+export function sharesDistinguishingToken(
+  a?: string | null,
+  b?: string | null
+): boolean {
+  const bTokens = companyNameTokens(b);
+  for (const token of companyNameTokens(a)) {
+    if (!GENERIC_NAME_TOKENS.has(token) && bTokens.has(token)) return true;
+  }
+  return false;
+}
+
+/**
+ * Jaro-Winkler similarity (0-1), prefix scale 0.1 over up to 4 characters
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return a.length ? 1 : 0;
+  if (!a.length || !b.length) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro =
+    (matches / a.length +
+      matches / b.length +
+      (matches - transpositions / 2) / matches) /
+    3;
+
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+function diceSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  return (2 * shared) / (a.size + b.size);
+}
+
+function compareLocations(
+  a?: string | null,
+  b?: string | null
+): CompanyMatchScore["location"] {
+  const aTokens = new Set(tokenize(a ?? ""));
+  const bTokens = new Set(tokenize(b ?? ""));
+  if (aTokens.size === 0 || bTokens.size === 0) return "unknown";
+  for (const token of aTokens) if (bTokens.has(token)) return "match";
+  return "mismatch";
+}
+
+/**
+ * Score how likely two company names (plus optional locations) refer to the
+ * same company. Confidence is the better of the two name measures, adjusted
+ * by location.
+ */
+export function scoreCompanyMatch(
+  a: { name?: string | null; location?: string | null },
+  b: { name?: string | null; location?: string | null }
+): CompanyMatchScore {
+  const aClean = normalizeCompanyNameForMatching(a.name) ?? "";
+  const bClean = normalizeCompanyNameForMatching(b.name) ?? "";
+  const nameSimilarity = jaroWinkler(aClean, bClean);
+  const tokenSimilarity = diceSimilarity(
+    companyNameTokens(a.name),
+    companyNameTokens(b.name)
+  );
+  const location = compareLocations(a.location, b.location);
+
+  let confidence = Math.max(nameSimilarity, tokenSimilarity);
+  if (location === "match") {
+    confidence = Math.min(
+      1,
+      confidence + COMPANY_MATCH_CONFIG.locationMatchBonus
+    );
+  } else if (location === "mismatch") {
+    confidence -= COMPANY_MATCH_CONFIG.locationMismatchPenalty;
+  }
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    confidence: round(Math.max(0, confidence)),
+    name_similarity: round(nameSimilarity),
+    token_similarity: round(tokenSimilarity),
+    location,
+  };
+}
+
+// A different orgnr or website means a different legal entity
+function hasConflictingIdentifiers(
+  candidate: Row,
+  orgnr: string | null,
+  domain: string | null
+): boolean {
+  if (orgnr && candidate.orgnr && candidate.orgnr !== orgnr) return true;
+  if (domain && candidate.clean_domain && candidate.clean_domain !== domain) {
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Companies sharing the clean_name prefix, in pages by id (every one of them:
+ * a common prefix can match thousands of companies)
+ */
+async function* candidatePages(cleanName: string) {
+  const prefix = cleanName.slice(0, COMPANY_MATCH_CONFIG.prefixLength);
+  let lastId: string | null = null;
+  while (true) {
+    const candidates: Row[] = await getRepository().select("companies", {
+      columns: [
+        "id",
+        "company_key",
+        "name",
+        "clean_name",
+        "location",
+        "orgnr",
+        "clean_domain",
+      ],
+      filters: [
+        ilike("clean_name", `${prefix}%`),
+        ...(lastId ? [gt("id", lastId)] : []),
+      ],
+      orderBy: [{ column: "id", ascending: true }],
+      limit: COMPANY_MATCH_CONFIG.candidatePageSize,
+    });
+    if (candidates.length === 0) return;
+    yield candidates;
+    if (candidates.length < COMPANY_MATCH_CONFIG.candidatePageSize) return;
+    lastId = candidates[candidates.length - 1].id;
+  }
+}
+
+/**
+ * Best fuzzy match for a company among existing companies, or null when no
+ * candidate reaches the review threshold
+ */
+export async function findFuzzyCompanyMatch(params: {
+  name?: string | null;
+  location?: string | null;
+  orgnr?: string | null;
+  domain?: string | null;
+}): Promise<FuzzyCompanyMatch | null> {
+  const cleanName = normalizeCompanyNameForMatching(params.name);
+  if (!cleanName || cleanName.length < COMPANY_MATCH_CONFIG.minNameLength) {
+    return null;
+  }
+  const orgnr = normalizeOrgnr(params.orgnr);
+  const domain = normalizeCompanyDomain(params.domain);
+
+  const scored: { candidate: Row; score: CompanyMatchScore }[] = [];
+  for await (const candidates of candidatePages(cleanName)) {
+    for (const candidate of candidates) {
+      if (hasConflictingIdentifiers(candidate, orgnr, domain)) continue;
+      const score = scoreCompanyMatch(params, candidate);
+      if (score.confidence >= COMPANY_MATCH_CONFIG.reviewThreshold) {
+        scored.push({ candidate, score });
+      }
+    }
+  }
+  if (scored.length === 0) return null;
+  scored.sort((a, b) => b.score.confidence - a.score.confidence);
+
+  const { candidate, score } = scored[0];
+  // Reviewers said the best candidate and another close one are different
+  // companies: the name alone can't tell which one is meant
+  const distinct = await distinctPairKeys(
+    "company",
+    scored.map(({ candidate }) => candidate.id)
+  );
+  const ambiguous = scored
+    .slice(1)
+    .some(({ candidate: other }) =>
+      distinct.has(buildPairKey(candidate.id, other.id))
+    );
+  const autoMerge =
+    score.confidence >= COMPANY_MATCH_CONFIG.autoMergeThreshold &&
+    sharesDistinguishingToken(params.name, candidate.name) &&
+    !ambiguous;
+  return {
+    ...score,
+    id: candidate.id,
+    company_key: candidate.company_key,
+    name: candidate.name ?? null,
+    decision: autoMerge ? "auto_merge" : "review",
+  };
+}
@@ -0,0 +1,603 @@
+/**
+ * Company merge service (replaces migrations/003_deduplicate_companies.sql).
+ *
+ * Merging keeps one survivor company, fills its empty fields from the merged
+ * companies, re-points job_posts, vacancies, company_people (dropping link
+ * rows the survivor already has), domain and name aliases and enrichment log
+ * entries to it, keeps the merged companies' company_key / clean_name as
+ * aliases (leadgen.company_aliases) and deletes the merged companies.
+ * Every merge is recorded in leadgen.company_merges with a snapshot of what
+ * changed, so it can be reverted. The record is written before the data and
+ * marked completed after it; every step can run twice, so a merge that
+ * failed half-way is finished by calling it again with the same companies.
+ */
+
+import { getRepository, eq, inList, isNull, Row } from "./repository";
+
+// Fields filled from merged companies when empty on the survivor
+export const COMPANY_MERGE_FIELDS = [
+  "name",
+  "domain",
+  "clean_domain",
+  "clean_name",
+  "orgnr",
+  "proff_url",
+  "industry",
+  "company_size",
+  "location",
+  "sector",
+  "profit_before_tax",
+  "turnover",
+] as const;
+
+export type CompanyMergeField = (typeof COMPANY_MERGE_FIELDS)[number];
+
+export class CompanyMergeError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = statusCode === 404 ? "Not Found" : "Bad Request";
+  }
+}
+
+type LinkRow = { company_id: string; person_id: string; role: string };
+
+export type CompanyAliasKind = "company_key" | "clean_name";
+
+export type CompanyAlias = {
+  id: string;
+  company_id: string;
+  kind: CompanyAliasKind;
+  value: string;
+  source: string | null;
+  created_at: string;
+};
+
+type CompanyMergeSnapshot = {
+  // Full rows of every company before the merge (survivor included)
+  companies: Row[];
+  // Rows re-pointed to the survivor, with their previous company_id
+  job_posts: { id: string; company_id: string }[];
+  vacancies: { id: string; company_id: string }[];
+  company_people_moved: LinkRow[];
+  // Domain aliases moved to the survivor (missing in merges made before
+  // company_domains existed)
+  company_domains?: { id: string; company_id: string; is_primary: boolean }[];
+  // Enrichment log entries moved to the survivor (missing in merges made
+  // before company_enrichments existed)
+  company_enrichments?: { id: string; company_id: string }[];
+  // Name aliases moved to the survivor, and the merged companies' keys and
+  // names added as aliases (missing in merges made before company_aliases
+  // existed)
+  company_aliases_moved?: { id: string; company_id: string }[];
+  company_aliases_added?: { kind: CompanyAliasKind; value: string }[];
+  // Link rows dropped because the survivor already had them
+  company_people_deleted: Row[];
+  // Survivor fields before they were filled in
+  survivor_fields: Partial<Record<CompanyMergeField, unknown>>;
+};
+
+export type CompanyMergeRecord = {
+  id: string;
+  survivor_id: string;
+  merged_company_ids: string[];
+  // Field -> id of the company whose value the survivor ended up with
+  field_sources: Partial<Record<CompanyMergeField, string>>;
+  snapshot: CompanyMergeSnapshot;
+  reason: string | null;
+  // Null while the merge is unfinished
+  completed_at: string | null;
+  reverted_at: string | null;
+  created_at: string;
+};
+
+export type CompanyMergeResult = {
+  merge_id: string | null;
+  survivor_id: string;
+  merged_company_ids: string[];
+  field_sources: Partial<Record<CompanyMergeField, string>>;
+  job_posts_moved: number;
+  vacancies_moved: number;
+  company_people_moved: number;
+  company_people_deduped: number;
+  company_domains_moved: number;
+  company_enrichments_moved: number;
+  company_aliases_added: number;
+  // An unfinished merge of the same companies was finished
+  resumed: boolean;
+  dry_run: boolean;
+};
+
+const linkFilters = (link: LinkRow) => [
+  eq("company_id", link.company_id),
+  eq("person_id", link.person_id),
+  eq("role", link.role),
+];
+
+const present = (value: unknown) =>
+  value !== null && value !== undefined && value !== "";
+
+/**
+ * Data completeness score (higher = better), as in 003_deduplicate_companies.sql:
+ * orgnr > clean_domain > proff_url > other enrichment fields
+ */
+export function scoreCompanyData(company: Row): number {
+  return (
+    (present(company.orgnr) ? 100 : 0) +
+    (present(company.clean_domain) ? 10 : 0) +
+    (present(company.proff_url) ? 5 : 0) +
+    ["industry", "company_size", "location", "profit_before_tax", "turnover"]
+      .map((field) => (present(company[field]) ? 1 : 0) as number)
+      .reduce((sum, score) => sum + score, 0)
+  );
+}
+
+/**
+ * Order companies best-first: highest data score, then oldest
+ */
+export function rankCompanies<T extends Row>(companies: T[]): T[] {
+  return [...companies].sort(
+    (a, b) =>
+      scoreCompanyData(b) - scoreCompanyData(a) ||
+      String(a.created_at ?? "").localeCompare(String(b.created_at ?? ""))
+  );
+}
+
+/**
+ * Company that had `value` as its company_key / clean_name before it was
+ * merged into it, or null
+ */
+export async function findCompanyIdByAlias(
+  kind: CompanyAliasKind,
+  value: string
+): Promise<string | null> {
+  const [alias] = await getRepository().select<CompanyAlias>(
+    "company_aliases",
+    {
+      columns: ["company_id"],
+      filters: [eq("kind", kind), eq("value", value)],
+      limit: 1,
+    }
+  );
+  return alias?.company_id ?? null;
+}
+
+function mergeResult(
+  record: Pick<
+    CompanyMergeRecord,
+    "survivor_id" | "merged_company_ids" | "field_sources" | "snapshot"
+  >,
+  extra: { merge_id: string | null; resumed: boolean; dry_run: boolean }
+): CompanyMergeResult {
+  const { snapshot } = record;
+  return {
+    merge_id: extra.merge_id,
+    survivor_id: record.survivor_id,
+    merged_company_ids: record.merged_company_ids,
+    field_sources: record.field_sources,
+    job_posts_moved: snapshot.job_posts.length,
+    vacancies_moved: snapshot.vacancies.length,
+    company_people_moved: snapshot.company_people_moved.length,
+    company_people_deduped: snapshot.company_people_deleted.length,
+    company_domains_moved: snapshot.company_domains?.length ?? 0,
+    company_enrichments_moved: snapshot.company_enrichments?.length ?? 0,
+    company_aliases_added: snapshot.company_aliases_added?.length ?? 0,
+    resumed: extra.resumed,
+    dry_run: extra.dry_run,
+  };
+}
+
+/**
+ * Unfinished, unreverted merge of exactly these companies
+ */
+async function findUnfinishedMerge(
+  companyIds: string[]
+): Promise<CompanyMergeRecord | null> {
+  const records = await getRepository().select<CompanyMergeRecord>(
+    "company_merges",
+    {
+      filters: [
+        isNull("completed_at"),
+        isNull("reverted_at"),
+        inList("survivor_id", companyIds),
+      ],
+    }
+  );
+  const wanted = new Set(companyIds);
+  return (
+    records.find((record) => {
+      const ids = new Set([record.survivor_id, ...record.merged_company_ids]);
+      return ids.size === wanted.size && [...ids].every((id) => wanted.has(id));
+    }) ?? null
+  );
+}
+
+/**
+ * Write a planned merge. Safe to run again after a failure: rows are
+ * re-pointed by company, deletes and inserts skip what is already done.
+ */
+async function applyCompanyMerge(record: CompanyMergeRecord): Promise<void> {
+  const repo = getRepository();
+  const { snapshot, survivor_id: survivorId } = record;
+  const mergedIds = record.merged_company_ids;
+
+  await repo.update("job_posts", [inList("company_id", mergedIds)], {
+    company_id: survivorId,
+  });
+  await repo.update("vacancies", [inList("company_id", mergedIds)], {
+    company_id: survivorId,
+  });
+  for (const link of snapshot.company_people_deleted as LinkRow[]) {
+    await repo.delete("company_people", linkFilters(link));
+  }
+  for (const link of snapshot.company_people_moved) {
+    await repo.update("company_people", linkFilters(link), {
+      company_id: survivorId,
+    });
+  }
+  // Merged companies' domains stay reachable as survivor aliases
+  await repo.update("company_domains", [inList("company_id", mergedIds)], {
+    company_id: survivorId,
+    is_primary: false,
+  });
+  await repo.update("company_enrichments", [inList("company_id", mergedIds)], {
+    company_id: survivorId,
+  });
+  await repo.update("company_aliases", [inList("company_id", mergedIds)], {
+    company_id: survivorId,
+  });
+
+  // Merged companies' keys and names keep finding the survivor
+  const added = snapshot.company_aliases_added ?? [];
+  if (added.length > 0) {
+    const existing = await repo.select<CompanyAlias>("company_aliases", {
+      columns: ["kind", "value"],
+      filters: [inList("value", added.map((alias) => alias.value))],
+    });
+    const existingKeys = new Set(existing.map((a) => `${a.kind}|${a.value}`));
+    const missing = added.filter(
+      (alias) => !existingKeys.has(`${alias.kind}|${alias.value}`)
+    );
+    if (missing.length > 0) {
+      await repo.insert(
+        "company_aliases",
+        missing.map((alias) => ({
+          ...alias,
+          company_id: survivorId,
+          source: "merge",
+        }))
+      );
+    }
+  }
+
+  // Survivor fields filled from the merged companies
+  const fills: Row = {};
+  for (const field of Object.keys(snapshot.survivor_fields)) {
+    const donorId = record.field_sources[field as CompanyMergeField];
+    const donor = snapshot.companies.find((c) => c.id === donorId);
+    if (donor) fills[field] = donor[field];
+  }
+  // A clean_domain taken over from a merged company is the primary domain
+  if (typeof fills.clean_domain === "string") {
+    await repo.update(
+      "company_domains",
+      [eq("company_id", survivorId), eq("domain", fills.clean_domain)],
+      { is_primary: true }
+    );
+  }
+
+  // Delete merged companies before filling the survivor: unique columns
+  // (orgnr, clean_domain, ...) may move from a merged company to the survivor
+  await repo.delete("companies", [inList("id", mergedIds)]);
+  if (Object.keys(fills).length > 0) {
+    await repo.update("companies", [eq("id", survivorId)], fills);
+  }
+
+  await repo.update("company_merges", [eq("id", record.id)], {
+    completed_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Merge companies into one survivor (explicit, or the best-ranked company).
+ * With `dry_run`, returns the plan without writing anything. An unfinished
+ * merge of the same companies is finished instead of planned again.
+ */
+export async function mergeCompanies(params: {
+  company_ids: string[];
+  survivor_id?: string;
+  reason?: string | null;
+  dry_run?: boolean;
+}): Promise<CompanyMergeResult> {
+  const { reason = null, dry_run = false } = params;
+  const companyIds = Array.from(new Set(params.company_ids));
+  if (params.survivor_id && !companyIds.includes(params.survivor_id)) {
+    companyIds.push(params.survivor_id);
+  }
+  if (companyIds.length < 2) {
+    throw new CompanyMergeError("At least two distinct companies are required");
+  }
+
+  const repo = getRepository();
+  const unfinished = await findUnfinishedMerge(companyIds);
+  if (unfinished) {
+    if (params.survivor_id && params.survivor_id !== unfinished.survivor_id) {
+      throw new CompanyMergeError(
+        `Merge ${unfinished.id} of these companies into ${unfinished.survivor_id} is unfinished; retry it with that survivor`
+      );
+    }
+    if (!dry_run) {
+      await applyCompanyMerge(unfinished);
+      console.log(
+        `[Merge] Finished merge ${unfinished.id} into ${unfinished.survivor_id}`
+      );
+    }
+    return mergeResult(unfinished, {
+      merge_id: unfinished.id,
+      resumed: true,
+      dry_run,
+    });
+  }
+
+  const companies = await repo.select("companies", {
+    filters: [inList("id", companyIds)],
+  });
+  const missing = companyIds.filter((id) => !companies.some((c) => c.id === id));
+  if (missing.length > 0) {
+    throw new CompanyMergeError(`Company not found: ${missing.join(", ")}`, 404);
+  }
+
+  const orgnrs = new Set(companies.map((c) => c.orgnr).filter(present));
+  if (orgnrs.size > 1) {
+    throw new CompanyMergeError(
+      `Companies have conflicting orgnr (${Array.from(orgnrs).join(", ")})`
+    );
+  }
+
+  const ranked = rankCompanies(companies);
+  const survivor = params.survivor_id
+    ? companies.find((c) => c.id === params.survivor_id)!
+    : ranked[0];
+  const merged = ranked.filter((c) => c.id !== survivor.id);
+  const mergedIds = merged.map((c) => c.id as string);
+
+  // Field winners: the survivor's value, else the best-ranked non-empty value
+  const fieldSources: CompanyMergeResult["field_sources"] = {};
+  const fills: Row = {};
+  const survivorFields: CompanyMergeSnapshot["survivor_fields"] = {};
+  for (const field of COMPANY_MERGE_FIELDS) {
+    if (present(survivor[field])) {
+      fieldSources[field] = survivor.id;
+      continue;
+    }
+    const donor = merged.find((c) => present(c[field]));
+    if (donor) {
+      fieldSources[field] = donor.id;
+      fills[field] = donor[field];
+      survivorFields[field] = survivor[field] ?? null;
+    }
+  }
+
+  const [
+    jobPosts,
+    vacancies,
+    survivorLinks,
+    mergedLinks,
+    domains,
+    enrichments,
+    aliases,
+  ] = await Promise.all([
+    repo.select<{ id: string; company_id: string }>("job_posts", {
+      columns: ["id", "company_id"],
+      filters: [inList("company_id", mergedIds)],
+    }),
+    repo.select<{ id: string; company_id: string }>("vacancies", {
+      columns: ["id", "company_id"],
+      filters: [inList("company_id", mergedIds)],
+    }),
+    repo.select<LinkRow>("company_people", {
+      filters: [eq("company_id", survivor.id)],
+    }),
+    repo.select<LinkRow>("company_people", {
+      filters: [inList("company_id", mergedIds)],
+    }),
+    repo.select<{ id: string; company_id: string; is_primary: boolean }>(
+      "company_domains",
+      {
+        columns: ["id", "company_id", "is_primary"],
+        filters: [inList("company_id", mergedIds)],
+      }
+    ),
+    repo.select<{ id: string; company_id: string }>("company_enrichments", {
+      columns: ["id", "company_id"],
+      filters: [inList("company_id", mergedIds)],
+    }),
+    repo.select<{ id: string; company_id: string }>("company_aliases", {
+      columns: ["id", "company_id"],
+      filters: [inList("company_id", mergedIds)],
+    }),
+  ]);
+
+  // A link moves to the survivor unless it (or an earlier moved copy) is already there
+  const linkKeys = new Set(
+    survivorLinks.map((link) => `${link.person_id}|${link.role}`)
+  );
+  const linksToMove: LinkRow[] = [];
+  const linksToDelete: LinkRow[] = [];
+  for (const link of mergedLinks) {
+    const key = `${link.person_id}|${link.role}`;
+    if (linkKeys.has(key)) {
+      linksToDelete.push(link);
+    } else {
+      linkKeys.add(key);
+      linksToMove.push(link);
+    }
+  }
+
+  // Keys and names of merged companies the survivor won't have itself,
+  // unless another company already has them as aliases
+  const survivorName = fills.clean_name ?? survivor.clean_name;
+  const aliasCandidates = new Map<string, { kind: CompanyAliasKind; value: string }>();
+  for (const company of merged) {
+    aliasCandidates.set(`company_key|${company.company_key}`, {
+      kind: "company_key",
+      value: company.company_key,
+    });
+    if (present(company.clean_name) && company.clean_name !== survivorName) {
+      aliasCandidates.set(`clean_name|${company.clean_name}`, {
+        kind: "clean_name",
+        value: company.clean_name,
+      });
+    }
+  }
+  const taken =
+    aliasCandidates.size > 0
+      ? await repo.select<CompanyAlias>("company_aliases", {
+          columns: ["kind", "value"],
+          filters: [
+            inList(
+              "value",
+              Array.from(aliasCandidates.values(), (alias) => alias.value)
+            ),
+          ],
+        })
+      : [];
+  for (const alias of taken) aliasCandidates.delete(`${alias.kind}|${alias.value}`);
+
+  const plan = {
+    survivor_id: survivor.id as string,
+    merged_company_ids: mergedIds,
+    field_sources: fieldSources,
+    snapshot: {
+      companies,
+      job_posts: jobPosts,
+      vacancies,
+      company_people_moved: linksToMove,
+      company_domains: domains,
+      company_enrichments: enrichments,
+      company_aliases_moved: aliases,
+      company_aliases_added: Array.from(aliasCandidates.values()),
+      company_people_deleted: linksToDelete,
+      survivor_fields: survivorFields,
+    } satisfies CompanyMergeSnapshot,
+  };
+  if (dry_run) {
+    return mergeResult(plan, { merge_id: null, resumed: false, dry_run });
+  }
+
+  // Recorded first, so a merge that fails half-way can be finished or reverted
+  const [record] = await repo.insert<CompanyMergeRecord>("company_merges", [
+    { ...plan, reason },
+  ]);
+  await applyCompanyMerge(record);
+
+  console.log(
+    `[Merge] Merged ${mergedIds.length} companies into ${survivor.id} (merge ${record.id})`
+  );
+  return mergeResult(record, { merge_id: record.id, resumed: false, dry_run });
+}
+
+/**
+ * Undo a merge: restore the merged companies with their original ids, move
+ * their job posts, vacancies, links, domains, aliases and enrichments back,
+ * drop the aliases the merge added and reset filled survivor fields.
+ * Data added to the survivor after the merge stays with the survivor.
+ */
+export async function revertCompanyMerge(
+  mergeId: string
+): Promise<CompanyMergeRecord> {
+  const repo = getRepository();
+  const [record] = await repo.select<CompanyMergeRecord>("company_merges", {
+    filters: [eq("id", mergeId)],
+    limit: 1,
+  });
+  if (!record) {
+    throw new CompanyMergeError(`Merge not found: ${mergeId}`, 404);
+  }
+  if (record.reverted_at) {
+    throw new CompanyMergeError(`Merge ${mergeId} was already reverted`);
+  }
+
+  const { snapshot, survivor_id: survivorId } = record;
+
+  // Reset survivor fields first so unique values can return to their company
+  if (Object.keys(snapshot.survivor_fields).length > 0) {
+    await repo.update(
+      "companies",
+      [eq("id", survivorId)],
+      snapshot.survivor_fields
+    );
+  }
+
+  const mergedCompanies = snapshot.companies.filter((c) => c.id !== survivorId);
+  await repo.upsert("companies", mergedCompanies, { onConflict: ["id"] });
+
+  for (const jobPost of snapshot.job_posts) {
+    await repo.update("job_posts", [eq("id", jobPost.id)], {
+      company_id: jobPost.company_id,
+    });
+  }
+  for (const vacancy of snapshot.vacancies) {
+    await repo.update("vacancies", [eq("id", vacancy.id)], {
+      company_id: vacancy.company_id,
+    });
+  }
+  for (const link of snapshot.company_people_moved) {
+    await repo.update(
+      "company_people",
+      linkFilters({ ...link, company_id: survivorId }),
+      { company_id: link.company_id }
+    );
+  }
+  if (snapshot.company_people_deleted.length > 0) {
+    await repo.upsert("company_people", snapshot.company_people_deleted);
+  }
+  for (const domain of snapshot.company_domains ?? []) {
+    await repo.update("company_domains", [eq("id", domain.id)], {
+      company_id: domain.company_id,
+      is_primary: domain.is_primary,
+    });
+  }
+  for (const enrichment of snapshot.company_enrichments ?? []) {
+    await repo.update("company_enrichments", [eq("id", enrichment.id)], {
+      company_id: enrichment.company_id,
+    });
+  }
+  for (const alias of snapshot.company_aliases_moved ?? []) {
+    await repo.update("company_aliases", [eq("id", alias.id)], {
+      company_id: alias.company_id,
+    });
+  }
+  for (const alias of snapshot.company_aliases_added ?? []) {
+    await repo.delete("company_aliases", [
+      eq("company_id", survivorId),
+      eq("kind", alias.kind),
+      eq("value", alias.value),
+    ]);
+  }
+
+  const [reverted] = await repo.update<CompanyMergeRecord>(
+    "company_merges",
+    [eq("id", mergeId)],
+    { reverted_at: new Date().toISOString() }
+  );
+
+  console.log(`[Merge] Reverted merge ${mergeId}`);
+  return reverted;
+}
+
+/**
+ * Merge records involving a company (as survivor), newest first
+ */
+export async function listCompanyMerges(
+  params: { survivor_id?: string; limit?: number } = {}
+): Promise<Omit<CompanyMergeRecord, "snapshot">[]> {
+  const records = await getRepository().select<CompanyMergeRecord>(
+    "company_merges",
+    {
+      filters: params.survivor_id ? [eq("survivor_id", params.survivor_id)] : [],
+      orderBy: [{ column: "created_at", ascending: false }],
+      limit: params.limit ?? 50,
+    }
+  );
+  return records.map(({ snapshot, ...record }) => record);
+}
@@ -0,0 +1,210 @@
+/**
+ * Company 360 view (GET /companies/:id): everything known about one account -
+ * the company record with its domain aliases, all job posts with their
+ * sources, linked people grouped by company_people role, hiring velocity
+ * (posts per month) and the enrichment log.
+ */
+
+import { getRepository, eq, inList, Row } from "./repository";
+import { EnrichedJobPost } from "./db";
+import { CompanyDomain, listCompanyDomains } from "./company-domains";
+import {
+  CompanyEnrichment,
+  listCompanyEnrichments,
+} from "./company-enrichments";
+import { bestContactPoints } from "./contact-points";
+import { PersonRole } from "./role-classification";
+
+export class CompanyOverviewError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = statusCode === 404 ? "Not Found" : "Bad Request";
+  }
+}
+
+const JOB_POST_COLUMNS = [
+  "id",
+  "board",
+  "external_id",
+  "finn_url",
+  "title",
+  "location",
+  "employment_type",
+  "publication_date",
+  "expiration_date",
+  "sector",
+  "industries",
+  "source",
+  "created_at",
+  "vacancy_id",
+];
+
+export type CompanyOverviewJobPost = Pick<
+  EnrichedJobPost["job_post"],
+  | "id"
+  | "board"
+  | "external_id"
+  | "finn_url"
+  | "title"
+  | "location"
+  | "employment_type"
+  | "publication_date"
+  | "expiration_date"
+  | "sector"
+  | "industries"
+  | "source"
+  | "created_at"
+  | "vacancy_id"
+> & {
+  // Every source that sent the post (job_posts.source split)
+  sources: string[];
+};
+
+export type CompanyOverviewPerson =
+  EnrichedJobPost["decision_makers"][number] & {
+    seniority: string | null;
+    department: string | null;
+  };
+
+export type CompanyOverview = {
+  // Full companies row
+  company: Row;
+  domains: CompanyDomain[];
+  // Newest first
+  job_posts: CompanyOverviewJobPost[];
+  // company_people links by role; a person can be listed under several roles
+  people: Record<PersonRole, CompanyOverviewPerson[]>;
+  // Posts per month (publication date, else when we first saw the post),
+  // oldest first, months without posts included
+  hiring_velocity: { month: string; posts: number }[];
+  // Enrichments that filled company fields, oldest first
+  enrichments: CompanyEnrichment[];
+};
+
+/**
+ * "YYYY-MM" months from the first to the last month with posts
+ */
+function postsPerMonth(
+  dates: (string | null | undefined)[]
+): CompanyOverview["hiring_velocity"] {
+  const counts = new Map<string, number>();
+  for (const date of dates) {
+    const month = date?.slice(0, 7);
+    if (!month || !/^\d{4}-\d{2}$/.test(month)) continue;
+    counts.set(month, (counts.get(month) ?? 0) + 1);
+  }
+  const months = Array.from(counts.keys()).sort();
+  if (months.length === 0) return [];
+
+  const result: CompanyOverview["hiring_velocity"] = [];
+  let [year, month] = months[0].split("-").map(Number);
+  const last = months[months.length - 1];
+  for (;;) {
+    const key = `${year}-${String(month).padStart(2, "0")}`;
+    result.push({ month: key, posts: counts.get(key) ?? 0 });
+    if (key === last) return result;
+    month = month === 12 ? 1 : month + 1;
+    if (month === 1) year++;
+  }
+}
+
+/**
+ * Linked people grouped by their company_people role, with the best recorded
+ * email / phone / LinkedIn
+ */
+async function getCompanyPeopleByRole(
+  companyId: string
+): Promise<CompanyOverview["people"]> {
+  const repo = getRepository();
+  const grouped: CompanyOverview["people"] = {
+    decision_maker: [],
+    recruiter: [],
+    contact_person: [],
+    other: [],
+  };
+  const links = await repo.select<{ person_id: string; role: PersonRole }>(
+    "company_people",
+    {
+      columns: ["person_id", "role"],
+      filters: [eq("company_id", companyId)],
+      orderBy: [{ column: "created_at", ascending: true }],
+    }
+  );
+  const personIds = Array.from(new Set(links.map((link) => link.person_id)));
+  if (personIds.length === 0) return grouped;
+
+  const [people, best] = await Promise.all([
+    repo.select<CompanyOverviewPerson>("people", {
+      columns: [
+        "id",
+        "full_name",
+        "title",
+        "email",
+        "phone",
+        "linkedin_url",
+        "seniority",
+        "department",
+      ],
+      filters: [inList("id", personIds)],
+    }),
+    bestContactPoints(personIds),
+  ]);
+  const byId = new Map(people.map((person) => [person.id, person]));
+  for (const link of links) {
+    const person = byId.get(link.person_id);
+    if (!person) continue;
+    (grouped[link.role] ?? grouped.other).push({
+      ...person,
+      seniority: person.seniority ?? null,
+      department: person.department ?? null,
+      ...best.get(person.id),
+    });
+  }
+  return grouped;
+}
+
+export async function getCompanyOverview(
+  companyId: string
+): Promise<CompanyOverview> {
+  const repo = getRepository();
+  const [company] = await repo.select("companies", {
+    filters: [eq("id", companyId)],
+    limit: 1,
+  });
+  if (!company) {
+    throw new CompanyOverviewError(`Company not found: ${companyId}`, 404);
+  }
+
+  const [domains, jobPosts, people, enrichments] = await Promise.all([
+    listCompanyDomains(companyId),
+    repo.select("job_posts", {
+      columns: JOB_POST_COLUMNS,
+      filters: [eq("company_id", companyId)],
+      orderBy: [
+        { column: "created_at", ascending: false },
+        { column: "id", ascending: false },
+      ],
+    }),
+    getCompanyPeopleByRole(companyId),
+    listCompanyEnrichments(companyId),
+  ]);
+
+  return {
+    company,
+    domains,
+    job_posts: jobPosts.map((jobPost) => ({
+      ...(Object.fromEntries(
+        JOB_POST_COLUMNS.map((column) => [column, jobPost[column] ?? null])
+      ) as Omit<CompanyOverviewJobPost, "sources">),
+      sources: String(jobPost.source ?? "")
+        .split(",")
+        .map((source) => source.trim())
+        .filter(Boolean),
+    })),
+    people,
+    hiring_velocity: postsPerMonth(
+      jobPosts.map((jobPost) => jobPost.publication_date ?? jobPost.created_at)
+    ),
+    enrichments,
+  };
+}
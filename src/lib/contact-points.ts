@@ -0,0 +1,274 @@
+/**
+ * Contact points per person (leadgen.contact_points).
+ *
+ * people.email / phone / linkedin_url hold one value each and enrichment only
+ * fills them when empty, so every email, phone number and LinkedIn profile a
+ * source sends is also recorded here with the source, first/last seen and a
+ * validity status. Matching (findExistingPerson) looks up any recorded value,
+ * and the Clay payload sends the best value per kind (bestContactPoints).
+ */
+
+import { getRepository, eq, inList } from "./repository";
+import {
+  canonicalizeLinkedInUrl,
+  normalizeEmail,
+  normalizePhone,
+} from "./normalize";
+import { emailType, personEmail } from "./email";
+import { phoneLineType } from "./phone";
+
+export type ContactPointKind = "email" | "phone" | "linkedin";
+
+// unverified: never checked; valid: confirmed (reply, verified by a provider);
+// invalid: bounced / not in service - kept for matching, never sent out
+export const CONTACT_POINT_STATUSES = [
+  "unverified",
+  "valid",
+  "invalid",
+] as const;
+
+export type ContactPointStatus = (typeof CONTACT_POINT_STATUSES)[number];
+
+export class ContactPointError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = statusCode === 404 ? "Not Found" : "Bad Request";
+  }
+}
+
+export type ContactPoint = {
+  id: string;
+  person_id: string;
+  kind: ContactPointKind;
+  // Normalized value: lowercase email, E.164 phone, canonical LinkedIn URL
+  value: string;
+  // email_type for emails, line type for phones
+  value_type: string | null;
+  status: ContactPointStatus;
+  // Source that first sent the value (ingest source, "clay", "import"...)
+  source: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  created_at: string;
+};
+
+/**
+ * Normalized value and type, or null when the value is empty or invalid
+ */
+export function normalizeContactPoint(
+  kind: ContactPointKind,
+  value?: string | null
+): { value: string; value_type: string | null } | null {
+  if (kind === "email") {
+    const email = normalizeEmail(value);
+    return email ? { value: email, value_type: emailType(email) } : null;
+  }
+  if (kind === "phone") {
+    const phone = normalizePhone(value);
+    return phone ? { value: phone, value_type: phoneLineType(phone) } : null;
+  }
+  const url = canonicalizeLinkedInUrl(value);
+  return url ? { value: url, value_type: null } : null;
+}
+
+export async function listContactPoints(
+  personId: string
+): Promise<ContactPoint[]> {
+  return getRepository().select<ContactPoint>("contact_points", {
+    filters: [eq("person_id", personId)],
+    orderBy: [
+      { column: "kind", ascending: true },
+      { column: "last_seen_at", ascending: false },
+    ],
+  });
+}
+
+/**
+ * Person having a contact point, or null. Role emails (post@, salg@...) are
+ * shared mailboxes and never identify a person.
+ */
+export async function findPersonIdByContactPoint(
+  kind: ContactPointKind,
+  value?: string | null
+): Promise<string | null> {
+  const normalized =
+    kind === "email"
+      ? personEmail(value)
+      : normalizeContactPoint(kind, value)?.value;
+  if (!normalized) return null;
+  const [point] = await getRepository().select<ContactPoint>(
+    "contact_points",
+    {
+      columns: ["person_id"],
+      filters: [eq("kind", kind), eq("value", normalized)],
+      orderBy: [{ column: "last_seen_at", ascending: false }],
+      limit: 1,
+    }
+  );
+  return point?.person_id ?? null;
+}
+
+/**
+ * Record that a value was seen for a person. Returns the contact point, or
+ * null when the value is empty or invalid.
+ */
+export async function recordContactPoint(params: {
+  person_id: string;
+  kind: ContactPointKind;
+  value?: string | null;
+  source?: string | null;
+}): Promise<ContactPoint | null> {
+  const normalized = normalizeContactPoint(params.kind, params.value);
+  if (!normalized) return null;
+  const repo = getRepository();
+  const now = new Date().toISOString();
+
+  const [existing] = await repo.select<ContactPoint>("contact_points", {
+    filters: [
+      eq("person_id", params.person_id),
+      eq("kind", params.kind),
+      eq("value", normalized.value),
+    ],
+    limit: 1,
+  });
+  if (existing) {
+    const [seen] = await repo.update<ContactPoint>(
+      "contact_points",
+      [eq("id", existing.id)],
+      { value_type: normalized.value_type, last_seen_at: now }
+    );
+    return seen;
+  }
+
+  const [point] = await repo.upsert<ContactPoint>(
+    "contact_points",
+    [
+      {
+        person_id: params.person_id,
+        kind: params.kind,
+        value: normalized.value,
+        value_type: normalized.value_type,
+        status: "unverified",
+        source: params.source ?? null,
+        first_seen_at: now,
+        last_seen_at: now,
+      },
+    ],
+    { onConflict: ["person_id", "kind", "value"] }
+  );
+  return point;
+}
+
+/**
+ * Record a person's email, phone and LinkedIn profile as sent by a source
+ */
+export async function recordPersonContactPoints(
+  personId: string,
+  values: {
+    email?: string | null;
+    phone?: string | null;
+    linkedin_url?: string | null;
+  },
+  source?: string | null
+): Promise<void> {
+  await recordContactPoint({
+    person_id: personId,
+    kind: "email",
+    value: values.email,
+    source,
+  });
+  await recordContactPoint({
+    person_id: personId,
+    kind: "phone",
+    value: values.phone,
+    source,
+  });
+  await recordContactPoint({
+    person_id: personId,
+    kind: "linkedin",
+    value: values.linkedin_url,
+    source,
+  });
+}
+
+export async function setContactPointStatus(
+  id: string,
+  status: ContactPointStatus
+): Promise<ContactPoint> {
+  const [point] = await getRepository().update<ContactPoint>(
+    "contact_points",
+    [eq("id", id)],
+    { status }
+  );
+  if (!point) {
+    throw new ContactPointError(`Contact point not found: ${id}`, 404);
+  }
+  console.log(`[Contacts] ${point.kind} ${point.value} marked ${status}`);
+  return point;
+}
+
+// Lower is better: personal address before free mail before shared mailbox,
+// mobile before landline
+const TYPE_RANK: Record<string, number> = {
+  personal: 0,
+  free_mail: 1,
+  role: 2,
+  mobile: 0,
+  landline: 1,
+};
+
+const STATUS_RANK: Record<ContactPointStatus, number> = {
+  valid: 0,
+  unverified: 1,
+  invalid: 2,
+};
+
+const typeRank = (point: ContactPoint) =>
+  TYPE_RANK[point.value_type ?? ""] ?? 2;
+
+function compareContactPoints(a: ContactPoint, b: ContactPoint): number {
+  return (
+    STATUS_RANK[a.status] - STATUS_RANK[b.status] ||
+    typeRank(a) - typeRank(b) ||
+    String(b.last_seen_at).localeCompare(String(a.last_seen_at))
+  );
+}
+
+export type BestContactPoints = {
+  email: string | null;
+  phone: string | null;
+  linkedin_url: string | null;
+};
+
+/**
+ * Best email / phone / LinkedIn profile per person: valid before unverified,
+ * then by type, then most recently seen. Invalid values are never picked. A
+ * kind without any contact point is left out, so callers can fall back to the
+ * people column.
+ */
+export async function bestContactPoints(
+  personIds: string[]
+): Promise<Map<string, Partial<BestContactPoints>>> {
+  const best = new Map<string, Partial<BestContactPoints>>();
+  if (personIds.length === 0) return best;
+
+  const points = await getRepository().select<ContactPoint>("contact_points", {
+    filters: [inList("person_id", personIds)],
+  });
+  points.sort(compareContactPoints);
+
+  const fields: Record<ContactPointKind, keyof BestContactPoints> = {
+    email: "email",
+    phone: "phone",
+    linkedin: "linkedin_url",
+  };
+  for (const point of points) {
+    const values = best.get(point.person_id) ?? {};
+    const field = fields[point.kind];
+    if (!(field in values)) {
+      values[field] = point.status === "invalid" ? null : point.value;
+    }
+    best.set(point.person_id, values);
+  }
+  return best;
+}
@@ -0,0 +1,498 @@
+/**
+ * HubSpot CRM sync.
+ *
+ * Upserts companies, their people (company_people) as contacts and the
+ * contact-company associations into HubSpot. leadgen.crm_sync_state stores
+ * the HubSpot id of each synced company / person and the hash of what was
+ * last sent, so unchanged records cost no API calls. Records without a
+ * stored id are looked up first - companies by domain, then orgnr; contacts
+ * by email - and created when HubSpot has no match. People without an email
+ * are not synced. Failed records are retried on the next runs, oldest attempt
+ * first, up to CRM_MAX_ATTEMPTS times in a row.
+ */
+
+import crypto from "node:crypto";
+import { getRepository, eq, lt, Row } from "./repository";
+import { bestContactPoints } from "./contact-points";
+import {
+  getSyncPosition,
+  saveSyncPosition,
+  selectChangedRows,
+  lastPosition,
+  SyncPosition,
+} from "./sync-cursors";
+import {
+  createHubSpotFetcher,
+  createHubSpotObject,
+  updateHubSpotObject,
+  searchHubSpotObject,
+  associateHubSpotContact,
+  getHubSpotPropertyMap,
+  toHubSpotProperties,
+  splitFullName,
+  HubSpotFetcher,
+  HubSpotObjectType,
+  HubSpotPropertyMap,
+} from "./hubspot";
+
+export const CRM_PROVIDER = "hubspot";
+export const CRM_COMPANIES_CURSOR = "hubspot-companies";
+export const CRM_PEOPLE_CURSOR = "hubspot-people";
+// Failed syncs of a record retried by later runs; after that only a change
+// to the record sends it again
+export const CRM_MAX_ATTEMPTS = 5;
+
+export type CrmEntityType = "company" | "person";
+
+export type CrmSyncState = {
+  provider: string;
+  entity_type: CrmEntityType;
+  entity_id: string;
+  external_id: string | null;
+  payload_hash: string | null;
+  status: "synced" | "failed";
+  last_error: string | null;
+  // Failed attempts in a row
+  attempts: number;
+  last_attempt_at: string | null;
+  synced_at: string | null;
+};
+
+export type CrmSyncOutcome = {
+  entity_type: CrmEntityType;
+  entity_id: string;
+  status: "created" | "updated" | "unchanged" | "skipped" | "failed";
+  external_id: string | null;
+  error?: string;
+};
+
+export type CrmSyncOptions = {
+  fetcher?: HubSpotFetcher;
+  propertyMap?: HubSpotPropertyMap;
+  // Outcomes so far by "entity_type:entity_id": a record that comes up again
+  // (e.g. a company of several people) is not sent, or counted as a failed
+  // attempt, twice
+  outcomes?: Map<string, CrmSyncOutcome>;
+};
+
+const OBJECT_TYPES: Record<CrmEntityType, HubSpotObjectType> = {
+  company: "companies",
+  person: "contacts",
+};
+
+export async function getCrmSyncState(
+  entityType: CrmEntityType,
+  entityId: string
+): Promise<CrmSyncState | null> {
+  const [state] = await getRepository().select<CrmSyncState>(
+    "crm_sync_state",
+    {
+      filters: [
+        eq("provider", CRM_PROVIDER),
+        eq("entity_type", entityType),
+        eq("entity_id", entityId),
+      ],
+      limit: 1,
+    }
+  );
+  return state ?? null;
+}
+
+async function saveCrmSyncState(
+  state: Omit<CrmSyncState, "provider" | "synced_at" | "last_attempt_at">
+) {
+  const now = new Date().toISOString();
+  await getRepository().upsert(
+    "crm_sync_state",
+    [
+      {
+        provider: CRM_PROVIDER,
+        ...state,
+        last_attempt_at: now,
+        ...(state.status === "synced" && { synced_at: now }),
+      },
+    ],
+    { onConflict: ["provider", "entity_type", "entity_id"] }
+  );
+}
+
+// Deleted (e.g. merged away): nothing left to sync or retry
+async function forgetCrmSyncState(
+  entityType: CrmEntityType,
+  entityId: string
+): Promise<CrmSyncOutcome> {
+  await getRepository().delete("crm_sync_state", [
+    eq("provider", CRM_PROVIDER),
+    eq("entity_type", entityType),
+    eq("entity_id", entityId),
+  ]);
+  return {
+    entity_type: entityType,
+    entity_id: entityId,
+    status: "skipped",
+    external_id: null,
+  };
+}
+
+/**
+ * Create or update one HubSpot object unless the same payload was already
+ * synced. `lookups` ([property, value]) find an existing object when we have
+ * no stored id (or it was deleted in HubSpot); `afterSync` runs with the
+ * object id before the state is saved.
+ */
+async function pushCrmObject(params: {
+  entity_type: CrmEntityType;
+  entity_id: string;
+  properties: Record<string, string>;
+  lookups: [string, string | null | undefined][];
+  // Hashed with the properties (e.g. associated company ids)
+  hashExtra?: unknown;
+  afterSync?: (externalId: string) => Promise<void>;
+  fetcher: HubSpotFetcher;
+  outcomes?: Map<string, CrmSyncOutcome>;
+}): Promise<CrmSyncOutcome> {
+  const key = `${params.entity_type}:${params.entity_id}`;
+  const known = params.outcomes?.get(key);
+  if (known) return known;
+  const outcome = await sendCrmObject(params);
+  params.outcomes?.set(key, outcome);
+  return outcome;
+}
+
+async function sendCrmObject(
+  params: Parameters<typeof pushCrmObject>[0]
+): Promise<CrmSyncOutcome> {
+  const { entity_type, entity_id, properties, fetcher } = params;
+  const type = OBJECT_TYPES[entity_type];
+  const payloadHash = crypto
+    .createHash("sha256")
+    .update(JSON.stringify([properties, params.hashExtra ?? null]))
+    .digest("hex");
+
+  const state = await getCrmSyncState(entity_type, entity_id);
+  if (
+    state?.external_id &&
+    state.status === "synced" &&
+    state.payload_hash === payloadHash
+  ) {
+    return {
+      entity_type,
+      entity_id,
+      status: "unchanged",
+      external_id: state.external_id,
+    };
+  }
+
+  let externalId: string | null = state?.external_id ?? null;
+  try {
+    let status: CrmSyncOutcome["status"] = "updated";
+    if (externalId) {
+      const updated = await updateHubSpotObject(
+        type,
+        externalId,
+        properties,
+        fetcher
+      );
+      externalId = updated?.id ?? null;
+    }
+    for (const [property, value] of params.lookups) {
+      if (externalId || !value) continue;
+      const match = await searchHubSpotObject(type, property, value, fetcher);
+      if (match) {
+        await updateHubSpotObject(type, match.id, properties, fetcher);
+        externalId = match.id;
+      }
+    }
+    if (!externalId) {
+      externalId = (await createHubSpotObject(type, properties, fetcher)).id;
+      status = "created";
+    }
+    await params.afterSync?.(externalId);
+
+    await saveCrmSyncState({
+      entity_type,
+      entity_id,
+      external_id: externalId,
+      payload_hash: payloadHash,
+      status: "synced",
+      last_error: null,
+      attempts: 0,
+    });
+    return { entity_type, entity_id, status, external_id: externalId };
+  } catch (err: any) {
+    const error = err?.message ?? String(err);
+    const attempts = (state?.status === "failed" ? state.attempts ?? 0 : 0) + 1;
+    console.error(
+      `[HubSpot] ${entity_type} ${entity_id} failed (attempt ${attempts}/${CRM_MAX_ATTEMPTS}): ${error}`
+    );
+    await saveCrmSyncState({
+      entity_type,
+      entity_id,
+      external_id: externalId,
+      payload_hash: null,
+      status: "failed",
+      last_error: error,
+      attempts,
+    });
+    return { entity_type, entity_id, status: "failed", external_id: externalId, error };
+  }
+}
+
+/**
+ * Upsert one company (matched by domain, then orgnr)
+ */
+export async function pushCompanyToCrm(
+  companyId: string,
+  options: CrmSyncOptions = {}
+): Promise<CrmSyncOutcome> {
+  const {
+    fetcher = createHubSpotFetcher(),
+    propertyMap = getHubSpotPropertyMap(),
+  } = options;
+  const [company] = await getRepository().select("companies", {
+    filters: [eq("id", companyId)],
+    limit: 1,
+  });
+  if (!company) return forgetCrmSyncState("company", companyId);
+
+  const map = propertyMap.companies;
+  return pushCrmObject({
+    entity_type: "company",
+    entity_id: companyId,
+    properties: toHubSpotProperties(company, map),
+    lookups: [
+      [map.clean_domain ?? "", company.clean_domain],
+      [map.orgnr ?? "", company.orgnr],
+    ].filter(([property]) => property) as [string, string | null][],
+    fetcher,
+    outcomes: options.outcomes,
+  });
+}
+
+/**
+ * Upsert one person as a contact (matched by email) and associate it with
+ * the HubSpot companies of its company_people links, pushing those first
+ */
+export async function syncPersonToCrm(
+  personId: string,
+  options: CrmSyncOptions = {}
+): Promise<{ contact: CrmSyncOutcome; companies: CrmSyncOutcome[] }> {
+  const {
+    fetcher = createHubSpotFetcher(),
+    propertyMap = getHubSpotPropertyMap(),
+  } = options;
+  const repo = getRepository();
+  const [[person], links, best] = await Promise.all([
+    repo.select("people", { filters: [eq("id", personId)], limit: 1 }),
+    repo.select("company_people", {
+      columns: ["company_id", "role"],
+      filters: [eq("person_id", personId)],
+    }),
+    bestContactPoints([personId]),
+  ]);
+  if (!person) {
+    return {
+      contact: await forgetCrmSyncState("person", personId),
+      companies: [],
+    };
+  }
+  const values: Row = {
+    ...person,
+    ...best.get(personId),
+    ...splitFullName(person.full_name ?? ""),
+    roles: Array.from(new Set(links.map((link) => link.role))).join(","),
+  };
+  if (!values.email) {
+    return {
+      contact: {
+        entity_type: "person",
+        entity_id: personId,
+        status: "skipped",
+        external_id: null,
+      },
+      companies: [],
+    };
+  }
+
+  const companies: CrmSyncOutcome[] = [];
+  for (const companyId of new Set(links.map((link) => link.company_id))) {
+    companies.push(
+      await pushCompanyToCrm(companyId, {
+        fetcher,
+        propertyMap,
+        outcomes: options.outcomes,
+      })
+    );
+  }
+  const companyIds = companies
+    .map((outcome) => outcome.external_id)
+    .filter((id): id is string => Boolean(id))
+    .sort();
+
+  const map = propertyMap.contacts;
+  const contact = await pushCrmObject({
+    entity_type: "person",
+    entity_id: personId,
+    properties: toHubSpotProperties(values, map),
+    lookups: [[map.email!, values.email]],
+    hashExtra: { companies: companyIds },
+    afterSync: async (contactId) => {
+      for (const companyId of companyIds) {
+        await associateHubSpotContact(contactId, companyId, fetcher);
+      }
+    },
+    fetcher,
+    outcomes: options.outcomes,
+  });
+  return { contact, companies };
+}
+
+/**
+ * Upsert a company and all of its people with their associations.
+ * `companies`: the people's other companies, pushed along with them.
+ */
+export async function syncCompanyToCrm(
+  companyId: string,
+  options: CrmSyncOptions = {}
+): Promise<{
+  company: CrmSyncOutcome;
+  contacts: CrmSyncOutcome[];
+  companies: CrmSyncOutcome[];
+}> {
+  const resolved = {
+    fetcher: options.fetcher ?? createHubSpotFetcher(),
+    propertyMap: options.propertyMap ?? getHubSpotPropertyMap(),
+    outcomes: options.outcomes,
+  };
+  const company = await pushCompanyToCrm(companyId, resolved);
+  if (company.status === "failed" || company.status === "skipped") {
+    return { company, contacts: [], companies: [] };
+  }
+
+  const links = await getRepository().select("company_people", {
+    columns: ["person_id"],
+    filters: [eq("company_id", companyId)],
+  });
+  const contacts: CrmSyncOutcome[] = [];
+  const companies: CrmSyncOutcome[] = [];
+  for (const personId of new Set(links.map((link) => link.person_id))) {
+    const synced = await syncPersonToCrm(personId, resolved);
+    contacts.push(synced.contact);
+    companies.push(
+      ...synced.companies.filter((outcome) => outcome.entity_id !== companyId)
+    );
+  }
+  return { company, contacts, companies };
+}
+
+type OutcomeCounts = Record<CrmSyncOutcome["status"], number>;
+
+export type CrmSyncRunResult = {
+  companies: OutcomeCounts;
+  contacts: OutcomeCounts;
+  // Failed records from earlier runs tried again
+  retried: number;
+  // (updated_at, id) of the last company / person read
+  cursors: { companies: SyncPosition | null; people: SyncPosition | null };
+};
+
+/**
+ * Sync companies and people changed (updated_at) since the saved positions,
+ * after retrying records whose last sync failed (least recently attempted
+ * first, fewer than CRM_MAX_ATTEMPTS failures). The first run starts from the
+ * oldest record, `limit` companies and people at a time.
+ */
+export async function syncChangesToCrm(
+  params: CrmSyncOptions & { limit?: number } = {}
+): Promise<CrmSyncRunResult> {
+  const { limit = 50 } = params;
+  const options = {
+    fetcher: params.fetcher ?? createHubSpotFetcher(),
+    propertyMap: params.propertyMap ?? getHubSpotPropertyMap(),
+    // Each record is sent at most once per run
+    outcomes: params.outcomes ?? new Map<string, CrmSyncOutcome>(),
+  };
+  const repo = getRepository();
+  const counts = (): OutcomeCounts => ({
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    skipped: 0,
+    failed: 0,
+  });
+  const result: CrmSyncRunResult = {
+    companies: counts(),
+    contacts: counts(),
+    retried: 0,
+    cursors: {
+      companies: await getSyncPosition(CRM_COMPANIES_CURSOR),
+      people: await getSyncPosition(CRM_PEOPLE_CURSOR),
+    },
+  };
+  // A company or person can come up several times per run; count it once
+  const seen = new Set<string>();
+  const count = (outcome: CrmSyncOutcome) => {
+    const key = `${outcome.entity_type}:${outcome.entity_id}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    const bucket =
+      outcome.entity_type === "company" ? result.companies : result.contacts;
+    bucket[outcome.status]++;
+  };
+
+  const failed = await repo.select<CrmSyncState>("crm_sync_state", {
+    columns: ["entity_type", "entity_id"],
+    filters: [
+      eq("provider", CRM_PROVIDER),
+      eq("status", "failed"),
+      lt("attempts", CRM_MAX_ATTEMPTS),
+    ],
+    orderBy: [
+      { column: "last_attempt_at", ascending: true },
+      { column: "entity_id", ascending: true },
+    ],
+    limit,
+  });
+  result.retried = failed.length;
+  for (const state of failed) {
+    if (state.entity_type === "company") {
+      const synced = await syncCompanyToCrm(state.entity_id, options);
+      [synced.company, ...synced.contacts, ...synced.companies].forEach(count);
+    } else {
+      const synced = await syncPersonToCrm(state.entity_id, options);
+      [synced.contact, ...synced.companies].forEach(count);
+    }
+  }
+
+  const changed = async (table: string, after: SyncPosition | null) =>
+    selectChangedRows(table, {
+      column: "updated_at",
+      after,
+      columns: ["id", "updated_at"],
+      limit,
+    });
+
+  const companies = await changed("companies", result.cursors.companies);
+  for (const company of companies) {
+    const synced = await syncCompanyToCrm(company.id, options);
+    [synced.company, ...synced.contacts, ...synced.companies].forEach(count);
+  }
+  const companiesRead = lastPosition(companies, "updated_at");
+  if (companiesRead) {
+    result.cursors.companies = companiesRead;
+    await saveSyncPosition(CRM_COMPANIES_CURSOR, companiesRead);
+  }
+
+  const people = await changed("people", result.cursors.people);
+  for (const person of people) {
+    const synced = await syncPersonToCrm(person.id, options);
+    [synced.contact, ...synced.companies].forEach(count);
+  }
+  const peopleRead = lastPosition(people, "updated_at");
+  if (peopleRead) {
+    result.cursors.people = peopleRead;
+    await saveSyncPosition(CRM_PEOPLE_CURSOR, peopleRead);
+  }
+
+  return result;
+}
@@ -1,6 +1,6 @@
-import { supabase } from "./supabase";
+import { getRepository, eq, inList, gte, Filter, Row } from "./repository";
 import {
-  normalizeDomainHost,
+  normalizeCompanyDomain,
   nameSlug,
   normalizeOrgnr,
   normalizeCompanyNameForMatching,
@@ -9,6 +9,25 @@ import {
   normalizeEmail,
   normalizePhone,
 } from "./normalize";
+import { JobRef, parseJobReference } from "./job-boards";
+import { CompanyMatchScore, findFuzzyCompanyMatch } from "./company-matching";
+import { distinctPairKeys, queueMatchReview } from "./match-reviews";
+import { findCompanyIdByAlias } from "./company-merge";
+import { PhoneLineType, phoneLineType } from "./phone";
+import { EmailType, emailType, personEmail } from "./email";
+import {
+  expandDomainAliases,
+  findCompanyIdByDomain,
+  recordCompanyDomain,
+} from "./company-domains";
+import {
+  ContactPointKind,
+  bestContactPoints,
+  findPersonIdByContactPoint,
+  recordPersonContactPoints,
+} from "./contact-points";
+import { personTitleFields } from "./role-classification";
+import { recordCompanyEnrichment } from "./company-enrichments";
 
 export type CompanyRecord = {
   company_key: string;
@@ -30,15 +49,25 @@ export type PersonRecord = {
   title?: string | null;
   email?: string | null;
   phone?: string | null;
+  phone_type?: PhoneLineType | null;
+  email_type?: EmailType | null;
   linkedin_url?: string | null;
+  // Title classification (role-classification.ts)
+  seniority?: string | null;
+  department?: string | null;
+  role_rules_version?: string | null;
   normalized_company_name?: string | null;
   normalized_company_domain?: string | null;
 };
 
 export type JobPostRecord = {
-  finn_id: string;
+  // Job identity: board name ("finn", "nav", ...) + the board's own id
+  board: string;
+  external_id: string;
+  // Compatibility alias for finn.no posts (null for other boards)
+  finn_id?: string | null;
   company_id: string; // UUID
-  finn_url: string;
+  finn_url: string; // Posting URL (any board; column name kept for compatibility)
   title?: string | null;
   description?: string | null;
   application_url?: string | null;
@@ -59,7 +88,11 @@ export type JobPostRecord = {
   raw_payload?: unknown;
 };
 
-type LinkRecord = { role: string };
+type LinkRecord = {
+  role: string;
+  // "title", "company", "clay" or "import" (migrations/029_link_role_source.sql)
+  role_source?: string | null;
+};
 type JobPostPersonRecord = LinkRecord & {
   job_post_id: string;
   person_id: string;
@@ -75,12 +108,27 @@ async function selectExistingKeys(
   keys: string[]
 ) {
   if (!keys.length) return new Set<string>();
-  const { data, error } = await supabase
-    .from(table)
-    .select(column)
-    .in(column, keys);
-  if (error) throw error;
-  return new Set((data ?? []).map((row: any) => row[column] as string));
+  const data = await getRepository().select(table, {
+    columns: [column],
+    filters: [inList(column, keys)],
+  });
+  return new Set(data.map((row) => row[column] as string));
+}
+
+/**
+ * Select the first row matching all filters, or null when none match
+ */
+async function selectFirst<T extends Row = Row>(
+  table: string,
+  filters: Filter[],
+  columns?: string[]
+): Promise<T | null> {
+  const [row] = await getRepository().select<T>(table, {
+    columns,
+    filters,
+    limit: 1,
+  });
+  return row ?? null;
 }
 
 async function upsertWithCounts<T extends { [k: string]: any }>(params: {
@@ -94,98 +142,175 @@ async function upsertWithCounts<T extends { [k: string]: any }>(params: {
   const existing = await selectExistingKeys(table, keyColumn, keys);
   const insertedKeys = keys.filter((k) => !existing.has(k));
   const updated = keys.length - insertedKeys.length;
-  const { data, error } = await supabase
-    .from(table)
-    .upsert(records, { onConflict: keyColumn })
-    .select();
-  if (error) throw error;
+  const data = await getRepository().upsert<T & { id: string }>(
+    table,
+    records,
+    { onConflict: [keyColumn] }
+  );
   return {
     inserted: insertedKeys.length,
     updated,
-    records: (data ?? []) as (T & { id: string })[],
+    records: data,
   };
 }
 
+export type CompanyMatch = {
+  id: string;
+  company_key: string;
+  method:
+    | "orgnr"
+    | "clean_domain"
+    | "domain_alias"
+    | "clean_name"
+    | "merge_alias"
+    | "company_key"
+    | "fuzzy";
+  // 1 for exact matches, the fuzzy score otherwise
+  confidence: number;
+  // Borderline fuzzy match: not used, queued for review instead
+  needs_review: boolean;
+  details?: CompanyMatchScore;
+};
+
 /**
  * Find an existing company by checking multiple fields in priority order:
  * 1. orgnr (if provided and matches)
- * 2. clean_domain (if provided and matches)
- * 3. clean_name (normalized company name without legal suffixes like AS/ASA/Ltd)
- * 4. company_key matching the name slug (legacy fallback)
+ * 2. clean_domain, then the company_domains aliases (other brands/domains)
+ * 3. clean_name (normalized company name without legal suffixes like AS/ASA/Ltd),
+ *    then the company_aliases of merged companies
+ * 4. company_key matching the name slug (legacy fallback), then company_aliases
+ * 5. fuzzy name + location similarity (see company-matching.ts)
  *
- * Returns the existing company's ID and company_key if found, null otherwise.
+ * Returns the match with its confidence, or null if nothing is similar enough.
+ * Fuzzy matches below COMPANY_MATCH_CONFIG.autoMergeThreshold are returned
+ * with needs_review set.
  */
 export async function findExistingCompany(params: {
   orgnr?: string | null;
   domain?: string | null;
   clean_domain?: string | null;
   name?: string | null;
-}): Promise<{ id: string; company_key: string } | null> {
-  const { orgnr, domain, clean_domain, name } = params;
+  location?: string | null;
+}): Promise<CompanyMatch | null> {
+  const { orgnr, domain, clean_domain, name, location } = params;
 
   // Normalize inputs for matching
   const normalizedOrgnr = normalizeOrgnr(orgnr);
-  const normalizedDomain = normalizeDomainHost(clean_domain || domain);
+  const normalizedDomain = normalizeCompanyDomain(clean_domain || domain);
   const normalizedCleanName = normalizeCompanyNameForMatching(name);
   const normalizedNameSlug = nameSlug(name);
 
+  const findBy = async (
+    method: CompanyMatch["method"],
+    value: string,
+    column: string = method
+  ) => {
+    const data = await selectFirst<{ id: string; company_key: string }>(
+      "companies",
+      [eq(column, value)],
+      ["id", "company_key"]
+    );
+    return data
+      ? {
+          id: data.id,
+          company_key: data.company_key,
+          method,
+          confidence: 1,
+          needs_review: false,
+        }
+      : null;
+  };
+
   // Priority 1: Check by orgnr
   if (normalizedOrgnr) {
-    const { data, error } = await supabase
-      .from("companies")
-      .select("id, company_key")
-      .eq("orgnr", normalizedOrgnr)
-      .limit(1)
-      .single();
-    // PGRST116 = no rows returned, which is expected when not found
-    if (error && error.code !== "PGRST116") throw error;
-    if (data) {
-      return { id: data.id, company_key: data.company_key };
-    }
+    const data = await findBy("orgnr", normalizedOrgnr);
+    if (data) return data;
   }
 
-  // Priority 2: Check by clean_domain
-  if (normalizedDomain && normalizedDomain !== "finn.no") {
-    const { data, error } = await supabase
-      .from("companies")
-      .select("id, company_key")
-      .eq("clean_domain", normalizedDomain)
-      .limit(1)
-      .single();
-    if (error && error.code !== "PGRST116") throw error;
-    if (data) {
-      return { id: data.id, company_key: data.company_key };
+  // Priority 2: Check by clean_domain, then by domain alias. Companies that
+  // reviewers marked distinct may share a domain (a group website); then the
+  // domain doesn't tell which one is meant and the name decides.
+  if (normalizedDomain) {
+    const sharing = await getRepository().select<{
+      id: string;
+      company_key: string;
+    }>("companies", {
+      columns: ["id", "company_key"],
+      filters: [eq("clean_domain", normalizedDomain)],
+      limit: 10,
+    });
+    const distinct = await distinctPairKeys(
+      "company",
+      sharing.map((c) => c.id)
+    );
+    if (sharing.length > 0 && distinct.size === 0) {
+      return {
+        id: sharing[0].id,
+        company_key: sharing[0].company_key,
+        method: "clean_domain",
+        confidence: 1,
+        needs_review: false,
+      };
+    }
+
+    const aliasCompanyId = await findCompanyIdByDomain(normalizedDomain);
+    if (aliasCompanyId && sharing.length === 0) {
+      const aliased = await findBy("domain_alias", aliasCompanyId, "id");
+      if (aliased) return aliased;
     }
   }
 
-  // Priority 3: Check by clean_name (handles variations like "AKVA Group" vs "AKVA Group ASA")
+  // Priority 3: Check by clean_name (handles variations like "AKVA Group" vs "AKVA Group ASA"),
+  // then by the clean_name of a company merged away
   if (normalizedCleanName) {
-    const { data, error } = await supabase
-      .from("companies")
-      .select("id, company_key")
-      .eq("clean_name", normalizedCleanName)
-      .limit(1)
-      .single();
-    if (error && error.code !== "PGRST116") throw error;
-    if (data) {
-      return { id: data.id, company_key: data.company_key };
+    const data = await findBy("clean_name", normalizedCleanName);
+    if (data) return data;
+
+    const aliasCompanyId = await findCompanyIdByAlias(
+      "clean_name",
+      normalizedCleanName
+    );
+    if (aliasCompanyId) {
+      const aliased = await findBy("merge_alias", aliasCompanyId, "id");
+      if (aliased) return aliased;
     }
   }
 
-  // Priority 4: Check by company_key matching the name slug (legacy fallback)
+  // Priority 4: Check by company_key matching the name slug (legacy fallback),
+  // then by the company_key of a company merged away
   if (normalizedNameSlug) {
-    const { data, error } = await supabase
-      .from("companies")
-      .select("id, company_key")
-      .eq("company_key", normalizedNameSlug)
-      .limit(1)
-      .single();
-    if (error && error.code !== "PGRST116") throw error;
-    if (data) {
-      return { id: data.id, company_key: data.company_key };
+    const data = await findBy("company_key", normalizedNameSlug);
+    if (data) return data;
+
+    const aliasCompanyId = await findCompanyIdByAlias(
+      "company_key",
+      normalizedNameSlug
+    );
+    if (aliasCompanyId) {
+      const aliased = await findBy("merge_alias", aliasCompanyId, "id");
+      if (aliased) return aliased;
     }
   }
 
+  // Priority 5: Fuzzy name match ("Sykehuset Innlandet" vs "Sykehuset Innlandet HF", typos)
+  const fuzzy = await findFuzzyCompanyMatch({
+    name,
+    location,
+    orgnr: normalizedOrgnr,
+    domain: normalizedDomain,
+  });
+  if (fuzzy) {
+    const { id, company_key, decision, name: _name, ...details } = fuzzy;
+    return {
+      id,
+      company_key,
+      method: "fuzzy",
+      confidence: details.confidence,
+      needs_review: decision === "review",
+      details,
+    };
+  }
+
   return null;
 }
 
@@ -193,9 +318,12 @@ export async function findExistingCompany(params: {
  * Smart upsert for a single company that checks multiple fields for existing matches.
  * If a match is found, updates the existing record. Otherwise, creates a new one.
  * Uses atomic operations to handle race conditions.
+ * The incoming domain is recorded in company_domains (with `source`); an
+ * existing company keeps its primary domain.
  */
 export async function upsertCompanySmart(
-  record: CompanyRecord
+  record: CompanyRecord,
+  options: { source?: string | null } = {}
 ): Promise<{ id: string; company_key: string; isNew: boolean }> {
   // Compute clean_name for matching and storage
   const cleanName = normalizeCompanyNameForMatching(record.name);
@@ -206,16 +334,34 @@ export async function upsertCompanySmart(
     domain: record.domain,
     clean_domain: record.clean_domain,
     name: record.name,
+    location: record.location,
   });
 
-  if (existing) {
+  if (existing && !existing.needs_review) {
+    if (existing.method === "fuzzy") {
+      console.log(
+        `[Match] "${record.name}" matched existing company ${existing.id} (confidence ${existing.confidence})`
+      );
+    }
     // Update the existing company record, preserving its company_key
     // Only update fields that have values (don't overwrite with nulls)
+    // Fuzzy, domain alias and merge alias matches keep the stored name (the
+    // incoming one may be a variant, typo, another brand or a merged name)
+    // Domains only fill empty fields: other domains become aliases
+    const current = await selectFirst<{
+      domain: string | null;
+      clean_domain: string | null;
+    }>("companies", [eq("id", existing.id)], ["domain", "clean_domain"]);
     const updateData: Partial<CompanyRecord> = {};
-    if (record.name) updateData.name = record.name;
-    if (record.domain) updateData.domain = record.domain;
-    if (record.clean_domain) updateData.clean_domain = record.clean_domain;
-    if (cleanName) updateData.clean_name = cleanName;
+    const updatesName = !["fuzzy", "domain_alias", "merge_alias"].includes(
+      existing.method
+    );
+    if (record.name && updatesName) updateData.name = record.name;
+    if (record.domain && !current?.domain) updateData.domain = record.domain;
+    if (record.clean_domain && !current?.clean_domain) {
+      updateData.clean_domain = record.clean_domain;
+    }
+    if (cleanName && updatesName) updateData.clean_name = cleanName;
     if (record.orgnr) updateData.orgnr = record.orgnr;
     if (record.proff_url) updateData.proff_url = record.proff_url;
     if (record.industry) updateData.industry = record.industry;
@@ -224,12 +370,17 @@ export async function upsertCompanySmart(
     if (record.sector) updateData.sector = record.sector;
 
     if (Object.keys(updateData).length > 0) {
-      const { error: updateError } = await supabase
-        .from("companies")
-        .update(updateData)
-        .eq("id", existing.id);
-      if (updateError) throw updateError;
+      await getRepository().update(
+        "companies",
+        [eq("id", existing.id)],
+        updateData
+      );
     }
+    await recordCompanyDomain({
+      company_id: existing.id,
+      domain: record.clean_domain || record.domain,
+      source: options.source,
+    });
 
     return { id: existing.id, company_key: existing.company_key, isNew: false };
   }
@@ -241,18 +392,31 @@ export async function upsertCompanySmart(
     ...(cleanName && { clean_name: cleanName }),
   };
 
-  const { data, error } = await supabase
-    .from("companies")
-    .upsert([recordWithCleanName], { onConflict: "company_key" })
-    .select("id, company_key")
-    .single();
-
-  if (error) throw error;
+  const [data] = await getRepository().upsert<{
+    id: string;
+    company_key: string;
+  }>("companies", [recordWithCleanName], { onConflict: ["company_key"] });
+  await recordCompanyDomain({
+    company_id: data.id,
+    domain: record.clean_domain || record.domain,
+    source: options.source,
+  });
 
   // Check if this was actually an insert or update by comparing timestamps
   // Since we already checked findExistingCompany and it returned null,
   // if we get here via upsert conflict, it means a race condition occurred
   // We return isNew: true since from this request's perspective, it was attempting to create
+  // Borderline fuzzy match: keep the new company, let a reviewer decide
+  if (existing?.needs_review) {
+    await queueMatchReview({
+      entity_type: "company",
+      entity_id: data.id,
+      candidate_id: existing.id,
+      confidence: existing.confidence,
+      details: { method: existing.method, ...existing.details },
+    });
+  }
+
   return { id: data.id, company_key: data.company_key, isNew: true };
 }
 
@@ -273,11 +437,23 @@ export async function upsertPeople(records: PersonRecord[]) {
 }
 
 export async function upsertJobPosts(records: JobPostRecord[]) {
-  return upsertWithCounts<JobPostRecord>({
-    table: "job_posts",
-    records,
-    keyColumn: "finn_id",
+  if (!records.length) return { inserted: 0, updated: 0, records: [] };
+  const existing = await getRepository().select("job_posts", {
+    columns: ["board", "external_id"],
+    filters: [inList("external_id", records.map((r) => r.external_id))],
   });
+  const existingKeys = new Set(
+    existing.map((row) => `${row.board}:${row.external_id}`)
+  );
+  const updated = records.filter((r) =>
+    existingKeys.has(`${r.board}:${r.external_id}`)
+  ).length;
+  const data = await getRepository().upsert<JobPostRecord & { id: string }>(
+    "job_posts",
+    records,
+    { onConflict: ["board", "external_id"] }
+  );
+  return { inserted: records.length - updated, updated, records: data };
 }
 
 /**
@@ -289,16 +465,11 @@ export async function upsertJobPostSmart(
   record: JobPostRecord
 ): Promise<{ id: string; isNew: boolean }> {
   // Check if job post already exists
-  const { data: existing, error: fetchError } = await supabase
-    .from("job_posts")
-    .select("id, source")
-    .eq("finn_id", record.finn_id)
-    .single();
-
-  if (fetchError && fetchError.code !== "PGRST116") {
-    // PGRST116 = no rows returned, which is fine
-    throw fetchError;
-  }
+  const existing = await selectFirst<{ id: string; source: string | null }>(
+    "job_posts",
+    [eq("board", record.board), eq("external_id", record.external_id)],
+    ["id", "source"]
+  );
 
   if (existing) {
     // Job post exists - merge sources if different
@@ -314,25 +485,21 @@ export async function upsertJobPostSmart(
     const mergedSource = Array.from(existingSources).sort().join(",") || null;
 
     // Update with merged source (only update source, preserve other data)
-    const { error: updateError } = await supabase
-      .from("job_posts")
-      .update({ source: mergedSource })
-      .eq("id", existing.id);
-
-    if (updateError) throw updateError;
+    await getRepository().update("job_posts", [eq("id", existing.id)], {
+      source: mergedSource,
+    });
 
     return { id: existing.id, isNew: false };
   }
 
   // New job post - use upsert to handle race condition where another request
-  // may have inserted the same finn_id between our check and insert
-  const { data, error } = await supabase
-    .from("job_posts")
-    .upsert([record], { onConflict: "finn_id" })
-    .select("id")
-    .single();
-
-  if (error) throw error;
+  // may have inserted the same job between our check and insert
+  const [data] = await getRepository().upsert<{ id: string }>(
+    "job_posts",
+    [record],
+    { onConflict: ["board", "external_id"] }
+  );
+
   return { id: data.id, isNew: true };
 }
 
@@ -340,13 +507,11 @@ export async function upsertJobPostSmart(
 export async function getCompanyIdByKey(
   companyKey: string
 ): Promise<string | null> {
-  const { data, error } = await supabase
-    .from("companies")
-    .select("id")
-    .eq("company_key", companyKey)
-    .single();
-  // PGRST116 = no rows returned, which means not found
-  if (error && error.code !== "PGRST116") throw error;
+  const data = await selectFirst(
+    "companies",
+    [eq("company_key", companyKey)],
+    ["id"]
+  );
   if (!data) return null;
   return data.id as string;
 }
@@ -354,27 +519,33 @@ export async function getCompanyIdByKey(
 export async function getPersonIdByKey(
   personKey: string
 ): Promise<string | null> {
-  const { data, error } = await supabase
-    .from("people")
-    .select("id")
-    .eq("person_key", personKey)
-    .single();
-  if (error && error.code !== "PGRST116") throw error;
+  const data = await selectFirst(
+    "people",
+    [eq("person_key", personKey)],
+    ["id"]
+  );
   if (!data) return null;
   return data.id as string;
 }
 
+export async function getJobPostIdByRef(ref: JobRef): Promise<string | null> {
+  const data = await selectFirst(
+    "job_posts",
+    [eq("board", ref.board), eq("external_id", ref.external_id)],
+    ["id"]
+  );
+  if (!data) return null;
+  return data.id as string;
+}
+
+/**
+ * @deprecated Use getJobPostIdByRef. Accepts a Finn code, job key or posting URL.
+ */
 export async function getJobPostIdByFinnId(
   finnId: string
 ): Promise<string | null> {
-  const { data, error } = await supabase
-    .from("job_posts")
-    .select("id")
-    .eq("finn_id", finnId)
-    .single();
-  if (error && error.code !== "PGRST116") throw error;
-  if (!data) return null;
-  return data.id as string;
+  const ref = parseJobReference(finnId);
+  return ref ? getJobPostIdByRef(ref) : null;
 }
 
 /**
@@ -383,13 +554,10 @@ export async function getJobPostIdByFinnId(
 export async function getDecisionMakersByCompanyId(
   companyId: string
 ): Promise<string[]> {
-  const { data, error } = await supabase
-    .from("company_people")
-    .select("person_id")
-    .eq("company_id", companyId)
-    .eq("role", "decision_maker");
-  if (error) throw error;
-  if (!data) return [];
+  const data = await getRepository().select("company_people", {
+    columns: ["person_id"],
+    filters: [eq("company_id", companyId), eq("role", "decision_maker")],
+  });
   return data.map((row) => row.person_id as string);
 }
 
@@ -400,7 +568,7 @@ async function upsertLinkTable<T extends LinkRecord>(params: {
   filters: Record<string, string[]>;
 }) {
   const { table, records, keyBuilder, filters } = params;
-  if (!records.length) return { inserted: 0, existing: 0 };
+  if (!records.length) return { inserted: 0, existing: 0, newRecords: [] };
 
   // Deduplicate records within the batch to avoid "cannot affect row a second time" errors
   const seenKeys = new Set<string>();
@@ -413,28 +581,33 @@ async function upsertLinkTable<T extends LinkRecord>(params: {
     }
   }
 
-  const { data, error } = await Object.entries(filters).reduce(
-    (query, [column, values]) => query.in(column, values),
-    supabase.from(table).select("*")
-  );
-  if (error) throw error;
-  const existingKeys = new Set((data ?? []).map(keyBuilder));
+  const data = await getRepository().select<T>(table, {
+    filters: Object.entries(filters).map(([column, values]) =>
+      inList(column, values)
+    ),
+  });
+  const existingKeys = new Set(data.map(keyBuilder));
   const incomingKeys = new Set(deduplicatedRecords.map(keyBuilder));
   const newRecords = deduplicatedRecords.filter(
     (r) => !existingKeys.has(keyBuilder(r))
   );
-  const { error: upsertError } = await supabase
-    .from(table)
-    .upsert(deduplicatedRecords);
-  if (upsertError) throw upsertError;
+  // A role classified from a title never takes over a link another source
+  // recorded: reclassifyPersonRoles only changes "title" links
+  await getRepository().upsert(
+    table,
+    deduplicatedRecords.filter(
+      (r) => r.role_source !== "title" || !existingKeys.has(keyBuilder(r))
+    )
+  );
   return {
     inserted: newRecords.length,
     existing: incomingKeys.size - newRecords.length,
+    newRecords,
   };
 }
 
 export async function upsertJobPostPeople(records: JobPostPersonRecord[]) {
-  return upsertLinkTable<JobPostPersonRecord>({
+  const { newRecords, ...counts } = await upsertLinkTable<JobPostPersonRecord>({
     table: "job_post_people",
     records,
     keyBuilder: (r) => `${r.job_post_id}::${r.person_id}::${r.role}`,
@@ -443,10 +616,19 @@ export async function upsertJobPostPeople(records: JobPostPersonRecord[]) {
       person_id: Array.from(new Set(records.map((r) => r.person_id))),
     },
   });
+  // New contacts change the job posts' Clay payload (clay-sync.ts scans job_posts.updated_at)
+  if (newRecords.length > 0) {
+    await getRepository().update(
+      "job_posts",
+      [inList("id", Array.from(new Set(newRecords.map((r) => r.job_post_id))))],
+      { updated_at: new Date().toISOString() }
+    );
+  }
+  return counts;
 }
 
 export async function upsertCompanyPeople(records: CompanyPersonRecord[]) {
-  return upsertLinkTable<CompanyPersonRecord>({
+  const { inserted, existing } = await upsertLinkTable<CompanyPersonRecord>({
     table: "company_people",
     records,
     keyBuilder: (r) => `${r.company_id}::${r.person_id}::${r.role}`,
@@ -455,6 +637,7 @@ export async function upsertCompanyPeople(records: CompanyPersonRecord[]) {
       person_id: Array.from(new Set(records.map((r) => r.person_id))),
     },
   });
+  return { inserted, existing };
 }
 
 /**
@@ -463,7 +646,9 @@ export async function upsertCompanyPeople(records: CompanyPersonRecord[]) {
 export type EnrichedJobPost = {
   job_post: {
     id: string;
-    finn_id: string;
+    board: string;
+    external_id: string;
+    finn_id: string | null;
     finn_url: string;
     title: string | null;
     description: string | null;
@@ -477,7 +662,16 @@ export type EnrichedJobPost = {
     industries: string[] | null;
     source: string | null;
     created_at: string | null;
+    vacancy_id: string | null;
   };
+  // All postings of the job's vacancy across boards (just the job itself if not grouped)
+  postings: Array<{
+    id: string;
+    board: string;
+    external_id: string;
+    finn_url: string;
+    source: string | null;
+  }>;
   company: {
     id: string;
     name: string | null;
@@ -510,113 +704,151 @@ export type EnrichedJobPost = {
   }>;
 };
 
+const PERSON_SUMMARY_COLUMNS = [
+  "id",
+  "full_name",
+  "title",
+  "email",
+  "phone",
+  "linkedin_url",
+];
+
+/**
+ * Fetch people linked to a job post with a given role
+ */
+async function getJobPostPeopleByRole(
+  jobPostId: string,
+  role: string
+): Promise<EnrichedJobPost["decision_makers"]> {
+  const links = await getRepository().select("job_post_people", {
+    columns: ["person_id"],
+    filters: [eq("job_post_id", jobPostId), eq("role", role)],
+  });
+  const personIds = links.map((link) => link.person_id as string);
+  if (personIds.length === 0) return [];
+
+  const people = await getRepository().select<
+    EnrichedJobPost["decision_makers"][number]
+  >("people", {
+    columns: PERSON_SUMMARY_COLUMNS,
+    filters: [inList("id", personIds)],
+  });
+
+  // Best recorded email / phone / LinkedIn over the single people columns
+  const best = await bestContactPoints(personIds);
+
+  // Preserve link order
+  const byId = new Map(people.map((person) => [person.id, person]));
+  return personIds
+    .map((id) => byId.get(id))
+    .filter((person): person is NonNullable<typeof person> => Boolean(person))
+    .map((person) => ({ ...person, ...best.get(person.id) }));
+}
+
 /**
  * Get a job post with its company and all linked decision makers
  */
 export async function getJobPostWithDecisionMakers(
   jobPostId: string
 ): Promise<EnrichedJobPost | null> {
-  // Fetch job post with company
-  const { data: jobPost, error: jobError } = await supabase
-    .from("job_posts")
-    .select(
-      `
-      id,
-      finn_id,
-      finn_url,
-      title,
-      description,
-      location,
-      employment_type,
-      salary,
-      publication_date,
-      expiration_date,
-      application_url,
-      sector,
-      industries,
-      source,
-      created_at,
-      companies (
-        id,
-        name,
-        domain,
-        clean_domain,
-        orgnr,
-        proff_url,
-        industry,
-        company_size,
-        location,
-        sector,
-        profit_before_tax,
-        turnover
-      )
-    `
-    )
-    .eq("id", jobPostId)
-    .single();
-
-  if (jobError || !jobPost) {
+  // Fetch job post
+  let jobPost: Row | null;
+  try {
+    jobPost = await selectFirst(
+      "job_posts",
+      [eq("id", jobPostId)],
+      [
+        "id",
+        "company_id",
+        "board",
+        "external_id",
+        "finn_id",
+        "finn_url",
+        "title",
+        "description",
+        "location",
+        "employment_type",
+        "salary",
+        "publication_date",
+        "expiration_date",
+        "application_url",
+        "sector",
+        "industries",
+        "source",
+        "created_at",
+        "vacancy_id",
+      ]
+    );
+  } catch (jobError) {
     console.error("[DB] Error fetching job post:", jobError);
     return null;
   }
 
-  // Fetch decision makers linked to this job post
-  const { data: decisionMakerLinks, error: dmError } = await supabase
-    .from("job_post_people")
-    .select(
-      `
-      people (
-        id,
-        full_name,
-        title,
-        email,
-        phone,
-        linkedin_url
+  if (!jobPost) {
+    console.error("[DB] Error fetching job post: not found", jobPostId);
+    return null;
+  }
+
+  // Fetch the postings grouped with this one (cross-board duplicates)
+  const postingColumns = ["id", "board", "external_id", "finn_url", "source"];
+  const postings = jobPost.vacancy_id
+    ? await getRepository().select<EnrichedJobPost["postings"][number]>(
+        "job_posts",
+        {
+          columns: postingColumns,
+          filters: [eq("vacancy_id", jobPost.vacancy_id)],
+          orderBy: [{ column: "created_at" }],
+        }
       )
-    `
-    )
-    .eq("job_post_id", jobPostId)
-    .eq("role", "decision_maker");
+    : [
+        {
+          id: jobPost.id,
+          board: jobPost.board,
+          external_id: jobPost.external_id,
+          finn_url: jobPost.finn_url,
+          source: jobPost.source,
+        },
+      ];
+
+  // Fetch the job post's company
+  const company = await selectFirst("companies", [eq("id", jobPost.company_id)], [
+    "id",
+    "name",
+    "domain",
+    "clean_domain",
+    "orgnr",
+    "proff_url",
+    "industry",
+    "company_size",
+    "location",
+    "sector",
+    "profit_before_tax",
+    "turnover",
+  ]);
 
-  if (dmError) {
+  // Fetch decision makers linked to this job post
+  let decisionMakers: EnrichedJobPost["decision_makers"];
+  try {
+    decisionMakers = await getJobPostPeopleByRole(jobPostId, "decision_maker");
+  } catch (dmError) {
     console.error("[DB] Error fetching decision makers:", dmError);
     return null;
   }
 
   // Fetch contact persons linked to this job post
-  const { data: contactPersonLinks, error: cpError } = await supabase
-    .from("job_post_people")
-    .select(
-      `
-      people (
-        id,
-        full_name,
-        title,
-        email,
-        phone,
-        linkedin_url
-      )
-    `
-    )
-    .eq("job_post_id", jobPostId)
-    .eq("role", "contact_person");
-
-  if (cpError) {
+  let contactPersons: EnrichedJobPost["contact_persons"];
+  try {
+    contactPersons = await getJobPostPeopleByRole(jobPostId, "contact_person");
+  } catch (cpError) {
     console.error("[DB] Error fetching contact persons:", cpError);
     return null;
   }
 
-  const company = jobPost.companies as any;
-  const decisionMakers = (decisionMakerLinks ?? [])
-    .map((link: any) => link.people)
-    .filter(Boolean);
-  const contactPersons = (contactPersonLinks ?? [])
-    .map((link: any) => link.people)
-    .filter(Boolean);
-
   return {
     job_post: {
       id: jobPost.id,
+      board: jobPost.board,
+      external_id: jobPost.external_id,
       finn_id: jobPost.finn_id,
       finn_url: jobPost.finn_url,
       title: jobPost.title,
@@ -631,7 +863,9 @@ export async function getJobPostWithDecisionMakers(
       industries: jobPost.industries,
       source: jobPost.source,
       created_at: jobPost.created_at,
+      vacancy_id: jobPost.vacancy_id ?? null,
     },
+    postings,
     company: {
       id: company?.id ?? "",
       name: company?.name ?? null,
@@ -659,53 +893,60 @@ export async function getRecentJobPostIds(
 ): Promise<string[]> {
   const since = new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString();
 
-  const { data, error } = await supabase
-    .from("job_posts")
-    .select("id")
-    .gte("created_at", since)
-    .order("created_at", { ascending: false });
-
-  if (error) {
+  try {
+    const data = await getRepository().select("job_posts", {
+      columns: ["id"],
+      filters: [gte("created_at", since)],
+      orderBy: [{ column: "created_at", ascending: false }],
+    });
+    return data.map((row) => row.id as string);
+  } catch (error) {
     console.error("[DB] Error fetching recent job posts:", error);
     return [];
   }
-
-  return (data ?? []).map((row) => row.id);
 }
 
 // ============================================================
 // Clay Enrichment Functions
 // ============================================================
 
-/**
- * Get company ID and details from a job post's finn_id
- */
-export async function getCompanyByJobPostFinnId(finnId: string): Promise<{
+type JobPostCompany = {
   id: string;
   company_key: string;
   name: string | null;
   clean_domain: string | null;
-} | null> {
-  const { data, error } = await supabase
-    .from("job_posts")
-    .select(
-      `
-      company_id,
-      companies (
-        id,
-        company_key,
-        name,
-        clean_domain
-      )
-    `
-    )
-    .eq("finn_id", finnId)
-    .single();
+};
 
-  if (error && error.code !== "PGRST116") throw error;
-  if (!data || !data.companies) return null;
+/**
+ * @deprecated Use getCompanyByJobPostRef. Accepts a Finn code, job key or posting URL.
+ */
+export async function getCompanyByJobPostFinnId(
+  finnId: string
+): Promise<JobPostCompany | null> {
+  const ref = parseJobReference(finnId);
+  return ref ? getCompanyByJobPostRef(ref) : null;
+}
+
+/**
+ * Get company ID and details from a job post's (board, external_id)
+ */
+export async function getCompanyByJobPostRef(
+  ref: JobRef
+): Promise<JobPostCompany | null> {
+  const jobPost = await selectFirst(
+    "job_posts",
+    [eq("board", ref.board), eq("external_id", ref.external_id)],
+    ["company_id"]
+  );
+  if (!jobPost) return null;
+
+  const company = await selectFirst(
+    "companies",
+    [eq("id", jobPost.company_id)],
+    ["id", "company_key", "name", "clean_domain"]
+  );
+  if (!company) return null;
 
-  const company = data.companies as any;
   return {
     id: company.id,
     company_key: company.company_key,
@@ -716,6 +957,7 @@ export async function getCompanyByJobPostFinnId(finnId: string): Promise<{
 
 /**
  * Update company with enriched data, only filling in missing fields.
+ * Filled fields are logged in company_enrichments under `source`.
  * Returns list of fields that were updated.
  */
 export async function updateCompanyEnrichment(
@@ -731,16 +973,12 @@ export async function updateCompanyEnrichment(
     sector?: string | null;
     profit_before_tax?: string | null;
     turnover?: string | null;
-  }
+  },
+  options: { source?: string | null } = {}
 ): Promise<{ fieldsUpdated: string[] }> {
   // Fetch current company data
-  const { data: current, error: fetchError } = await supabase
-    .from("companies")
-    .select("*")
-    .eq("id", companyId)
-    .single();
-
-  if (fetchError) throw fetchError;
+  const current = await selectFirst("companies", [eq("id", companyId)]);
+  if (!current) throw new Error(`Company not found: ${companyId}`);
 
   // Build update object - only include fields that have new values AND are currently empty
   const updateData: Record<string, string> = {};
@@ -771,13 +1009,19 @@ export async function updateCompanyEnrichment(
   }
 
   if (Object.keys(updateData).length > 0) {
-    const { error: updateError } = await supabase
-      .from("companies")
-      .update(updateData)
-      .eq("id", companyId);
-
-    if (updateError) throw updateError;
+    await getRepository().update("companies", [eq("id", companyId)], updateData);
   }
+  await recordCompanyEnrichment({
+    company_id: companyId,
+    source: options.source,
+    values: updateData,
+  });
+  // A different domain than the stored one is kept as an alias
+  await recordCompanyDomain({
+    company_id: companyId,
+    domain: enrichment.clean_domain || enrichment.domain,
+    source: options.source,
+  });
 
   return { fieldsUpdated };
 }
@@ -785,6 +1029,7 @@ export async function updateCompanyEnrichment(
 /**
  * Find existing person by matching criteria.
  * Priority: linkedin_url > email > phone > company + full_name
+ * LinkedIn, email and phone also match any value recorded in contact_points.
  */
 export async function findExistingPerson(params: {
   linkedin_url?: string | null;
@@ -795,32 +1040,35 @@ export async function findExistingPerson(params: {
 }): Promise<{ id: string; person_key: string } | null> {
   const { linkedin_url, email, phone, company_id, full_name } = params;
 
+  const findBy = (column: string, value: string) =>
+    selectFirst<{ id: string; person_key: string }>(
+      "people",
+      [eq(column, value)],
+      ["id", "person_key"]
+    );
+  const findByContactPoint = async (kind: ContactPointKind, value: string) => {
+    const personId = await findPersonIdByContactPoint(kind, value);
+    return personId ? findBy("id", personId) : null;
+  };
+
   // Priority 1: LinkedIn URL
   if (linkedin_url) {
     const canonicalLinkedIn = canonicalizeLinkedInUrl(linkedin_url);
     if (canonicalLinkedIn) {
-      const { data, error } = await supabase
-        .from("people")
-        .select("id, person_key")
-        .eq("linkedin_url", canonicalLinkedIn)
-        .limit(1)
-        .single();
-      if (error && error.code !== "PGRST116") throw error;
+      const data =
+        (await findBy("linkedin_url", canonicalLinkedIn)) ??
+        (await findByContactPoint("linkedin", canonicalLinkedIn));
       if (data) return { id: data.id, person_key: data.person_key };
     }
   }
 
-  // Priority 2: Email
+  // Priority 2: Email (shared mailboxes don't identify a person)
   if (email) {
-    const normalizedEmailVal = normalizeEmail(email);
+    const normalizedEmailVal = personEmail(email);
     if (normalizedEmailVal) {
-      const { data, error } = await supabase
-        .from("people")
-        .select("id, person_key")
-        .eq("email", normalizedEmailVal)
-        .limit(1)
-        .single();
-      if (error && error.code !== "PGRST116") throw error;
+      const data =
+        (await findBy("email", normalizedEmailVal)) ??
+        (await findByContactPoint("email", normalizedEmailVal));
       if (data) return { id: data.id, person_key: data.person_key };
     }
   }
@@ -829,13 +1077,9 @@ export async function findExistingPerson(params: {
   if (phone) {
     const normalizedPhoneVal = normalizePhone(phone);
     if (normalizedPhoneVal) {
-      const { data, error } = await supabase
-        .from("people")
-        .select("id, person_key")
-        .eq("phone", normalizedPhoneVal)
-        .limit(1)
-        .single();
-      if (error && error.code !== "PGRST116") throw error;
+      const data =
+        (await findBy("phone", normalizedPhoneVal)) ??
+        (await findByContactPoint("phone", normalizedPhoneVal));
       if (data) return { id: data.id, person_key: data.person_key };
     }
   }
@@ -844,21 +1088,23 @@ export async function findExistingPerson(params: {
   if (company_id && full_name) {
     const normalizedName = normalizeNameForComparison(full_name);
     if (normalizedName) {
-      const { data, error } = await supabase
-        .from("company_people")
-        .select(
-          `
-          person_id,
-          people!inner (id, person_key, full_name)
-        `
-        )
-        .eq("company_id", company_id);
-
-      if (error) throw error;
+      const links = await getRepository().select("company_people", {
+        columns: ["person_id"],
+        filters: [eq("company_id", company_id)],
+      });
+      const personIds = Array.from(
+        new Set(links.map((link) => link.person_id as string))
+      );
+
+      const people = personIds.length
+        ? await getRepository().select("people", {
+            columns: ["id", "person_key", "full_name"],
+            filters: [inList("id", personIds)],
+          })
+        : [];
 
       // Find matching person by normalized name
-      for (const link of data ?? []) {
-        const person = link.people as any;
+      for (const person of people) {
         if (normalizeNameForComparison(person.full_name) === normalizedName) {
           return { id: person.id, person_key: person.person_key };
         }
@@ -885,14 +1131,15 @@ export async function findPersonByNameAndDomain(
   const normalizedName = normalizeNameForComparison(fullName);
   if (!normalizedName) return null;
 
-  const { data, error } = await supabase
-    .from("people")
-    .select("id, person_key, phone, full_name")
-    .eq("normalized_company_domain", domain)
-    .limit(100);
-
-  if (error) throw error;
-  if (!data) return null;
+  // People may be stored under any of the company's domains
+  const domains = await expandDomainAliases(domain);
+  const data = await getRepository().select("people", {
+    columns: ["id", "person_key", "phone", "full_name"],
+    filters: [
+      inList("normalized_company_domain", domains.length ? domains : [domain]),
+    ],
+    limit: 100,
+  });
 
   // Find match by normalized name
   for (const person of data) {
@@ -910,6 +1157,8 @@ export async function findPersonByNameAndDomain(
 
 /**
  * Update person with enriched data, only filling in missing fields.
+ * Every email / phone / LinkedIn value is recorded as a contact point, so
+ * values that differ from the filled ones are kept too.
  * Returns list of fields that were updated.
  */
 export async function updatePersonEnrichment(
@@ -919,23 +1168,21 @@ export async function updatePersonEnrichment(
     email?: string | null;
     phone?: string | null;
     linkedin_url?: string | null;
-  }
+  },
+  options: { source?: string | null } = {}
 ): Promise<{ fieldsUpdated: string[] }> {
-  const { data: current, error: fetchError } = await supabase
-    .from("people")
-    .select("*")
-    .eq("id", personId)
-    .single();
-
-  if (fetchError) throw fetchError;
+  const current = await selectFirst("people", [eq("id", personId)]);
+  if (!current) throw new Error(`Person not found: ${personId}`);
 
-  const updateData: Record<string, string> = {};
+  const updateData: Record<string, string | null> = {};
   const fieldsUpdated: string[] = [];
 
   const enrichableFields = ["title", "email", "phone", "linkedin_url"] as const;
+  // An invalid address is skipped, as on ingest
+  const values = { ...enrichment, email: normalizeEmail(enrichment.email) };
 
   for (const field of enrichableFields) {
-    const enrichedValue = enrichment[field];
+    const enrichedValue = values[field];
     const currentValue = current[field];
 
     if (enrichedValue && !currentValue) {
@@ -944,14 +1191,20 @@ export async function updatePersonEnrichment(
     }
   }
 
-  if (Object.keys(updateData).length > 0) {
-    const { error: updateError } = await supabase
-      .from("people")
-      .update(updateData)
-      .eq("id", personId);
+  if (updateData.email) {
+    updateData.email_type = emailType(updateData.email);
+  }
+  if (updateData.phone) {
+    updateData.phone_type = phoneLineType(updateData.phone) ?? "unknown";
+  }
+  if (updateData.title) {
+    Object.assign(updateData, personTitleFields(updateData.title));
+  }
 
-    if (updateError) throw updateError;
+  if (Object.keys(updateData).length > 0) {
+    await getRepository().update("people", [eq("id", personId)], updateData);
   }
+  await recordPersonContactPoints(personId, enrichment, options.source);
 
   return { fieldsUpdated };
 }
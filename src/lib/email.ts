@@ -0,0 +1,198 @@
+/**
+ * Email address parsing and classification.
+ *
+ * Addresses are checked for syntax and classified as
+ * - role: shared mailboxes (post@, jobb@, info@...) that don't identify a person
+ * - free_mail: personal mailboxes at consumer providers (gmail.com, online.no...)
+ * - personal: everything else, i.e. a person at their organisation's domain
+ * Only personal addresses are used as person keys; free-mail domains are
+ * never taken as a company's domain.
+ */
+
+export type EmailType = "personal" | "role" | "free_mail";
+
+export type ParsedEmail = {
+  // Lowercased address
+  email: string;
+  local_part: string;
+  domain: string;
+  type: EmailType;
+};
+
+// Local parts of shared mailboxes (matched against the first word, so
+// "post.oslo@" and "jobb-bergen@" count too)
+const ROLE_LOCAL_PARTS = new Set([
+  // Norwegian
+  "post",
+  "postmottak",
+  "firmapost",
+  "kontakt",
+  "kontor",
+  "jobb",
+  "jobbsoknad",
+  "soknad",
+  "rekruttering",
+  "personal",
+  "salg",
+  "kundeservice",
+  "kundesenter",
+  "service",
+  "faktura",
+  "regnskap",
+  "okonomi",
+  "lonn",
+  "resepsjon",
+  "bestilling",
+  "ordre",
+  "hei",
+  "sentralbord",
+  "ledig",
+  "stilling",
+  "stillinger",
+  // English
+  "info",
+  "contact",
+  "hello",
+  "office",
+  "mail",
+  "admin",
+  "hr",
+  "jobs",
+  "careers",
+  "career",
+  "recruitment",
+  "recruiting",
+  "sales",
+  "support",
+  "invoice",
+  "billing",
+  "accounts",
+  "booking",
+  "reception",
+  "team",
+  "noreply",
+  "no-reply",
+  "donotreply",
+  "postmaster",
+  "webmaster",
+]);
+
+export const FREE_MAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "hotmail.com",
+  "hotmail.no",
+  "hotmail.co.uk",
+  "outlook.com",
+  "outlook.no",
+  "live.com",
+  "live.no",
+  "msn.com",
+  "yahoo.com",
+  "yahoo.no",
+  "yahoo.co.uk",
+  "icloud.com",
+  "me.com",
+  "mac.com",
+  "aol.com",
+  "protonmail.com",
+  "proton.me",
+  "gmx.com",
+  "gmx.de",
+  "gmx.net",
+  "mail.com",
+  "yandex.com",
+  "zoho.com",
+  // Norwegian ISPs and portals
+  "online.no",
+  "broadpark.no",
+  "getmail.no",
+  "start.no",
+  "frisurf.no",
+  "c2i.net",
+  "lyse.net",
+  "altibox.no",
+  "epost.no",
+  "tele2.no",
+]);
+
+const LOCAL_PART =
+  /^[\p{L}\p{N}!#$%&'*+/=?^_`{|}~-]+(\.[\p{L}\p{N}!#$%&'*+/=?^_`{|}~-]+)*$/u;
+const DOMAIN_LABEL = /^[\p{L}\p{N}](?:[\p{L}\p{N}-]*[\p{L}\p{N}])?$/u;
+const TLD = /^\p{L}{2,}$/u;
+
+// Letters folded to match ROLE_LOCAL_PARTS ("søknad" -> "soknad")
+const foldLocalWord = (word: string) =>
+  word
+    .replace(/æ/g, "ae")
+    .replace(/ø/g, "o")
+    .replace(/å/g, "a")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "");
+
+function isValidDomain(domain: string): boolean {
+  const labels = domain.split(".");
+  if (labels.length < 2 || domain.length > 253) return false;
+  if (!TLD.test(labels[labels.length - 1])) return false;
+  return labels.every(
+    (label) => label.length <= 63 && DOMAIN_LABEL.test(label)
+  );
+}
+
+function classify(localPart: string, domain: string): EmailType {
+  const firstWord = foldLocalWord(localPart.split(/[.\-_+]/)[0]);
+  if (ROLE_LOCAL_PARTS.has(localPart) || ROLE_LOCAL_PARTS.has(firstWord)) {
+    return "role";
+  }
+  if (FREE_MAIL_DOMAINS.has(domain)) return "free_mail";
+  return "personal";
+}
+
+/**
+ * Parse and classify an email address. Returns null when it isn't a
+ * syntactically valid address.
+ */
+export function parseEmail(input?: string | null): ParsedEmail | null {
+  if (!input) return null;
+  const email = input
+    .trim()
+    .toLowerCase()
+    .replace(/^mailto:/, "")
+    .replace(/^<(.*)>$/, "$1");
+  if (!email || email.length > 254) return null;
+
+  const at = email.lastIndexOf("@");
+  if (at <= 0) return null;
+  const localPart = email.slice(0, at);
+  const domain = email.slice(at + 1).replace(/\.$/, "");
+  if (localPart.length > 64 || !LOCAL_PART.test(localPart)) return null;
+  if (!isValidDomain(domain)) return null;
+
+  return {
+    email: `${localPart}@${domain}`,
+    local_part: localPart,
+    domain,
+    type: classify(localPart, domain),
+  };
+}
+
+export function emailType(input?: string | null): EmailType | null {
+  return parseEmail(input)?.type ?? null;
+}
+
+/**
+ * Address of one person (anything but a shared mailbox), for matching people
+ */
+export function personEmail(input?: string | null): string | null {
+  const parsed = parseEmail(input);
+  return parsed && parsed.type !== "role" ? parsed.email : null;
+}
+
+/**
+ * Domain of an address usable as a company domain hint: any valid address
+ * except free-mail (role addresses like post@firma.no still name the company)
+ */
+export function companyDomainFromEmail(input?: string | null): string | null {
+  const parsed = parseEmail(input);
+  return parsed && !FREE_MAIL_DOMAINS.has(parsed.domain) ? parsed.domain : null;
+}
@@ -0,0 +1,516 @@
+/**
+ * Lead exports (GET /exports/leads.csv, /exports/leads.xlsx).
+ *
+ * Job posts are selected with the /job-posts filters and paged through with
+ * listJobPosts, newest first, so an export never holds more than one page.
+ * Rows are either one per (job post, linked person) from job_post_people or
+ * one per company (at its latest matching post) with its company_people
+ * contacts. Person filters narrow the people; emails and phones are the best
+ * recorded contact points, so invalid values are left out.
+ */
+
+import { getRepository, eq, inList, Filter, Row } from "./repository";
+import { listJobPosts, JobPostListItem } from "./listing";
+import { bestContactPoints } from "./contact-points";
+import { XlsxCell } from "./xlsx";
+
+export class ExportError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = statusCode === 404 ? "Not Found" : "Bad Request";
+  }
+}
+
+export type ExportRowKind = "contacts" | "companies";
+
+export type LeadExportParams = Omit<
+  Parameters<typeof listJobPosts>[0],
+  "limit" | "cursor" | "sort" | "order"
+> & {
+  rows: ExportRowKind;
+  // Column set ("default" | "full") or column keys
+  columns?: string;
+  role?: string;
+  seniority?: string;
+  department?: string;
+  has_email?: boolean;
+  has_phone?: boolean;
+  // Stop after this many rows
+  limit?: number;
+};
+
+type ExportPerson = {
+  id: string;
+  full_name: string;
+  title: string | null;
+  email: string | null;
+  phone: string | null;
+  linkedin_url: string | null;
+  seniority: string | null;
+  department: string | null;
+  role: string;
+};
+
+type ExportRow = {
+  job_post: JobPostListItem;
+  company: Row | null;
+  // contacts rows
+  person?: ExportPerson;
+  // companies rows
+  contacts?: ExportPerson[];
+};
+
+type ExportColumn = {
+  header: string;
+  kinds: ExportRowKind[];
+  value: (row: ExportRow) => XlsxCell;
+};
+
+const BOTH: ExportRowKind[] = ["contacts", "companies"];
+
+// In company rows the job columns describe the latest matching post
+export const EXPORT_COLUMNS: Record<string, ExportColumn> = {
+  company_name: {
+    header: "Company",
+    kinds: BOTH,
+    value: (row) => row.company?.name,
+  },
+  orgnr: { header: "Org nr", kinds: BOTH, value: (row) => row.company?.orgnr },
+  domain: {
+    header: "Domain",
+    kinds: BOTH,
+    value: (row) => row.company?.clean_domain,
+  },
+  industry: {
+    header: "Industry",
+    kinds: BOTH,
+    value: (row) => row.company?.industry,
+  },
+  company_size: {
+    header: "Company size",
+    kinds: BOTH,
+    value: (row) => row.company?.company_size,
+  },
+  company_location: {
+    header: "Company location",
+    kinds: BOTH,
+    value: (row) => row.company?.location,
+  },
+  sector: { header: "Sector", kinds: BOTH, value: (row) => row.company?.sector },
+  turnover: {
+    header: "Turnover",
+    kinds: BOTH,
+    value: (row) => row.company?.turnover,
+  },
+  profit_before_tax: {
+    header: "Profit before tax",
+    kinds: BOTH,
+    value: (row) => row.company?.profit_before_tax,
+  },
+  proff_url: {
+    header: "Proff URL",
+    kinds: BOTH,
+    value: (row) => row.company?.proff_url,
+  },
+  job_title: {
+    header: "Job title",
+    kinds: BOTH,
+    value: (row) => row.job_post.title,
+  },
+  job_url: {
+    header: "Job URL",
+    kinds: BOTH,
+    value: (row) => row.job_post.finn_url,
+  },
+  job_board: {
+    header: "Job board",
+    kinds: BOTH,
+    value: (row) => row.job_post.board,
+  },
+  job_location: {
+    header: "Job location",
+    kinds: BOTH,
+    value: (row) => row.job_post.location,
+  },
+  employment_type: {
+    header: "Employment type",
+    kinds: BOTH,
+    value: (row) => row.job_post.employment_type,
+  },
+  published_at: {
+    header: "Published",
+    kinds: BOTH,
+    value: (row) => row.job_post.publication_date?.slice(0, 10),
+  },
+  job_source: {
+    header: "Source",
+    kinds: BOTH,
+    value: (row) => row.job_post.source,
+  },
+  job_created_at: {
+    header: "First seen",
+    kinds: BOTH,
+    value: (row) => row.job_post.created_at?.slice(0, 10),
+  },
+  person_name: {
+    header: "Name",
+    kinds: ["contacts"],
+    value: (row) => row.person?.full_name,
+  },
+  person_title: {
+    header: "Title",
+    kinds: ["contacts"],
+    value: (row) => row.person?.title,
+  },
+  role: { header: "Role", kinds: ["contacts"], value: (row) => row.person?.role },
+  seniority: {
+    header: "Seniority",
+    kinds: ["contacts"],
+    value: (row) => row.person?.seniority,
+  },
+  department: {
+    header: "Department",
+    kinds: ["contacts"],
+    value: (row) => row.person?.department,
+  },
+  email: {
+    header: "Email",
+    kinds: ["contacts"],
+    value: (row) => row.person?.email,
+  },
+  phone: {
+    header: "Phone",
+    kinds: ["contacts"],
+    value: (row) => row.person?.phone,
+  },
+  linkedin_url: {
+    header: "LinkedIn",
+    kinds: ["contacts"],
+    value: (row) => row.person?.linkedin_url,
+  },
+  contacts: {
+    header: "Contacts",
+    kinds: ["companies"],
+    value: (row) => row.contacts?.length ?? 0,
+  },
+  contact_names: {
+    header: "Contact names",
+    kinds: ["companies"],
+    value: (row) =>
+      row.contacts
+        ?.map((p) => (p.title ? `${p.full_name} (${p.title})` : p.full_name))
+        .join("; "),
+  },
+};
+
+export const EXPORT_COLUMN_SETS: Record<ExportRowKind, string[]> = {
+  contacts: [
+    "company_name",
+    "domain",
+    "job_title",
+    "job_url",
+    "published_at",
+    "person_name",
+    "person_title",
+    "role",
+    "email",
+    "phone",
+    "linkedin_url",
+  ],
+  companies: [
+    "company_name",
+    "orgnr",
+    "domain",
+    "industry",
+    "company_size",
+    "company_location",
+    "job_title",
+    "job_url",
+    "published_at",
+    "contacts",
+    "contact_names",
+  ],
+};
+
+/**
+ * Column keys for a column set or comma-separated list
+ */
+function resolveColumns(kind: ExportRowKind, columns = "default"): string[] {
+  if (columns === "default") return EXPORT_COLUMN_SETS[kind];
+  if (columns === "full") {
+    return Object.keys(EXPORT_COLUMNS).filter((key) =>
+      EXPORT_COLUMNS[key].kinds.includes(kind)
+    );
+  }
+  const keys = columns
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+  const unknown = keys.filter(
+    (key) => !EXPORT_COLUMNS[key]?.kinds.includes(kind)
+  );
+  if (keys.length === 0 || unknown.length > 0) {
+    throw new ExportError(
+      `Unknown ${kind} export columns: ${unknown.join(", ") || columns}`
+    );
+  }
+  return keys;
+}
+
+const PAGE_SIZE = 100;
+
+// Job posts / companies whose links are read at once: one can have many
+// contacts, so a page's links and people are loaded in these smaller groups
+const LINK_GROUP_SIZE = 20;
+
+const groups = <T>(items: T[]) =>
+  Array.from({ length: Math.ceil(items.length / LINK_GROUP_SIZE) }, (_, i) =>
+    items.slice(i * LINK_GROUP_SIZE, (i + 1) * LINK_GROUP_SIZE)
+  );
+
+async function* jobPostPages(
+  params: LeadExportParams
+): AsyncGenerator<JobPostListItem[]> {
+  const filters = {
+    title: params.title,
+    source: params.source,
+    board: params.board,
+    company_id: params.company_id,
+    sector: params.sector,
+    industry: params.industry,
+    location: params.location,
+    created_from: params.created_from,
+    created_to: params.created_to,
+  };
+  let cursor: string | undefined;
+  do {
+    const page = await listJobPosts({
+      ...filters,
+      sort: "created_at",
+      order: "desc",
+      limit: PAGE_SIZE,
+      cursor,
+    });
+    if (page.items.length > 0) yield page.items;
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor);
+}
+
+/**
+ * People by id with their best contact values, narrowed by the person filters
+ */
+async function loadPeople(
+  personIds: string[],
+  params: LeadExportParams
+): Promise<Map<string, Omit<ExportPerson, "role">>> {
+  const people = new Map<string, Omit<ExportPerson, "role">>();
+  if (personIds.length === 0) return people;
+  const filters: Filter[] = [
+    inList("id", personIds),
+    ...(params.seniority ? [eq("seniority", params.seniority)] : []),
+    ...(params.department ? [eq("department", params.department)] : []),
+  ];
+  const [rows, best] = await Promise.all([
+    getRepository().select("people", {
+      columns: [
+        "id",
+        "full_name",
+        "title",
+        "email",
+        "phone",
+        "linkedin_url",
+        "seniority",
+        "department",
+      ],
+      filters,
+    }),
+    bestContactPoints(personIds),
+  ]);
+  for (const row of rows) {
+    const person = {
+      id: row.id,
+      full_name: row.full_name,
+      title: row.title ?? null,
+      email: row.email ?? null,
+      phone: row.phone ?? null,
+      linkedin_url: row.linkedin_url ?? null,
+      seniority: row.seniority ?? null,
+      department: row.department ?? null,
+      ...best.get(row.id),
+    };
+    const presence = (value: string | null, has?: boolean) =>
+      has === undefined || Boolean(value) === has;
+    if (
+      presence(person.email, params.has_email) &&
+      presence(person.phone, params.has_phone)
+    ) {
+      people.set(person.id, person);
+    }
+  }
+  return people;
+}
+
+async function loadCompanies(companyIds: string[]): Promise<Map<string, Row>> {
+  const companies = companyIds.length
+    ? await getRepository().select("companies", {
+        filters: [inList("id", companyIds)],
+      })
+    : [];
+  return new Map(companies.map((company) => [company.id, company]));
+}
+
+async function* contactRows(
+  params: LeadExportParams
+): AsyncGenerator<ExportRow> {
+  for await (const page of jobPostPages(params)) {
+    for (const jobPosts of groups(page)) {
+      const links = await getRepository().select("job_post_people", {
+        columns: ["job_post_id", "person_id", "role"],
+        filters: [
+          inList("job_post_id", jobPosts.map((jp) => jp.id)),
+          ...(params.role ? [eq("role", params.role)] : []),
+        ],
+      });
+      if (links.length === 0) continue;
+      const [people, companies] = await Promise.all([
+        loadPeople(
+          [...new Set(links.map((l) => l.person_id as string))],
+          params
+        ),
+        loadCompanies([
+          ...new Set(jobPosts.map((jp) => jp.company?.id).filter(Boolean)),
+        ] as string[]),
+      ]);
+
+      for (const jobPost of jobPosts) {
+        for (const link of links) {
+          if (link.job_post_id !== jobPost.id) continue;
+          const person = people.get(link.person_id);
+          if (!person) continue;
+          yield {
+            job_post: jobPost,
+            company: companies.get(jobPost.company?.id ?? "") ?? null,
+            person: { ...person, role: link.role },
+          };
+        }
+      }
+    }
+  }
+}
+
+async function* companyRows(
+  params: LeadExportParams
+): AsyncGenerator<ExportRow> {
+  // Without person filters every company is listed, contacts or not
+  const requireContacts = Boolean(
+    params.role ||
+      params.seniority ||
+      params.department ||
+      params.has_email !== undefined ||
+      params.has_phone !== undefined
+  );
+  const seen = new Set<string>();
+  for await (const jobPosts of jobPostPages(params)) {
+    // First post per company = its latest matching post
+    const latest = new Map<string, JobPostListItem>();
+    for (const jobPost of jobPosts) {
+      const companyId = jobPost.company?.id;
+      if (!companyId || seen.has(companyId) || latest.has(companyId)) continue;
+      latest.set(companyId, jobPost);
+    }
+    latest.forEach((_, id) => seen.add(id));
+
+    for (const companyIds of groups(Array.from(latest.keys()))) {
+      const links = await getRepository().select("company_people", {
+        columns: ["company_id", "person_id", "role"],
+        filters: [
+          inList("company_id", companyIds),
+          ...(params.role ? [eq("role", params.role)] : []),
+        ],
+      });
+      const [people, companies] = await Promise.all([
+        loadPeople(
+          [...new Set(links.map((l) => l.person_id as string))],
+          params
+        ),
+        loadCompanies(companyIds),
+      ]);
+
+      for (const companyId of companyIds) {
+        const contacts = links
+          .filter((link) => link.company_id === companyId)
+          .flatMap((link) => {
+            const person = people.get(link.person_id);
+            return person ? [{ ...person, role: link.role }] : [];
+          });
+        if (requireContacts && contacts.length === 0) continue;
+        yield {
+          job_post: latest.get(companyId)!,
+          company: companies.get(companyId) ?? null,
+          contacts,
+        };
+      }
+    }
+  }
+}
+
+/**
+ * Header and row cells of a lead export. Column errors are thrown here,
+ * before any output is written.
+ */
+export function prepareLeadExport(params: LeadExportParams): {
+  header: string[];
+  rows: AsyncGenerator<XlsxCell[]>;
+} {
+  const columns = resolveColumns(params.rows, params.columns).map(
+    (key) => EXPORT_COLUMNS[key]
+  );
+  const source = params.rows === "companies" ? companyRows : contactRows;
+
+  return {
+    header: columns.map((column) => column.header),
+    rows: (async function* () {
+      let count = 0;
+      for await (const row of source(params)) {
+        if (params.limit !== undefined && count >= params.limit) return;
+        count++;
+        yield columns.map((column) => column.value(row) ?? null);
+      }
+    })(),
+  };
+}
+
+/**
+ * One CSV line (RFC 4180, CRLF). Text that a spreadsheet would run as a
+ * formula gets a leading apostrophe; phone numbers like +4791234567 are kept.
+ */
+export function csvLine(cells: XlsxCell[]): string {
+  return (
+    cells
+      .map((cell) => {
+        if (cell === null || cell === undefined) return "";
+        let value = String(cell);
+        if (
+          typeof cell === "string" &&
+          /^[=@\t\r]|^[+-](?![\d\s]+$)/.test(value)
+        ) {
+          value = `'${value}`;
+        }
+        return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+      })
+      .join(",") + "\r\n"
+  );
+}
+
+/**
+ * CSV export chunks: UTF-8 BOM (so Excel reads æøå), header, rows
+ */
+export async function* csvChunks(
+  header: string[],
+  rows: AsyncIterable<XlsxCell[]>
+): AsyncGenerator<string> {
+  yield "﻿" + csvLine(header);
+  for await (const row of rows) {
+    yield csvLine(row);
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * HubSpot CRM client: objects API (v3) for companies and contacts,
+ * associations API (v4), and the mapping of our company / person fields to
+ * HubSpot properties.
+ *
+ * The property map is configurable: HUBSPOT_PROPERTY_MAP_PATH points to a JSON
+ * file like {"companies": {"industry": "industry"}, "contacts": {"phone":
+ * null}} whose entries are merged over the defaults (null drops a default).
+ */
+
+import fs from "node:fs";
+import { z } from "zod";
+import { parseRetryAfter } from "./clay";
+
+export const HUBSPOT_BASE_URL =
+  process.env.HUBSPOT_BASE_URL ?? "https://api.hubapi.com";
+
+/**
+ * Check if the HubSpot sync is configured
+ */
+export function isHubSpotEnabled(): boolean {
+  return !!process.env.HUBSPOT_ACCESS_TOKEN;
+}
+
+// ============================================================
+// Fetcher
+// ============================================================
+
+/**
+ * Sends a JSON request to an API path (relative to the base URL); resolves
+ * null on 404
+ */
+export type HubSpotFetcher = (
+  method: "POST" | "PATCH" | "PUT",
+  path: string,
+  body?: unknown
+) => Promise<unknown | null>;
+
+const MAX_RATE_LIMIT_WAIT_MS = 10_000;
+
+/**
+ * Fetcher authenticated with a private app access token. Rate-limited
+ * requests (429) are retried after Retry-After (default 1s, doubling).
+ */
+export function createHubSpotFetcher(
+  options: { baseUrl?: string; accessToken?: string; maxRetries?: number } = {}
+): HubSpotFetcher {
+  const {
+    baseUrl = HUBSPOT_BASE_URL,
+    accessToken = process.env.HUBSPOT_ACCESS_TOKEN,
+    maxRetries = 3,
+  } = options;
+
+  return async (method, path, body) => {
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, "")}${path}`, {
+        method,
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      if (response.status === 404) return null;
+      if (response.status === 429 && attempt < maxRetries) {
+        const waitMs = Math.min(
+          MAX_RATE_LIMIT_WAIT_MS,
+          parseRetryAfter(response.headers.get("retry-after")) ??
+            1000 * 2 ** attempt
+        );
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
+        continue;
+      }
+
+      const text = await response.text();
+      const data = text ? JSON.parse(text) : {};
+      if (!response.ok) {
+        throw new Error(
+          `HubSpot ${method} ${path} failed: ${response.status} ${data?.message ?? response.statusText}`
+        );
+      }
+      return data;
+    }
+  };
+}
+
+// ============================================================
+// Objects API
+// ============================================================
+
+export type HubSpotObjectType = "companies" | "contacts";
+
+const HubSpotObjectSchema = z.object({
+  id: z.string(),
+  properties: z.record(z.string(), z.string().nullable()).default({}),
+});
+
+const HubSpotSearchSchema = z.object({
+  results: z.array(HubSpotObjectSchema).default([]),
+});
+
+export type HubSpotObject = z.infer<typeof HubSpotObjectSchema>;
+
+/**
+ * First object whose property equals the value
+ */
+export async function searchHubSpotObject(
+  type: HubSpotObjectType,
+  propertyName: string,
+  value: string,
+  fetcher: HubSpotFetcher = createHubSpotFetcher()
+): Promise<HubSpotObject | null> {
+  const data = await fetcher("POST", `/crm/v3/objects/${type}/search`, {
+    filterGroups: [{ filters: [{ propertyName, operator: "EQ", value }] }],
+    properties: [propertyName],
+    limit: 1,
+  });
+  if (!data) return null;
+  return HubSpotSearchSchema.parse(data).results[0] ?? null;
+}
+
+export async function createHubSpotObject(
+  type: HubSpotObjectType,
+  properties: Record<string, string>,
+  fetcher: HubSpotFetcher = createHubSpotFetcher()
+): Promise<HubSpotObject> {
+  const data = await fetcher("POST", `/crm/v3/objects/${type}`, {
+    properties,
+  });
+  return HubSpotObjectSchema.parse(data);
+}
+
+/**
+ * Update an object's properties; null when it no longer exists in HubSpot
+ */
+export async function updateHubSpotObject(
+  type: HubSpotObjectType,
+  id: string,
+  properties: Record<string, string>,
+  fetcher: HubSpotFetcher = createHubSpotFetcher()
+): Promise<HubSpotObject | null> {
+  const data = await fetcher(
+    "PATCH",
+    `/crm/v3/objects/${type}/${encodeURIComponent(id)}`,
+    { properties }
+  );
+  return data ? HubSpotObjectSchema.parse(data) : null;
+}
+
+/**
+ * Associate a contact with a company (default association, idempotent)
+ */
+export async function associateHubSpotContact(
+  contactId: string,
+  companyId: string,
+  fetcher: HubSpotFetcher = createHubSpotFetcher()
+): Promise<void> {
+  const data = await fetcher(
+    "PUT",
+    `/crm/v4/objects/contacts/${encodeURIComponent(contactId)}/associations/default/companies/${encodeURIComponent(companyId)}`
+  );
+  if (!data) {
+    throw new Error(
+      `HubSpot association failed: contact ${contactId} or company ${companyId} not found`
+    );
+  }
+}
+
+// ============================================================
+// Property mapping
+// ============================================================
+
+export const HUBSPOT_COMPANY_FIELDS = [
+  "name",
+  "clean_domain",
+  "orgnr",
+  "industry",
+  "company_size",
+  "location",
+  "sector",
+  "proff_url",
+  "turnover",
+  "profit_before_tax",
+] as const;
+
+// first_name / last_name: full_name split at the last space;
+// roles: the person's company_people roles, comma-separated
+export const HUBSPOT_CONTACT_FIELDS = [
+  "full_name",
+  "first_name",
+  "last_name",
+  "email",
+  "phone",
+  "linkedin_url",
+  "title",
+  "seniority",
+  "department",
+  "roles",
+] as const;
+
+export type HubSpotPropertyMap = {
+  companies: Partial<Record<(typeof HUBSPOT_COMPANY_FIELDS)[number], string>>;
+  contacts: Partial<Record<(typeof HUBSPOT_CONTACT_FIELDS)[number], string>>;
+};
+
+// Standard HubSpot properties, plus a custom "orgnr" company property
+// (create it in HubSpot or map orgnr to another property)
+export const DEFAULT_HUBSPOT_PROPERTY_MAP: HubSpotPropertyMap = {
+  companies: {
+    name: "name",
+    clean_domain: "domain",
+    orgnr: "orgnr",
+    location: "address",
+    company_size: "numberofemployees",
+  },
+  contacts: {
+    first_name: "firstname",
+    last_name: "lastname",
+    email: "email",
+    phone: "phone",
+    title: "jobtitle",
+  },
+};
+
+const propertyName = z.string().min(1).nullable();
+
+const PropertyMapFileSchema = z.object({
+  companies: z
+    .partialRecord(z.enum(HUBSPOT_COMPANY_FIELDS), propertyName)
+    .default({}),
+  contacts: z
+    .partialRecord(z.enum(HUBSPOT_CONTACT_FIELDS), propertyName)
+    .default({}),
+});
+
+const withoutNulls = <T extends Record<string, string | null | undefined>>(
+  map: T
+) =>
+  Object.fromEntries(
+    Object.entries(map).filter(([, property]) => property)
+  ) as Record<string, string>;
+
+let propertyMap: HubSpotPropertyMap | null = null;
+
+/**
+ * Property map in use: the defaults with HUBSPOT_PROPERTY_MAP_PATH merged over
+ */
+export function getHubSpotPropertyMap(): HubSpotPropertyMap {
+  if (propertyMap) return propertyMap;
+  const path = process.env.HUBSPOT_PROPERTY_MAP_PATH;
+  const raw = path ? JSON.parse(fs.readFileSync(path, "utf8")) : {};
+  const parsed = PropertyMapFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid HubSpot property map${path ? ` in ${path}` : ""}: ${parsed.error.message}`
+    );
+  }
+  const map = {
+    companies: withoutNulls({
+      ...DEFAULT_HUBSPOT_PROPERTY_MAP.companies,
+      ...parsed.data.companies,
+    }),
+    contacts: withoutNulls({
+      ...DEFAULT_HUBSPOT_PROPERTY_MAP.contacts,
+      ...parsed.data.contacts,
+    }),
+  };
+  // Contacts are matched by email
+  if (!map.contacts.email) {
+    throw new Error("Invalid HubSpot property map: contacts.email is required");
+  }
+  propertyMap = map;
+  return propertyMap;
+}
+
+/**
+ * HubSpot properties for our values. Empty values are left out, so the sync
+ * never clears what sellers entered in HubSpot.
+ */
+export function toHubSpotProperties(
+  values: Record<string, unknown>,
+  map: Record<string, string | undefined>
+): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const [field, property] of Object.entries(map)) {
+    const value = values[field];
+    if (!property || value === null || value === undefined || value === "") {
+      continue;
+    }
+    properties[property] = String(value);
+  }
+  return properties;
+}
+
+/**
+ * "Kari Nordmann Hansen" -> first "Kari Nordmann", last "Hansen"
+ */
+export function splitFullName(fullName: string): {
+  first_name: string | null;
+  last_name: string | null;
+} {
+  const parts = fullName.trim().split(/\s+/).filter(Boolean);
+  if (parts.length <= 1) return { first_name: parts[0] ?? null, last_name: null };
+  return {
+    first_name: parts.slice(0, -1).join(" "),
+    last_name: parts[parts.length - 1],
+  };
+}
@@ -0,0 +1,393 @@
+/**
+ * Source-neutral job ingestion: upserts company, job post, contact people and
+ * their links, then pushes the enriched job post to Clay.
+ *
+ * Adapters (Apify/finn.no in src/routes/ingest.ts, NAV in src/lib/nav.ts)
+ * map their payloads into JobIngestPayload and call ingestJobPost.
+ */
+
+import {
+  normalizeDomainHost,
+  normalizeCompanyDomain,
+  normalizePhone,
+  normalizeEmail,
+  normalizeDate,
+  parseOrgnr,
+  normalizeCompanyNameForMatching,
+  isValidPersonName,
+  normalizeNameForComparison,
+} from "./normalize";
+import { buildCompanyKey, buildPersonKey } from "./keys";
+import { phoneLineType } from "./phone";
+import { emailType } from "./email";
+import { recordPersonContactPoints } from "./contact-points";
+import { classifyPersonRole, personTitleFields } from "./role-classification";
+import {
+  upsertCompanySmart,
+  upsertJobPostSmart,
+  upsertPeople,
+  upsertJobPostPeople,
+  upsertCompanyPeople,
+  getDecisionMakersByCompanyId,
+  findPersonByNameAndDomain,
+  CompanyRecord,
+  PersonRecord,
+  JobPostRecord,
+} from "./db";
+import { isClayWebhookEnabled } from "./clay";
+import { deliverClayOutbox } from "./clay-outbox";
+import { syncJobPostToClay } from "./clay-sync";
+import { JobRef } from "./job-boards";
+import { assignJobPostToVacancy } from "./vacancies";
+
+export type ContactPersonInput = {
+  name: string;
+  role?: string;
+  phoneNumber?: string;
+  email?: string;
+  linkedin?: string;
+};
+
+/**
+ * Job payload shared by all ingest adapters (field names follow the Apify Finn scraper)
+ */
+export type JobIngestPayload = {
+  url: string;
+  title: string;
+  description: string;
+  company: string;
+  contactPersons: ContactPersonInput[];
+  applicationUrl?: string;
+  location?: string;
+  employmentType?: string;
+  email?: string;
+  salary?: string;
+  publicationDate?: string;
+  expirationDate?: string;
+  companyLogoUrl?: string;
+  domain?: string;
+  orgnr?: string;
+  sector?: string;
+  industries?: string[];
+  positionFunctions?: string[];
+  language?: string;
+};
+
+export type IngestJobResult = Awaited<ReturnType<typeof ingestJobPost>>;
+
+// Payload value that failed validation and was ignored
+export type IngestRejection = {
+  field: string;
+  value: string;
+  reason: string;
+};
+
+/**
+ * Ingest a single job post under the given source.
+ * `jobRef` identifies the posting on its board (see parseJobUrl).
+ * `rawPayload` is stored on job_posts.raw_payload (defaults to the mapped payload).
+ */
+export async function ingestJobPost(
+  payload: JobIngestPayload,
+  jobRef: JobRef,
+  source: string | null,
+  rawPayload: unknown = payload
+) {
+  // Extract domain, but prefer payload.domain over extracting from URL
+  // If domain is missing or invalid, buildCompanyKey will fall back to company name
+  // Platform domains (finn.no, webcruiter.no...) are dropped
+  const companyDomain = normalizeCompanyDomain(payload.domain);
+
+  // Invalid orgnr values are dropped (the company key falls back to
+  // domain/name) and reported in the result
+  const rejected: IngestRejection[] = [];
+  const parsedOrgnr = parseOrgnr(payload.orgnr);
+  if (parsedOrgnr.rejected) {
+    rejected.push({
+      field: "orgnr",
+      value: payload.orgnr!,
+      reason: parsedOrgnr.rejected,
+    });
+  }
+  const companyOrgnr = parsedOrgnr.orgnr;
+
+  const companyKey = buildCompanyKey({
+    orgnr: companyOrgnr,
+    domain_host: companyDomain,
+    name: payload.company,
+  });
+
+  // Build company record with all available data from scraper
+  // Only include fields that have values to preserve existing data on updates
+  const company: CompanyRecord = {
+    company_key: companyKey,
+    name: payload.company,
+    ...(companyDomain && { domain: companyDomain }),
+    ...(companyDomain && { clean_domain: companyDomain }), // clean_domain is same as normalized domain
+    ...(companyOrgnr && { orgnr: companyOrgnr }),
+    ...(payload.sector && { sector: payload.sector }),
+    ...(payload.industries &&
+      payload.industries.length > 0 && { industry: payload.industries[0] }), // Use first industry if available
+    ...(payload.location && { location: payload.location }),
+  };
+
+  // Upsert company using smart matching (checks orgnr, clean_domain, name)
+  const companyResult = await upsertCompanySmart(company, { source });
+  const companyId = companyResult.id;
+  const actualCompanyKey = companyResult.company_key; // May differ from buildCompanyKey if matched existing
+
+  const job: JobPostRecord = {
+    board: jobRef.board,
+    external_id: jobRef.external_id,
+    finn_id: jobRef.board === "finn" ? jobRef.external_id : null,
+    company_id: companyId,
+    finn_url: payload.url,
+    title: payload.title,
+    description: payload.description,
+    application_url: payload.applicationUrl ?? null,
+    contact_email: payload.email ?? null,
+    location: payload.location ?? null,
+    employment_type: payload.employmentType ?? null,
+    salary: payload.salary ?? null,
+    publication_date: normalizeDate(payload.publicationDate),
+    expiration_date: normalizeDate(payload.expirationDate),
+    sector: payload.sector ?? null,
+    industries: payload.industries ?? null,
+    position_functions: payload.positionFunctions ?? null,
+    language: payload.language ?? null,
+    company_logo_url: payload.companyLogoUrl ?? null,
+    company_name: payload.company,
+    company_domain_host: companyDomain,
+    source: source,
+    raw_payload: rawPayload,
+  };
+
+  // Upsert job post (appends source if job already exists from another scraper)
+  const jobResult = await upsertJobPostSmart(job);
+
+  // Group cross-board duplicates into one vacancy; people links and the Clay
+  // row live on the vacancy's primary posting
+  const vacancy = await assignJobPostToVacancy(jobResult.id);
+  const jobPostId = vacancy.primary_job_post_id;
+
+  // Filter out invalid names (single-word names like "Wiggen" are not valid)
+  const validContactPersons = payload.contactPersons.filter((p) =>
+    isValidPersonName(p.name)
+  );
+
+  // Process people: check for existing by name+domain first, then create new records
+  const personIdByKey = new Map<string, string>();
+  const personIdByNameDomain = new Map<string, string>();
+  const pendingNameDomainByPersonKey = new Map<string, string>();
+  const peopleToUpsert: PersonRecord[] = [];
+  const normalizedCompanyName = normalizeCompanyNameForMatching(payload.company);
+  const normalizedCompanyDomain = normalizeDomainHost(companyDomain);
+
+  const buildNameDomainKey = (name?: string | null) => {
+    const normalizedName = normalizeNameForComparison(name);
+    if (!normalizedName || !normalizedCompanyDomain) return null;
+    return `${normalizedName}|${normalizedCompanyDomain}`;
+  };
+
+  for (const p of validContactPersons) {
+    // Check if person already exists by name + domain (prevents duplicates)
+    if (companyDomain) {
+      const existing = await findPersonByNameAndDomain(p.name, companyDomain);
+      if (existing) {
+        // Use existing person - they already exist in DB
+        personIdByKey.set(existing.person_key, existing.id);
+        await recordPersonContactPoints(
+          existing.id,
+          { email: p.email, phone: p.phoneNumber, linkedin_url: p.linkedin },
+          source
+        );
+        const nameDomainKey = buildNameDomainKey(p.name);
+        if (nameDomainKey) {
+          personIdByNameDomain.set(nameDomainKey, existing.id);
+        }
+        continue;
+      }
+    }
+
+    // Build new person record
+    const personKey = buildPersonKey({
+      linkedin_url: p.linkedin,
+      email: p.email,
+      phone: p.phoneNumber,
+      company_domain: companyDomain,
+      company_key: actualCompanyKey,
+      company_name: payload.company,
+      full_name: p.name,
+    });
+    const nameDomainKey = buildNameDomainKey(p.name);
+    if (nameDomainKey) {
+      pendingNameDomainByPersonKey.set(personKey, nameDomainKey);
+    }
+
+    peopleToUpsert.push({
+      person_key: personKey,
+      full_name: p.name,
+      title: p.role ?? null,
+      ...personTitleFields(p.role),
+      phone: normalizePhone(p.phoneNumber),
+      phone_type: phoneLineType(p.phoneNumber),
+      email: normalizeEmail(p.email),
+      email_type: emailType(p.email),
+      linkedin_url: p.linkedin ?? null,
+      ...(normalizedCompanyName && {
+        normalized_company_name: normalizedCompanyName,
+      }),
+      ...(companyDomain && { normalized_company_domain: companyDomain }),
+    });
+  }
+
+  let peopleResult = {
+    inserted: 0,
+    updated: 0,
+    records: [] as (PersonRecord & { id: string })[],
+  };
+
+  // Upsert new people and add their IDs to the map
+  if (peopleToUpsert.length > 0) {
+    peopleResult = await upsertPeople(peopleToUpsert);
+    for (const person of peopleResult.records) {
+      if (person.person_key && person.id) {
+        personIdByKey.set(person.person_key, person.id);
+        await recordPersonContactPoints(person.id, person, source);
+        const nameDomainKey = pendingNameDomainByPersonKey.get(
+          person.person_key
+        );
+        if (nameDomainKey) {
+          personIdByNameDomain.set(nameDomainKey, person.id);
+        }
+      }
+    }
+  }
+
+  // Build link records with UUIDs, using role classification based on title
+  const jobPersonLinks = validContactPersons
+    .map((p) => {
+      // Find person ID by name+domain or exact person_key
+      const nameDomainKey = buildNameDomainKey(p.name);
+      let personId = nameDomainKey
+        ? personIdByNameDomain.get(nameDomainKey)
+        : undefined;
+      if (!personId) {
+        const expectedKey = buildPersonKey({
+          linkedin_url: p.linkedin,
+          email: p.email,
+          phone: p.phoneNumber,
+          company_domain: companyDomain,
+          company_key: actualCompanyKey,
+          company_name: payload.company,
+          full_name: p.name,
+        });
+        personId = personIdByKey.get(expectedKey);
+      }
+      if (!personId) return null;
+
+      const classifiedRole = classifyPersonRole(p.role);
+
+      return {
+        job_post_id: jobPostId,
+        person_id: personId,
+        role: classifiedRole,
+        role_source: "title",
+      };
+    })
+    .filter((link): link is NonNullable<typeof link> => link !== null);
+
+  const companyPersonLinks = validContactPersons
+    .map((p) => {
+      // Find person ID by name+domain or exact person_key
+      const nameDomainKey = buildNameDomainKey(p.name);
+      let personId = nameDomainKey
+        ? personIdByNameDomain.get(nameDomainKey)
+        : undefined;
+      if (!personId) {
+        const expectedKey = buildPersonKey({
+          linkedin_url: p.linkedin,
+          email: p.email,
+          phone: p.phoneNumber,
+          company_domain: companyDomain,
+          company_key: actualCompanyKey,
+          company_name: payload.company,
+          full_name: p.name,
+        });
+        personId = personIdByKey.get(expectedKey);
+      }
+      if (!personId) return null;
+
+      const classifiedRole = classifyPersonRole(p.role);
+
+      return {
+        company_id: companyId,
+        person_id: personId,
+        role: classifiedRole,
+        role_source: "title",
+      };
+    })
+    .filter((link): link is NonNullable<typeof link> => link !== null);
+
+  // Enrich job post with decision makers from the company
+  // But exclude decision makers who are already linked as decision_maker to avoid duplicates
+  const decisionMakerIds = await getDecisionMakersByCompanyId(companyId);
+  const existingDecisionMakerPersonIds = new Set(
+    jobPersonLinks
+      .filter((link) => link.role === "decision_maker")
+      .map((link) => link.person_id)
+  );
+  const decisionMakerLinks = decisionMakerIds
+    .filter((personId) => !existingDecisionMakerPersonIds.has(personId))
+    .map((personId) => ({
+      job_post_id: jobPostId,
+      person_id: personId,
+      role: "decision_maker" as const,
+      role_source: "company",
+    }));
+
+  // Combine contact persons and decision makers for job_post_people
+  const allJobPersonLinks = [...jobPersonLinks, ...decisionMakerLinks];
+
+  const results = {
+    companies: {
+      inserted: companyResult.isNew ? 1 : 0,
+      updated: companyResult.isNew ? 0 : 1,
+      matched_existing: !companyResult.isNew,
+    },
+    job_posts: {
+      inserted: jobResult.isNew ? 1 : 0,
+      updated: jobResult.isNew ? 0 : 1,
+    },
+    vacancy: {
+      id: vacancy.vacancy_id,
+      primary_job_post_id: vacancy.primary_job_post_id,
+      matched_existing: vacancy.matched_existing,
+    },
+    people: {
+      inserted: peopleResult.inserted,
+      updated: 0,
+      existing_matched: validContactPersons.length - peopleToUpsert.length,
+    },
+    job_post_people: await upsertJobPostPeople(allJobPersonLinks),
+    company_people: await upsertCompanyPeople(companyPersonLinks),
+    decision_makers_linked: decisionMakerLinks.length,
+    rejected,
+  };
+
+  // Queue the Clay delivery before responding so a Clay outage can't drop it
+  // (skipped when Clay already has this payload). The first attempt runs after
+  // the response; /cron/clay-outbox retries failures.
+  if (isClayWebhookEnabled()) {
+    const claySync = await syncJobPostToClay(jobPostId);
+    if (claySync.status === "queued") {
+      setImmediate(() => {
+        deliverClayOutbox({ ids: [claySync.outbox_id] }).catch((error) =>
+          console.error("[Clay] Error delivering webhook:", error)
+        );
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,152 @@
+/**
+ * Job board identifiers.
+ *
+ * Job posts are identified by (board, external_id) - e.g. ("finn", "445216243")
+ * or ("nav", "<ad uuid>"). Each board registers a URL parser that extracts the
+ * board's own id from a posting URL.
+ */
+
+import { URL } from "node:url";
+import { extractFinnIdFromUrl } from "./normalize";
+
+export type JobRef = {
+  board: string;
+  external_id: string;
+};
+
+export type JobBoardParser = {
+  board: string;
+  // Host suffixes the parser applies to (e.g. "finn.no" also matches "www.finn.no")
+  hosts: string[];
+  parse: (url: URL) => string | null;
+};
+
+const hostMatches = (hostname: string, host: string) =>
+  hostname === host || hostname.endsWith(`.${host}`);
+
+const JOB_BOARD_PARSERS: JobBoardParser[] = [
+  {
+    // https://www.finn.no/job/ad/445216243, https://www.finn.no/job/fulltime/ad.html?finnkode=445216243
+    board: "finn",
+    hosts: ["finn.no"],
+    parse: (url) =>
+      extractFinnIdFromUrl(url.toString()) ||
+      url.searchParams.get("finnkode")?.match(/^\d+$/)?.[0] ||
+      null,
+  },
+  {
+    // https://arbeidsplassen.nav.no/stillinger/stilling/<uuid>
+    board: "nav",
+    hosts: ["arbeidsplassen.nav.no"],
+    parse: (url) =>
+      url.pathname.match(/\/stilling\/([0-9a-f-]{36})/i)?.[1].toLowerCase() ??
+      null,
+  },
+  {
+    // https://candidate.webcruiter.com/nb-no/Home/job/?advertid=4123456&company_id=...
+    // https://www.webcruiter.no/wcmain/advertViewPublic.aspx?oppdragsnr=4123456&company_id=...
+    board: "webcruiter",
+    hosts: ["webcruiter.no", "webcruiter.com"],
+    parse: (url) => {
+      const id =
+        url.searchParams.get("advertid") ??
+        url.searchParams.get("oppdragsnr") ??
+        url.searchParams.get("AdvertId");
+      return id && /^\d+$/.test(id) ? id : null;
+    },
+  },
+  {
+    // https://www.jobbnorge.no/ledige-stillinger/stilling/123456/slug
+    // https://www.jobbnorge.no/en/available-jobs/job/123456/slug
+    board: "jobbnorge",
+    hosts: ["jobbnorge.no"],
+    parse: (url) =>
+      url.pathname.match(/\/(?:stilling|job)\/(\d+)/i)?.[1] ??
+      url.searchParams.get("jobId")?.match(/^\d+$/)?.[0] ??
+      null,
+  },
+  {
+    // https://www.linkedin.com/jobs/view/3912345678/
+    // https://no.linkedin.com/jobs/view/senior-engineer-at-acme-3912345678
+    // https://www.linkedin.com/jobs/search/?currentJobId=3912345678
+    board: "linkedin",
+    hosts: ["linkedin.com"],
+    parse: (url) =>
+      url.pathname.match(/\/jobs\/view\/(?:[^/]*-)?(\d+)/i)?.[1] ??
+      url.searchParams.get("currentJobId")?.match(/^\d+$/)?.[0] ??
+      null,
+  },
+];
+
+/**
+ * Register an additional job board URL parser (later registrations win)
+ */
+export function registerJobBoard(parser: JobBoardParser) {
+  JOB_BOARD_PARSERS.unshift(parser);
+}
+
+export function listJobBoards(): string[] {
+  return Array.from(new Set(JOB_BOARD_PARSERS.map((p) => p.board)));
+}
+
+/**
+ * Parse a job posting URL into its (board, external_id).
+ * Returns null for URLs that no registered board recognizes.
+ */
+export function parseJobUrl(input?: string | null): JobRef | null {
+  if (!input) return null;
+  let url: URL;
+  try {
+    const trimmed = input.trim();
+    url = new URL(trimmed.includes("://") ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+  const hostname = url.hostname.toLowerCase();
+
+  for (const parser of JOB_BOARD_PARSERS) {
+    if (!parser.hosts.some((host) => hostMatches(hostname, host))) continue;
+    const externalId = parser.parse(url);
+    if (externalId) return { board: parser.board, external_id: externalId };
+  }
+  return null;
+}
+
+/**
+ * Stable string form of a job reference, e.g. "nav:9c8e2f4a-..."
+ */
+export function formatJobKey(ref: JobRef): string {
+  return `${ref.board}:${ref.external_id}`;
+}
+
+/**
+ * The legacy finn_id value for a job: the Finn code for finn.no posts,
+ * otherwise the "board:external_id" key (so Clay anchors stay unique).
+ */
+export function toLegacyFinnId(ref: JobRef): string {
+  return ref.board === "finn" ? ref.external_id : formatJobKey(ref);
+}
+
+/**
+ * Resolve a job reference as sent by clients (e.g. Clay's finn_id column):
+ * - a bare Finn code ("445216243")
+ * - a job key ("nav:9c8e2f4a-...")
+ * - any posting URL recognized by a registered board
+ */
+export function parseJobReference(value?: string | null): JobRef | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^\d+$/.test(trimmed)) return { board: "finn", external_id: trimmed };
+
+  const fromUrl = parseJobUrl(trimmed);
+  if (fromUrl) return fromUrl;
+
+  const keyMatch = trimmed.match(/^([a-z][a-z0-9_-]*):(?!\/\/)(.+)$/i);
+  if (keyMatch && listJobBoards().includes(keyMatch[1].toLowerCase())) {
+    return { board: keyMatch[1].toLowerCase(), external_id: keyMatch[2] };
+  }
+
+  return null;
+}
@@ -1,12 +1,12 @@
 import {
   canonicalizeLinkedInUrl,
   nameSlug,
-  normalizeDomainHost,
-  normalizeEmail,
+  normalizeCompanyDomain,
   normalizePhone,
   normalizeNameForKey,
   normalizeOrgnr,
 } from "./normalize";
+import { parseEmail } from "./email";
 
 export function buildCompanyKey(params: {
   orgnr?: string | null;
@@ -23,16 +23,14 @@ export function buildCompanyKey(params: {
   }
 
   // Priority 2: Use clean_domain if available (preferred over domain)
-  if (clean_domain) {
-    const normalizedCleanDomain = normalizeDomainHost(clean_domain);
-    if (normalizedCleanDomain && normalizedCleanDomain !== "finn.no") {
-      return normalizedCleanDomain; // Just the domain, no prefix
-    }
+  const normalizedCleanDomain = normalizeCompanyDomain(clean_domain);
+  if (normalizedCleanDomain) {
+    return normalizedCleanDomain; // Just the domain, no prefix
   }
 
-  // Priority 3: Try domain_host, but skip if it's finn.no (scraper default)
-  const normalizedDomain = normalizeDomainHost(domain_host);
-  if (normalizedDomain && normalizedDomain !== "finn.no") {
+  // Priority 3: Try domain_host (platform domains like finn.no are skipped)
+  const normalizedDomain = normalizeCompanyDomain(domain_host);
+  if (normalizedDomain) {
     return normalizedDomain; // Just the domain, no prefix
   }
 
@@ -58,9 +56,10 @@ export function buildPersonKey(params: {
   const linkedin = canonicalizeLinkedInUrl(params.linkedin_url);
   if (linkedin) return linkedin;
 
-  // Priority 2: Email (unique identifier)
-  const email = normalizeEmail(params.email);
-  if (email) return email;
+  // Priority 2: Email (unique identifier), unless it's a shared mailbox
+  // (post@, jobb@) or at a free-mail provider
+  const email = parseEmail(params.email);
+  if (email?.type === "personal") return email.email;
 
   // Priority 3: Phone (unique identifier)
   const phone = normalizePhone(params.phone);
@@ -70,8 +69,8 @@ export function buildPersonKey(params: {
   const personName = normalizeNameForKey(params.full_name);
   if (personName) {
     // Priority 4: Domain + name (preferred - domain is stable)
-    const domain = normalizeDomainHost(params.company_domain);
-    if (domain && domain !== "finn.no") {
+    const domain = normalizeCompanyDomain(params.company_domain);
+    if (domain) {
       return `${domain}_${personName}`;
     }
 
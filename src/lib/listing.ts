@@ -0,0 +1,470 @@
+/**
+ * Read API queries: companies, people and job posts with filters, sorting
+ * and cursor pagination (src/routes/read.ts).
+ *
+ * Pages are ordered by the sort column with id as tie-breaker. The cursor is
+ * the last row's (sort value, id); the next page is the rows sharing that
+ * sort value with a later id, then the rows after the value - two queries, as
+ * the repository has no OR filters. Rows with a null sort value come last
+ * ascending and first descending (Postgres' default) and are paged by id.
+ * Items use the EnrichedJobPost shapes.
+ */
+
+import {
+  getRepository,
+  eq,
+  gt,
+  gte,
+  lt,
+  ilike,
+  inList,
+  isNull,
+  notNull,
+  contains,
+  Filter,
+  OrderBy,
+  Row,
+} from "./repository";
+import { EnrichedJobPost } from "./db";
+
+export class ListingError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = statusCode === 404 ? "Not Found" : "Bad Request";
+  }
+}
+
+export type ListPage<T> = {
+  items: T[];
+  // Pass as `cursor` for the next page; null on the last page
+  next_cursor: string | null;
+};
+
+export type ListSort = { column: string; ascending: boolean };
+
+type Cursor = { value: unknown; id: string };
+
+const cursorOf = (row: Row, sort: ListSort): Cursor => ({
+  value: row[sort.column] ?? null,
+  id: row.id,
+});
+
+// Sort values are kept exactly as read (timestamps at full precision), so
+// the next page compares them with the stored column as they are
+const encodeCursor = (cursor: Cursor) =>
+  Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString(
+    "base64url"
+  );
+
+function decodeCursor(cursor: string): Cursor {
+  try {
+    const [value, id] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    if (typeof id === "string" && value !== undefined) return { value, id };
+  } catch {
+    // fall through
+  }
+  throw new ListingError(`Invalid cursor: ${cursor}`);
+}
+
+/**
+ * Queries for the rows after `after` in (sort column, id) order, in page
+ * order
+ */
+function pageSegments(
+  sort: ListSort,
+  after: Cursor | null
+): { filters: Filter[]; orderBy: OrderBy[] }[] {
+  const byId: OrderBy[] = [{ column: "id", ascending: sort.ascending }];
+  const bySort: OrderBy[] = [
+    { column: sort.column, ascending: sort.ascending },
+    ...byId,
+  ];
+  if (!after) return [{ filters: [], orderBy: bySort }];
+
+  // Strictly after the cursor in the page order
+  const past = sort.ascending ? gt : lt;
+  const nulls = { filters: [isNull(sort.column)], orderBy: byId };
+  if (after.value === null) {
+    const restOfNulls = {
+      filters: [isNull(sort.column), past("id", after.id)],
+      orderBy: byId,
+    };
+    return sort.ascending
+      ? [restOfNulls]
+      : [restOfNulls, { filters: [notNull(sort.column)], orderBy: bySort }];
+  }
+  return [
+    {
+      filters: [eq(sort.column, after.value), past("id", after.id)],
+      orderBy: byId,
+    },
+    { filters: [past(sort.column, after.value)], orderBy: bySort },
+    ...(sort.ascending ? [nulls] : []),
+  ];
+}
+
+// Rows fetched per query when a page keeps only some of them
+const KEEP_BATCH_SIZE = 500;
+
+/**
+ * One page of `table` ordered by (sort column, id). `keep` drops rows that
+ * can't be filtered in the query; more rows are read until the page is full.
+ */
+async function selectPage(
+  table: string,
+  params: {
+    columns: string[];
+    filters: Filter[];
+    sort: ListSort;
+    limit: number;
+    cursor?: string;
+    keep?: (rows: Row[]) => Promise<Row[]>;
+  }
+): Promise<{ rows: Row[]; next_cursor: string | null }> {
+  const repo = getRepository();
+  const { columns, filters, sort, limit, keep } = params;
+  const columnsWithSort = Array.from(new Set([...columns, "id", sort.column]));
+
+  let after = params.cursor ? decodeCursor(params.cursor) : null;
+  let rows: Row[] = [];
+  for (;;) {
+    const wanted = keep
+      ? Math.max(KEEP_BATCH_SIZE, limit + 1)
+      : limit + 1 - rows.length;
+    let batch: Row[] = [];
+    for (const segment of pageSegments(sort, after)) {
+      if (batch.length >= wanted) break;
+      batch = batch.concat(
+        await repo.select(table, {
+          columns: columnsWithSort,
+          filters: [...filters, ...segment.filters],
+          orderBy: segment.orderBy,
+          limit: wanted - batch.length,
+        })
+      );
+    }
+    rows = rows.concat(keep ? await keep(batch) : batch);
+    if (rows.length > limit || batch.length < wanted) break;
+    after = cursorOf(batch[batch.length - 1], sort);
+  }
+
+  const page = rows.slice(0, limit);
+  return {
+    rows: page,
+    next_cursor:
+      rows.length > limit
+        ? encodeCursor(cursorOf(page[page.length - 1], sort))
+        : null,
+  };
+}
+
+const pick = <T>(row: Row, columns: readonly string[]) =>
+  Object.fromEntries(
+    columns.map((column) => [column, row[column] ?? null])
+  ) as T;
+
+const contained = (value: string) => `%${value}%`;
+
+/**
+ * created_from (inclusive) / created_to (exclusive) filters, ISO dates or
+ * timestamps
+ */
+function createdRange(params: CreatedRange): Filter[] {
+  return [
+    ...(params.created_from ? [gte("created_at", params.created_from)] : []),
+    ...(params.created_to ? [lt("created_at", params.created_to)] : []),
+  ];
+}
+
+type CreatedRange = { created_from?: string; created_to?: string };
+
+type PageParams = { limit: number; cursor?: string };
+
+/**
+ * Person ids linked to a company, optionally with a role (company_people)
+ */
+async function companyPersonIds(
+  companyId: string,
+  role?: string
+): Promise<string[]> {
+  const links = await getRepository().select("company_people", {
+    columns: ["person_id"],
+    filters: [
+      eq("company_id", companyId),
+      ...(role ? [eq("role", role)] : []),
+    ],
+  });
+  return Array.from(new Set(links.map((link) => link.person_id as string)));
+}
+
+/**
+ * The people with a company_people link with `role`. A role alone matches
+ * too many people to filter by id list, so pages check their rows instead.
+ */
+const withRole =
+  (role: string) =>
+  async (rows: Row[]): Promise<Row[]> => {
+    if (rows.length === 0) return [];
+    const links = await getRepository().select("company_people", {
+      columns: ["person_id"],
+      filters: [
+        inList("person_id", rows.map((row) => row.id)),
+        eq("role", role),
+      ],
+    });
+    const linked = new Set(links.map((link) => link.person_id as string));
+    return rows.filter((row) => linked.has(row.id));
+  };
+
+// Companies
+
+const COMPANY_COLUMNS = [
+  "id",
+  "name",
+  "domain",
+  "clean_domain",
+  "orgnr",
+  "proff_url",
+  "industry",
+  "company_size",
+  "location",
+  "sector",
+  "profit_before_tax",
+  "turnover",
+  "created_at",
+] as const;
+
+export type CompanyListItem = EnrichedJobPost["company"] & {
+  created_at: string | null;
+};
+
+export const COMPANY_SORTS = ["created_at", "name"] as const;
+
+export async function listCompanies(
+  params: PageParams &
+    CreatedRange & {
+      q?: string;
+      sector?: string;
+      industry?: string;
+      location?: string;
+      has_orgnr?: boolean;
+      sort?: (typeof COMPANY_SORTS)[number];
+      order?: "asc" | "desc";
+    }
+): Promise<ListPage<CompanyListItem>> {
+  const filters: Filter[] = [
+    ...(params.q ? [ilike("name", contained(params.q))] : []),
+    ...(params.sector ? [ilike("sector", params.sector)] : []),
+    ...(params.industry
+      ? [ilike("industry", contained(params.industry))]
+      : []),
+    ...(params.location
+      ? [ilike("location", contained(params.location))]
+      : []),
+    ...(params.has_orgnr === undefined
+      ? []
+      : [params.has_orgnr ? notNull("orgnr") : isNull("orgnr")]),
+    ...createdRange(params),
+  ];
+  const { rows, next_cursor } = await selectPage("companies", {
+    columns: [...COMPANY_COLUMNS],
+    filters,
+    sort: {
+      column: params.sort ?? "created_at",
+      ascending: (params.order ?? "desc") === "asc",
+    },
+    limit: params.limit,
+    cursor: params.cursor,
+  });
+  return {
+    items: rows.map((row) => pick<CompanyListItem>(row, COMPANY_COLUMNS)),
+    next_cursor,
+  };
+}
+
+// People
+
+const PERSON_COLUMNS = [
+  "id",
+  "full_name",
+  "title",
+  "email",
+  "phone",
+  "linkedin_url",
+  "seniority",
+  "department",
+  "created_at",
+] as const;
+
+export type PersonListItem = EnrichedJobPost["decision_makers"][number] & {
+  seniority: string | null;
+  department: string | null;
+  created_at: string | null;
+  // company_people links
+  companies: { company_id: string; role: string }[];
+};
+
+export const PERSON_SORTS = ["created_at", "full_name"] as const;
+
+export async function listPeople(
+  params: PageParams &
+    CreatedRange & {
+      q?: string;
+      company_id?: string;
+      role?: string;
+      seniority?: string;
+      department?: string;
+      has_email?: boolean;
+      has_phone?: boolean;
+      sort?: (typeof PERSON_SORTS)[number];
+      order?: "asc" | "desc";
+    }
+): Promise<ListPage<PersonListItem>> {
+  const presence = (column: string, has?: boolean) =>
+    has === undefined ? [] : [has ? notNull(column) : isNull(column)];
+
+  const personIds = params.company_id
+    ? await companyPersonIds(params.company_id, params.role)
+    : null;
+  if (personIds?.length === 0) return { items: [], next_cursor: null };
+
+  const filters: Filter[] = [
+    ...(personIds ? [inList("id", personIds)] : []),
+    ...(params.q ? [ilike("full_name", contained(params.q))] : []),
+    ...(params.seniority ? [eq("seniority", params.seniority)] : []),
+    ...(params.department ? [eq("department", params.department)] : []),
+    ...presence("email", params.has_email),
+    ...presence("phone", params.has_phone),
+    ...createdRange(params),
+  ];
+  const { rows, next_cursor } = await selectPage("people", {
+    columns: [...PERSON_COLUMNS],
+    filters,
+    sort: {
+      column: params.sort ?? "created_at",
+      ascending: (params.order ?? "desc") === "asc",
+    },
+    limit: params.limit,
+    cursor: params.cursor,
+    keep: params.role && !params.company_id ? withRole(params.role) : undefined,
+  });
+
+  const links = rows.length
+    ? await getRepository().select("company_people", {
+        columns: ["company_id", "person_id", "role"],
+        filters: [inList("person_id", rows.map((row) => row.id))],
+      })
+    : [];
+  return {
+    items: rows.map((row) => ({
+      ...pick<Omit<PersonListItem, "companies">>(row, PERSON_COLUMNS),
+      companies: links
+        .filter((link) => link.person_id === row.id)
+        .map((link) => ({ company_id: link.company_id, role: link.role })),
+    })),
+    next_cursor,
+  };
+}
+
+// Job posts
+
+const JOB_POST_COLUMNS = [
+  "id",
+  "board",
+  "external_id",
+  "finn_id",
+  "finn_url",
+  "title",
+  "description",
+  "location",
+  "employment_type",
+  "salary",
+  "publication_date",
+  "expiration_date",
+  "application_url",
+  "sector",
+  "industries",
+  "source",
+  "created_at",
+  "vacancy_id",
+] as const;
+
+export type JobPostListItem = EnrichedJobPost["job_post"] & {
+  company: Pick<
+    EnrichedJobPost["company"],
+    "id" | "name" | "clean_domain"
+  > | null;
+};
+
+export const JOB_POST_SORTS = ["created_at", "publication_date"] as const;
+
+export async function listJobPosts(
+  params: PageParams &
+    CreatedRange & {
+      title?: string;
+      source?: string;
+      board?: string;
+      company_id?: string;
+      sector?: string;
+      industry?: string;
+      location?: string;
+      sort?: (typeof JOB_POST_SORTS)[number];
+      order?: "asc" | "desc";
+    }
+): Promise<ListPage<JobPostListItem>> {
+  const sortColumn = params.sort ?? "created_at";
+  const filters: Filter[] = [
+    ...(params.title ? [ilike("title", contained(params.title))] : []),
+    // source holds every source that sent the post ("apify,nav")
+    ...(params.source ? [ilike("source", contained(params.source))] : []),
+    ...(params.board ? [eq("board", params.board)] : []),
+    ...(params.company_id ? [eq("company_id", params.company_id)] : []),
+    ...(params.sector ? [ilike("sector", params.sector)] : []),
+    ...(params.industry ? [contains("industries", [params.industry])] : []),
+    ...(params.location
+      ? [ilike("location", contained(params.location))]
+      : []),
+    ...createdRange(params),
+    // Posts without a publication date are left out of that order
+    ...(sortColumn === "publication_date"
+      ? [notNull("publication_date")]
+      : []),
+  ];
+  const { rows, next_cursor } = await selectPage("job_posts", {
+    columns: [...JOB_POST_COLUMNS, "company_id"],
+    filters,
+    sort: {
+      column: sortColumn,
+      ascending: (params.order ?? "desc") === "asc",
+    },
+    limit: params.limit,
+    cursor: params.cursor,
+  });
+
+  const companyIds = Array.from(new Set(rows.map((row) => row.company_id)));
+  const companies = companyIds.length
+    ? await getRepository().select("companies", {
+        columns: ["id", "name", "clean_domain"],
+        filters: [inList("id", companyIds)],
+      })
+    : [];
+  const companyById = new Map(companies.map((c) => [c.id, c]));
+  return {
+    items: rows.map((row) => {
+      const company = companyById.get(row.company_id);
+      return {
+        ...pick<EnrichedJobPost["job_post"]>(row, JOB_POST_COLUMNS),
+        company: company
+          ? {
+              id: company.id,
+              name: company.name ?? null,
+              clean_domain: company.clean_domain ?? null,
+            }
+          : null,
+      };
+    }),
+    next_cursor,
+  };
+}
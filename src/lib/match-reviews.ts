@@ -0,0 +1,341 @@
+/**
+ * Review queue for uncertain entity matches (leadgen.match_reviews).
+ *
+ * When matching finds a likely but not certain duplicate, the pair is queued
+ * here instead of being merged. A pair is stored once per entity type
+ * (pair_key is order-independent); rejected pairs are known to be distinct
+ * and are never proposed again. Accepting a review merges the pair through
+ * company-merge.ts / person-merge.ts.
+ */
+
+import { getRepository, eq, inList, Filter, Row } from "./repository";
+import { COMPANY_MERGE_FIELDS, mergeCompanies } from "./company-merge";
+import {
+  PERSON_MERGE_FIELDS,
+  findDuplicatePeople,
+  mergePeople,
+} from "./person-merge";
+
+export type MatchEntityType = "company" | "person";
+
+export type MatchReviewStatus = "pending" | "accepted" | "rejected";
+
+export type MatchReview = {
+  id: string;
+  entity_type: MatchEntityType;
+  // The newly written entity and the existing one it may duplicate
+  entity_id: string;
+  candidate_id: string;
+  pair_key: string;
+  confidence: number;
+  // Scores and hints that produced the confidence
+  details: Record<string, unknown>;
+  status: MatchReviewStatus;
+  decided_at: string | null;
+  decision_note: string | null;
+  // Merge created when the review was accepted
+  merge_id: string | null;
+  created_at: string;
+};
+
+export type MatchFieldComparison = {
+  field: string;
+  entity_value: unknown;
+  candidate_value: unknown;
+  same: boolean;
+};
+
+// Review with both records side by side (null when a record no longer exists)
+export type MatchReviewComparison = MatchReview & {
+  entity: Row | null;
+  candidate: Row | null;
+  fields: MatchFieldComparison[];
+};
+
+export class MatchReviewError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = statusCode === 404 ? "Not Found" : "Bad Request";
+  }
+}
+
+const ENTITY_TABLES: Record<MatchEntityType, string> = {
+  company: "companies",
+  person: "people",
+};
+
+const COMPARISON_FIELDS: Record<MatchEntityType, readonly string[]> = {
+  company: ["company_key", ...COMPANY_MERGE_FIELDS],
+  person: ["person_key", ...PERSON_MERGE_FIELDS],
+};
+
+export const buildPairKey = (a: string, b: string) =>
+  [a, b].sort().join(":");
+
+export async function getMatchReviewByPair(
+  entityType: MatchEntityType,
+  a: string,
+  b: string
+): Promise<MatchReview | null> {
+  const [review] = await getRepository().select<MatchReview>("match_reviews", {
+    filters: [
+      eq("entity_type", entityType),
+      eq("pair_key", buildPairKey(a, b)),
+    ],
+    limit: 1,
+  });
+  return review ?? null;
+}
+
+/**
+ * True when a reviewer marked the pair as two different entities
+ */
+export async function isDistinctPair(
+  entityType: MatchEntityType,
+  a: string,
+  b: string
+): Promise<boolean> {
+  const review = await getMatchReviewByPair(entityType, a, b);
+  return review?.status === "rejected";
+}
+
+/**
+ * Pair keys (buildPairKey) of the pairs among `ids` that a reviewer marked
+ * as two different entities
+ */
+export async function distinctPairKeys(
+  entityType: MatchEntityType,
+  ids: string[]
+): Promise<Set<string>> {
+  if (ids.length < 2) return new Set();
+  const reviews = await getRepository().select<MatchReview>("match_reviews", {
+    columns: ["pair_key", "candidate_id"],
+    filters: [
+      eq("entity_type", entityType),
+      eq("status", "rejected"),
+      inList("entity_id", ids),
+    ],
+  });
+  return new Set(
+    reviews
+      .filter((review) => ids.includes(review.candidate_id))
+      .map((review) => review.pair_key)
+  );
+}
+
+/**
+ * Queue a pair for review. A pair already in the queue (in any status) is
+ * left as it is. Returns the queued review, or null when it already existed.
+ */
+export async function queueMatchReview(params: {
+  entity_type: MatchEntityType;
+  entity_id: string;
+  candidate_id: string;
+  confidence: number;
+  details?: Record<string, unknown>;
+}): Promise<MatchReview | null> {
+  const { entity_type, entity_id, candidate_id } = params;
+  if (entity_id === candidate_id) return null;
+  if (await getMatchReviewByPair(entity_type, entity_id, candidate_id)) {
+    return null;
+  }
+
+  const [review] = await getRepository().upsert<MatchReview>(
+    "match_reviews",
+    [
+      {
+        entity_type,
+        entity_id,
+        candidate_id,
+        pair_key: buildPairKey(entity_id, candidate_id),
+        confidence: params.confidence,
+        details: params.details ?? {},
+        status: "pending",
+      },
+    ],
+    { onConflict: ["entity_type", "pair_key"] }
+  );
+  console.log(
+    `[Match] Queued ${entity_type} pair ${entity_id} / ${candidate_id} for review (confidence ${params.confidence})`
+  );
+  return review;
+}
+
+const comparable = (value: unknown) =>
+  typeof value === "string" ? value.trim().toLowerCase() : value ?? null;
+
+async function withComparisons(
+  reviews: MatchReview[]
+): Promise<MatchReviewComparison[]> {
+  const rowsById = new Map<string, Row>();
+  for (const entityType of Object.keys(ENTITY_TABLES) as MatchEntityType[]) {
+    const ids = reviews
+      .filter((review) => review.entity_type === entityType)
+      .flatMap((review) => [review.entity_id, review.candidate_id]);
+    if (ids.length === 0) continue;
+    const rows = await getRepository().select(ENTITY_TABLES[entityType], {
+      filters: [inList("id", Array.from(new Set(ids)))],
+    });
+    for (const row of rows) rowsById.set(row.id, row);
+  }
+
+  return reviews.map((review) => {
+    const entity = rowsById.get(review.entity_id) ?? null;
+    const candidate = rowsById.get(review.candidate_id) ?? null;
+    const fields = COMPARISON_FIELDS[review.entity_type].map((field) => ({
+      field,
+      entity_value: entity?.[field] ?? null,
+      candidate_value: candidate?.[field] ?? null,
+      same: comparable(entity?.[field]) === comparable(candidate?.[field]),
+    }));
+    return { ...review, entity, candidate, fields };
+  });
+}
+
+/**
+ * Reviews with side-by-side field comparison, newest first
+ */
+export async function listMatchReviews(
+  params: {
+    entity_type?: MatchEntityType;
+    status?: MatchReviewStatus;
+    limit?: number;
+  } = {}
+): Promise<MatchReviewComparison[]> {
+  const filters: Filter[] = [eq("status", params.status ?? "pending")];
+  if (params.entity_type) filters.push(eq("entity_type", params.entity_type));
+
+  const reviews = await getRepository().select<MatchReview>("match_reviews", {
+    filters,
+    orderBy: [{ column: "created_at", ascending: false }],
+    limit: params.limit ?? 50,
+  });
+  return withComparisons(reviews);
+}
+
+export async function getMatchReview(
+  id: string
+): Promise<MatchReviewComparison> {
+  const [review] = await getRepository().select<MatchReview>("match_reviews", {
+    filters: [eq("id", id)],
+    limit: 1,
+  });
+  if (!review) throw new MatchReviewError(`Review not found: ${id}`, 404);
+  const [comparison] = await withComparisons([review]);
+  return comparison;
+}
+
+async function decide(
+  review: MatchReview,
+  patch: {
+    status: MatchReviewStatus;
+    decision_note?: string | null;
+    merge_id?: string | null;
+  }
+): Promise<MatchReview> {
+  const [decided] = await getRepository().update<MatchReview>(
+    "match_reviews",
+    [eq("id", review.id)],
+    { ...patch, decided_at: new Date().toISOString() }
+  );
+  console.log(
+    `[Match] Review ${review.id} (${review.entity_type}) ${patch.status}`
+  );
+  return decided;
+}
+
+const assertPending = (review: MatchReview) => {
+  if (review.status !== "pending") {
+    throw new MatchReviewError(
+      `Review ${review.id} is already ${review.status}`
+    );
+  }
+};
+
+/**
+ * Accept a review: merge the pair (the existing candidate survives unless
+ * `survivor_id` says otherwise) and mark the review accepted
+ */
+export async function acceptMatchReview(
+  id: string,
+  params: { survivor_id?: string; note?: string | null } = {}
+): Promise<{ review: MatchReview; merge: { merge_id: string | null } }> {
+  const review = await getMatchReview(id);
+  assertPending(review);
+
+  const pair = [review.entity_id, review.candidate_id];
+  const survivorId = params.survivor_id ?? review.candidate_id;
+  if (!pair.includes(survivorId)) {
+    throw new MatchReviewError("survivor_id must be one of the reviewed pair");
+  }
+  const reason = `match review ${review.id}`;
+  const merge =
+    review.entity_type === "company"
+      ? await mergeCompanies({
+          company_ids: pair,
+          survivor_id: survivorId,
+          reason,
+        })
+      : await mergePeople({
+          person_ids: pair,
+          survivor_id: survivorId,
+          reason,
+        });
+
+  const decided = await decide(review, {
+    status: "accepted",
+    decision_note: params.note ?? null,
+    merge_id: merge.merge_id,
+  });
+  return { review: decided, merge };
+}
+
+/**
+ * Reject a review: the pair is recorded as two distinct entities
+ */
+export async function rejectMatchReview(
+  id: string,
+  params: { note?: string | null } = {}
+): Promise<MatchReview> {
+  const review = await getMatchReview(id);
+  assertPending(review);
+  return decide(review, {
+    status: "rejected",
+    decision_note: params.note ?? null,
+  });
+}
+
+/**
+ * Queue likely duplicate people for review: every group of the duplicate
+ * report without conflicts becomes pairs of its best-ranked person with each
+ * other member. Shared identifiers give a higher confidence than a shared
+ * name alone.
+ */
+export async function queuePersonDuplicateReviews(
+  params: { company_id?: string } = {}
+): Promise<{ groups: number; queued: number }> {
+  // Every group, not only the largest ones the report shows
+  const groups = await findDuplicatePeople({
+    company_id: params.company_id,
+    limit: Infinity,
+  });
+  let queued = 0;
+  for (const group of groups) {
+    if (group.conflicts.length > 0) continue;
+    const sharesIdentifier = group.reasons.some(
+      (reason) => reason !== "name_company" && reason !== "name_domain"
+    );
+    const [best, ...others] = group.person_ids;
+    for (const personId of others) {
+      const review = await queueMatchReview({
+        entity_type: "person",
+        entity_id: personId,
+        candidate_id: best,
+        confidence: sharesIdentifier ? 0.95 : 0.85,
+        details: { method: "duplicate_report", reasons: group.reasons },
+      });
+      if (review) queued++;
+    }
+  }
+  return { groups: groups.length, queued };
+}
@@ -0,0 +1,312 @@
+/**
+ * NAV Arbeidsplassen job feed adapter (pam-stilling-feed).
+ *
+ * The feed is a paginated JSON Feed: each page lists feed entries (ad uuid +
+ * status) and links to the next page. Full ads are fetched per entry and
+ * mapped into JobIngestPayload, so they go through the same company/job/
+ * contact-person flow as Apify/finn.no jobs - including orgnr, which NAV provides.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { htmlToText } from "./normalize";
+import { ingestJobPost, JobIngestPayload } from "./ingest";
+import { IngestSource, saveIngestSourceCursor } from "./sources";
+import { JobRef } from "./job-boards";
+
+export const NAV_FEED_BASE_URL =
+  process.env.NAV_FEED_BASE_URL ?? "https://pam-stilling-feed.nav.no";
+export const NAV_FEED_START_PATH = "/api/v1/feed";
+
+// ============================================================
+// Feed schemas (only the fields we use; NAV adds fields over time)
+// ============================================================
+
+const nullableString = z.string().nullish();
+
+const NavFeedItemSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  title: nullableString,
+  date_modified: nullableString,
+  _feed_entry: z.object({
+    uuid: z.string(),
+    status: z.string(),
+    title: nullableString,
+    businessName: nullableString,
+    municipal: nullableString,
+    sistEndret: nullableString,
+  }),
+});
+
+export const NavFeedPageSchema = z.object({
+  id: nullableString,
+  next_url: nullableString,
+  items: z.array(NavFeedItemSchema).default([]),
+});
+
+const NavAdSchema = z.object({
+  uuid: z.string(),
+  published: nullableString,
+  expires: nullableString,
+  updated: nullableString,
+  workLocations: z
+    .array(
+      z.object({
+        country: nullableString,
+        address: nullableString,
+        city: nullableString,
+        postalCode: nullableString,
+        county: nullableString,
+        municipal: nullableString,
+      })
+    )
+    .nullish()
+    .transform((v) => v ?? []),
+  contactList: z
+    .array(
+      z.object({
+        name: nullableString,
+        email: nullableString,
+        phone: nullableString,
+        role: nullableString,
+        title: nullableString,
+      })
+    )
+    .nullish()
+    .transform((v) => v ?? []),
+  title: z.string(),
+  description: nullableString,
+  sourceurl: nullableString,
+  source: nullableString,
+  applicationUrl: nullableString,
+  applicationDue: nullableString,
+  occupationCategories: z
+    .array(z.object({ level1: nullableString, level2: nullableString }))
+    .nullish()
+    .transform((v) => v ?? []),
+  jobtitle: nullableString,
+  link: nullableString,
+  employer: z.object({
+    name: z.string(),
+    orgnr: nullableString,
+    description: nullableString,
+    homepage: nullableString,
+  }),
+  engagementtype: nullableString,
+  extent: nullableString,
+  starttime: nullableString,
+  positioncount: nullableString,
+  sector: nullableString,
+});
+
+export const NavFeedEntrySchema = z.object({
+  uuid: z.string(),
+  status: z.string(),
+  sistEndret: nullableString,
+  ad_content: NavAdSchema.nullish(),
+});
+
+export type NavFeedPage = z.infer<typeof NavFeedPageSchema>;
+export type NavFeedEntry = z.infer<typeof NavFeedEntrySchema>;
+export type NavAd = z.infer<typeof NavAdSchema>;
+
+// ============================================================
+// Fetchers
+// ============================================================
+
+/** Fetches a feed URL (absolute or relative to the feed base) and returns parsed JSON */
+export type NavFeedFetcher = (url: string) => Promise<unknown>;
+
+const resolveFeedUrl = (url: string) =>
+  new URL(url, NAV_FEED_BASE_URL).toString();
+
+/**
+ * Fetcher for the live feed. NAV requires a bearer token (NAV_FEED_TOKEN).
+ */
+export function createNavFeedFetcher(
+  token: string | undefined = process.env.NAV_FEED_TOKEN
+): NavFeedFetcher {
+  return async (url) => {
+    const response = await fetch(resolveFeedUrl(url), {
+      headers: {
+        Accept: "application/json",
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+    });
+    if (!response.ok) {
+      throw new Error(
+        `NAV feed request failed: ${response.status} ${response.statusText}`
+      );
+    }
+    return response.json();
+  };
+}
+
+/**
+ * Fetcher that serves recorded responses from a fixture directory.
+ * The URL path below /api/v1/ maps to a file name with "/" replaced by "-":
+ *   /api/v1/feed             -> feed.json
+ *   /api/v1/feed/<id>        -> feed-<id>.json
+ *   /api/v1/feedentry/<uuid> -> feedentry-<uuid>.json
+ */
+export function createFixtureNavFetcher(dir: string): NavFeedFetcher {
+  return async (url) => {
+    const pathname = new URL(url, NAV_FEED_BASE_URL).pathname;
+    const name = pathname.replace(/^\/api\/v1\//, "").replace(/\//g, "-");
+    const file = path.join(dir, `${name}.json`);
+    if (!fs.existsSync(file)) {
+      throw new Error(`No NAV fixture for ${url} (expected ${file})`);
+    }
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  };
+}
+
+// ============================================================
+// Mapping
+// ============================================================
+
+const titleCase = (value: string) =>
+  value.toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (m) => m.toUpperCase());
+
+/**
+ * Job reference for a NAV ad (job_posts are keyed on board + external_id)
+ */
+export const navJobRef = (uuid: string): JobRef => ({
+  board: "nav",
+  external_id: uuid.toLowerCase(),
+});
+
+export function navAdUrl(ad: NavAd): string {
+  return (
+    ad.link || `https://arbeidsplassen.nav.no/stillinger/stilling/${ad.uuid}`
+  );
+}
+
+/**
+ * Map a NAV ad into the shared ingest payload
+ */
+export function mapNavAdToJob(ad: NavAd): JobIngestPayload {
+  const location = ad.workLocations
+    .map((l) => l.city || l.municipal || l.county)
+    .find(Boolean);
+
+  const employmentType = [ad.engagementtype, ad.extent]
+    .filter(Boolean)
+    .join(", ");
+
+  const positionFunctions = Array.from(
+    new Set(
+      ad.occupationCategories
+        .map((c) => c.level2 || c.level1)
+        .filter((c): c is string => Boolean(c))
+    )
+  );
+
+  return {
+    url: navAdUrl(ad),
+    title: ad.title,
+    description: htmlToText(ad.description) ?? "",
+    company: ad.employer.name,
+    contactPersons: ad.contactList
+      .filter((c) => c.name)
+      .map((c) => ({
+        name: c.name!,
+        ...((c.title || c.role) && { role: (c.title || c.role)! }),
+        ...(c.phone && { phoneNumber: c.phone }),
+        ...(c.email && { email: c.email }),
+      })),
+    ...(ad.applicationUrl && { applicationUrl: ad.applicationUrl }),
+    ...(location && { location: titleCase(location) }),
+    ...(employmentType && { employmentType }),
+    ...(ad.published && { publicationDate: ad.published }),
+    ...((ad.applicationDue || ad.expires) && {
+      expirationDate: (ad.applicationDue || ad.expires)!,
+    }),
+    ...(ad.employer.homepage && { domain: ad.employer.homepage }),
+    ...(ad.employer.orgnr && { orgnr: ad.employer.orgnr }),
+    ...(ad.sector && { sector: ad.sector }),
+    ...(positionFunctions.length > 0 && { positionFunctions }),
+  };
+}
+
+// ============================================================
+// Import
+// ============================================================
+
+export type NavImportResult = {
+  pages: number;
+  total: number;
+  ok: number;
+  failed: number;
+  inactive: number;
+  cursor: string | null;
+};
+
+/**
+ * Read the NAV feed for a source, starting at its saved cursor, and ingest
+ * every active ad. Advances and persists the cursor after each page so an
+ * interrupted run resumes where it stopped.
+ */
+export async function importNavFeed(params: {
+  source: IngestSource;
+  fetcher?: NavFeedFetcher;
+  maxPages?: number;
+}): Promise<NavImportResult> {
+  const { source, fetcher = createNavFeedFetcher(), maxPages = 5 } = params;
+  const label = `[${source.name.toUpperCase()}]`;
+
+  const result: NavImportResult = {
+    pages: 0,
+    total: 0,
+    ok: 0,
+    failed: 0,
+    inactive: 0,
+    cursor: source.feed_cursor,
+  };
+
+  let pageUrl: string | null =
+    source.feed_cursor || source.dataset_url || NAV_FEED_START_PATH;
+
+  while (pageUrl && result.pages < maxPages) {
+    const page = NavFeedPageSchema.parse(await fetcher(pageUrl));
+    result.pages++;
+
+    for (const item of page.items) {
+      result.total++;
+      if (item._feed_entry.status !== "ACTIVE") {
+        result.inactive++;
+        continue;
+      }
+
+      try {
+        const entry = NavFeedEntrySchema.parse(await fetcher(item.url));
+        if (!entry.ad_content) {
+          result.inactive++;
+          continue;
+        }
+        await ingestJobPost(
+          mapNavAdToJob(entry.ad_content),
+          navJobRef(entry.ad_content.uuid),
+          source.name,
+          entry
+        );
+        result.ok++;
+      } catch (err: any) {
+        result.failed++;
+        console.error(`${label} Feed entry ${item.id} failed:`, err?.message);
+      }
+    }
+
+    // The last page has no next_url yet; re-read it next run to pick up new items
+    const nextUrl: string | null = page.next_url ?? null;
+    result.cursor = nextUrl || pageUrl;
+    await saveIngestSourceCursor(source.id, result.cursor);
+
+    if (!nextUrl || page.items.length === 0) break;
+    pageUrl = nextUrl;
+  }
+
+  return result;
+}
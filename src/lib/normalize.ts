@@ -1,7 +1,14 @@
 import { URL } from "node:url";
+import { parseEmail } from "./email";
+import { parsePhone } from "./phone";
+import { registrableDomain } from "./public-suffix";
 
 const stripTrailingSlash = (value: string) => value.replace(/\/+$/, "");
 
+/**
+ * Registrable domain of a URL or hostname ("https://karriere.equinor.com/jobs"
+ * -> "equinor.com"), or null when there is none
+ */
 export function normalizeDomainHost(input?: string | null): string | null {
   if (!input) return null;
   const trimmed = input.trim();
@@ -19,11 +26,41 @@ export function normalizeDomainHost(input?: string | null): string | null {
     hostname = withoutScheme.split("/")[0].toLowerCase();
   }
 
-  // Strip common prefixes like www., www2., www3., etc.
-  // This ensures "www.wpg.no" becomes "wpg.no"
-  hostname = hostname.replace(/^www\d*\./i, "");
+  // Subdomains (www., karriere., jobs.) are dropped with the public suffix list
+  return hostname ? registrableDomain(hostname) : null;
+}
 
-  return hostname || null;
+// Job boards, ATS and social platforms that appear as the "domain" of a job
+// post but never identify the employer. Extend with PLATFORM_DOMAINS
+// (comma-separated).
+export const PLATFORM_DOMAINS = new Set([
+  "finn.no",
+  "webcruiter.no",
+  "webcruiter.com",
+  "jobbnorge.no",
+  "linkedin.com",
+  "indeed.com",
+  "karrierestart.no",
+  "teamtailor.com",
+  "jobylon.com",
+  "recman.no",
+  "hrmanager.no",
+  "easycruit.com",
+  "reachmee.com",
+  "facebook.com",
+  ...(process.env.PLATFORM_DOMAINS ?? "")
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean),
+]);
+
+/**
+ * Registrable domain usable as a company identifier: null for platform
+ * domains (see PLATFORM_DOMAINS)
+ */
+export function normalizeCompanyDomain(input?: string | null): string | null {
+  const domain = normalizeDomainHost(input);
+  return domain && !PLATFORM_DOMAINS.has(domain) ? domain : null;
 }
 
 export function extractFinnIdFromUrl(url?: string | null): string | null {
@@ -55,51 +92,77 @@ export function canonicalizeLinkedInUrl(url?: string | null): string | null {
   }
 }
 
+/**
+ * Lowercased email address, or null when it isn't a valid address.
+ * See parseEmail in ./email for the role/free-mail classification.
+ */
 export function normalizeEmail(email?: string | null): string | null {
-  if (!email) return null;
-  const trimmed = email.trim().toLowerCase();
-  return trimmed || null;
+  return parseEmail(email)?.email ?? null;
 }
 
+/**
+ * Phone number in E.164 ("+4798213806"), or null when it can't be parsed.
+ * See parsePhone in ./phone for the accepted formats.
+ */
 export function normalizePhone(phone?: string | null): string | null {
-  if (!phone) return null;
-  const trimmed = phone.trim();
-  const digits = trimmed.replace(/\D+/g, "");
-  if (!digits) return null;
-
-  // Handle Norwegian numbers with country code
-  // Only strip +47/0047 prefix if the original input clearly indicates a country code
-  // This avoids ambiguity with numbers that legitimately start with "47"
-  const hasCountryCodeIndicator =
-    trimmed.startsWith("+47") ||
-    trimmed.startsWith("0047") ||
-    trimmed.startsWith("47 ") || // Space after 47 suggests country code
-    trimmed.startsWith("47-"); // Dash after 47 suggests country code
-
-  if (hasCountryCodeIndicator && digits.startsWith("47") && digits.length === 10) {
-    // Norwegian number with explicit country code, remove it
-    return digits.substring(2);
-  }
+  return parsePhone(phone)?.e164 ?? null;
+}
 
-  // Handle 00 prefix (international dialing)
-  if (digits.startsWith("0047") && digits.length === 12) {
-    return digits.substring(4);
-  }
+export type OrgnrParseResult = {
+  // 9-digit orgnr, or null when missing or invalid
+  orgnr: string | null;
+  // Why a non-empty input was rejected
+  rejected: "format" | "checksum" | null;
+};
+
+const ORGNR_WEIGHTS = [3, 2, 7, 6, 5, 4, 3, 2];
+
+/**
+ * Checks the MOD11 control digit (9th digit) of a 9-digit orgnr
+ */
+export function isValidOrgnrChecksum(digits: string): boolean {
+  if (!/^\d{9}$/.test(digits)) return false;
+  const sum = ORGNR_WEIGHTS.reduce(
+    (total, weight, i) => total + weight * Number(digits[i]),
+    0
+  );
+  const remainder = sum % 11;
+  // Remainder 1 would need control digit 10: such numbers are never issued
+  if (remainder === 1) return false;
+  const control = remainder === 0 ? 0 : 11 - remainder;
+  return control === Number(digits[8]);
+}
 
-  // If it's already 8 digits, assume it's a valid Norwegian number
-  // Norwegian mobile numbers start with 4, 9, or 8
-  // Norwegian landlines start with 2, 3, 5, 6, or 7
-  return digits;
+/**
+ * Parses a Norwegian organization number (orgnr): strips separators, the
+ * "NO" country prefix and "MVA" suffix of VAT numbers, and validates the
+ * 9-digit MOD11 checksum.
+ * Example: "NO 983 971 709 MVA" -> { orgnr: "983971709", rejected: null }
+ *          "98397170"           -> { orgnr: null, rejected: "format" }
+ */
+export function parseOrgnr(input?: string | null): OrgnrParseResult {
+  const trimmed = input?.trim();
+  if (!trimmed) return { orgnr: null, rejected: null };
+
+  const digits = trimmed
+    .toUpperCase()
+    .replace(/^NO(?=[\s\d])/, "")
+    .replace(/MVA$/, "")
+    .replace(/[\s.\-]/g, "");
+  if (!/^\d{9}$/.test(digits)) return { orgnr: null, rejected: "format" };
+  if (!isValidOrgnrChecksum(digits)) {
+    return { orgnr: null, rejected: "checksum" };
+  }
+  return { orgnr: digits, rejected: null };
 }
 
 /**
- * Normalizes organization number (orgnr) by removing spaces and trimming
+ * Normalizes organization number (orgnr) to its 9 digits.
+ * Returns null for missing or invalid numbers (see parseOrgnr), so callers
+ * fall back to domain/name keys.
  */
 export function normalizeOrgnr(orgnr?: string | null): string | null {
-  if (!orgnr) return null;
-  // Remove all spaces and trim
-  const normalized = orgnr.replace(/\s+/g, "").trim();
-  return normalized || null;
+  return parseOrgnr(orgnr).orgnr;
 }
 
 export function nameSlug(name?: string | null): string | null {
@@ -256,131 +319,27 @@ export function normalizeDate(dateStr?: string | null): string | null {
 }
 
 /**
- * Classifies a person's role based on their title
- * Returns one of: 'decision_maker', 'recruiter', 'contact_person', 'other'
+ * Converts simple HTML (job ad descriptions) to plain text.
+ * Block elements become line breaks, tags are stripped and common entities decoded.
  */
-export function classifyPersonRole(
-  title: string | null | undefined
-): "decision_maker" | "recruiter" | "contact_person" | "other" {
-  if (!title) {
-    return "contact_person"; // Default if no title
-  }
-
-  const normalizedTitle = title.toLowerCase().trim();
-
-  // Decision maker keywords (executives, managers, directors, owners)
-  // Using word boundary patterns where needed to avoid false positives
-  const decisionMakerKeywords = [
-    "ceo",
-    "chief executive",
-    "chief executive officer",
-    "cto",
-    "chief technology",
-    "chief technical",
-    "cfo",
-    "chief financial",
-    "coo",
-    "chief operating",
-    "president",
-    "founder",
-    "owner",
-    "proprietor",
-    "director",
-    "managing director",
-    "general manager",
-    "vp",
-    "vice president",
-    "vice-president",
-    "head of", // "head of" is specific enough
-    "team lead",
-    "tech lead",
-    "engineering lead",
-    "project lead",
-    "manager",
-    "senior manager",
-    "partner",
-    "principal",
-    "executive",
-    "it manager",
-    "it director",
-    "it chef",
-    // Norwegian decision maker titles
-    "daglig leder",
-    "sjef", // Norwegian for "boss/chief" - usually specific enough
-    "direktør",
-    "administrerende direktør",
-    "adm. direktør",
-    "styreleder",
-    "eier",
-    "gründer",
-    "leder", // Note: this is common in Norwegian titles like "avdelingsleder"
-    "avdelingsleder",
-    "prosjektleder",
-    "teamleder",
-    "områdeleder",
-    "regionleder",
-    "salgsdirektør",
-    "markedsdirektør",
-    "teknisk direktør",
-    "finansdirektør",
-    "operasjonsdirektør",
-    "produksjonsleder",
-    "butikksjef",
-    "kontorsjef",
-    "avdelingssjef",
-  ];
-
-  // Recruiter keywords
-  const recruiterKeywords = [
-    "recruiter",
-    "recruitment",
-    "talent acquisition",
-    "talent",
-    "hiring",
-    "hr",
-    "human resources",
-    "people",
-    "people operations",
-    "people ops",
-    "staffing",
-    "sourcing",
-    "recruiting",
-    "talent manager",
-    "talent partner",
-    // Norwegian recruiter titles
-    "rekrutteringsansvarlig",
-    "rekrutteringskonsulent",
-    "rekrutterer",
-    "rekruttering",
-    "talentansvarlig",
-    "talentkonsulent",
-    "ansettelsesansvarlig",
-    "ansettelsesleder",
-    "personalsjef",
-    "personalspesialist",
-    "hr-sjef",
-    "hr-konsulent",
-    "hr-spesialist",
-    "personalkonsulent",
-    "ansettelseskonsulent",
-  ];
-
-  // Check for decision maker first (higher priority)
-  for (const keyword of decisionMakerKeywords) {
-    if (normalizedTitle.includes(keyword)) {
-      return "decision_maker";
-    }
-  }
-
-  // Check for recruiter
-  for (const keyword of recruiterKeywords) {
-    if (normalizedTitle.includes(keyword)) {
-      return "recruiter";
-    }
-  }
-
-  // Default to contact_person if no match
-  return "contact_person";
+export function htmlToText(html?: string | null): string | null {
+  if (!html) return null;
+  const text = html
+    .replace(/<\s*br\s*\/?>/gi, "\n")
+    .replace(/<\s*li[^>]*>/gi, "- ")
+    .replace(/<\/\s*(p|div|li|ul|ol|h[1-6])\s*>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/gi, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return text || null;
 }
 
 /**
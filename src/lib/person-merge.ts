@@ -0,0 +1,633 @@
+/**
+ * Duplicate people detection and person merges.
+ *
+ * findExistingPerson / findPersonByNameAndDomain only catch duplicates at write
+ * time; people ingested with different identifiers (LinkedIn on one source,
+ * only a phone on another) still end up with different person_keys. The
+ * duplicate report groups people sharing an email, phone or LinkedIn URL, or
+ * the same normalized name at the same company. Merging keeps one survivor,
+ * fills its empty fields, re-points company_people, job_post_people and
+ * contact_points and deletes the merged people. Merges are recorded in
+ * leadgen.person_merges with a snapshot, so they can be reverted.
+ */
+
+import { getRepository, eq, gt, inList, Row } from "./repository";
+import {
+  canonicalizeLinkedInUrl,
+  normalizePhone,
+  normalizeNameForComparison,
+} from "./normalize";
+import { personEmail } from "./email";
+
+// Fields filled from merged people when empty on the survivor
+export const PERSON_MERGE_FIELDS = [
+  "full_name",
+  "title",
+  "email",
+  "email_type",
+  "phone",
+  "phone_type",
+  "linkedin_url",
+  "seniority",
+  "department",
+  "normalized_company_name",
+  "normalized_company_domain",
+] as const;
+
+export type PersonMergeField = (typeof PERSON_MERGE_FIELDS)[number];
+
+export class PersonMergeError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = statusCode === 404 ? "Not Found" : "Bad Request";
+  }
+}
+
+type CompanyLink = { company_id: string; person_id: string; role: string };
+type JobPostLink = { job_post_id: string; person_id: string; role: string };
+type ContactPointRow = {
+  id: string;
+  person_id: string;
+  kind: string;
+  value: string;
+};
+
+type PersonMergeSnapshot = {
+  // Full rows of every person before the merge (survivor included)
+  people: Row[];
+  // Link rows re-pointed to the survivor, with their previous person_id
+  company_people_moved: CompanyLink[];
+  job_post_people_moved: JobPostLink[];
+  // Link rows dropped because the survivor already had them
+  company_people_deleted: Row[];
+  job_post_people_deleted: Row[];
+  // Contact points re-pointed to the survivor / dropped as duplicates of the
+  // survivor's (missing in merges made before contact_points existed)
+  contact_points_moved?: { id: string; person_id: string }[];
+  contact_points_deleted?: Row[];
+  // Survivor fields before they were filled in
+  survivor_fields: Partial<Record<PersonMergeField, unknown>>;
+};
+
+export type PersonMergeRecord = {
+  id: string;
+  survivor_id: string;
+  merged_person_ids: string[];
+  // Field -> id of the person whose value the survivor ended up with
+  field_sources: Partial<Record<PersonMergeField, string>>;
+  snapshot: PersonMergeSnapshot;
+  reason: string | null;
+  reverted_at: string | null;
+  created_at: string;
+};
+
+export type PersonMergeResult = {
+  merge_id: string | null;
+  survivor_id: string;
+  merged_person_ids: string[];
+  field_sources: Partial<Record<PersonMergeField, string>>;
+  company_people_moved: number;
+  company_people_deduped: number;
+  job_post_people_moved: number;
+  job_post_people_deduped: number;
+  contact_points_moved: number;
+  contact_points_deduped: number;
+  dry_run: boolean;
+};
+
+export type DuplicateReason =
+  | "linkedin_url"
+  | "email"
+  | "phone"
+  | "name_company"
+  | "name_domain";
+
+export type DuplicatePeopleGroup = {
+  person_ids: string[];
+  reasons: DuplicateReason[];
+  // Fields that differ within the group and would block a merge
+  conflicts: PersonMergeField[];
+  people: {
+    id: string;
+    full_name: string;
+    title: string | null;
+    email: string | null;
+    phone: string | null;
+    linkedin_url: string | null;
+    company_ids: string[];
+    created_at: string | null;
+  }[];
+};
+
+const present = (value: unknown) =>
+  value !== null && value !== undefined && value !== "";
+
+/**
+ * Data completeness score (higher = better): linkedin > email > phone > title
+ */
+export function scorePersonData(person: Row): number {
+  return (
+    (present(person.linkedin_url) ? 8 : 0) +
+    (present(person.email) ? 4 : 0) +
+    (present(person.phone) ? 2 : 0) +
+    (present(person.title) ? 1 : 0)
+  );
+}
+
+/**
+ * Order people best-first: highest data score, then oldest
+ */
+export function rankPeople<T extends Row>(people: T[]): T[] {
+  return [...people].sort(
+    (a, b) =>
+      scorePersonData(b) - scorePersonData(a) ||
+      String(a.created_at ?? "").localeCompare(String(b.created_at ?? ""))
+  );
+}
+
+// Two different LinkedIn profiles are two different people
+function linkedInConflicts(people: Row[]): PersonMergeField[] {
+  const profiles = new Set(
+    people
+      .map((p) => canonicalizeLinkedInUrl(p.linkedin_url))
+      .filter((url): url is string => Boolean(url))
+  );
+  return profiles.size > 1 ? ["linkedin_url"] : [];
+}
+
+const PAGE_SIZE = 500;
+
+/**
+ * People in pages of PAGE_SIZE by id, with the companies they are linked to
+ */
+async function* peoplePages(columns: string[]) {
+  const repo = getRepository();
+  let lastId: string | null = null;
+  while (true) {
+    const people: Row[] = await repo.select("people", {
+      columns: ["id", ...columns],
+      filters: lastId ? [gt("id", lastId)] : [],
+      orderBy: [{ column: "id", ascending: true }],
+      limit: PAGE_SIZE,
+    });
+    if (people.length === 0) return;
+    yield {
+      people,
+      companiesByPerson: await linkedCompanies(people.map((p) => p.id)),
+    };
+    lastId = people[people.length - 1].id;
+  }
+}
+
+async function linkedCompanies(
+  personIds: string[]
+): Promise<Map<string, string[]>> {
+  const links = personIds.length
+    ? await getRepository().select<CompanyLink>("company_people", {
+        columns: ["company_id", "person_id"],
+        filters: [inList("person_id", personIds)],
+      })
+    : [];
+  const companiesByPerson = new Map<string, string[]>();
+  for (const link of links) {
+    const ids = companiesByPerson.get(link.person_id) ?? [];
+    if (!ids.includes(link.company_id)) ids.push(link.company_id);
+    companiesByPerson.set(link.person_id, ids);
+  }
+  return companiesByPerson;
+}
+
+/**
+ * Duplicate people report: groups of people that share an identifier or the
+ * same normalized name at the same company (or company domain), largest
+ * first. People are scanned page by page keeping only ids and keys; rows
+ * are loaded for the returned groups.
+ */
+export async function findDuplicatePeople(
+  params: { company_id?: string; limit?: number } = {}
+): Promise<DuplicatePeopleGroup[]> {
+  const { limit = 100 } = params;
+
+  // Union-find over people, joined by every key they share
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const root = parent.get(id) ?? id;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+  const groupReasons = new Map<string, Set<DuplicateReason>>();
+  const firstByKey = new Map<string, string>();
+  const join = (reason: DuplicateReason, value: string | null, id: string) => {
+    if (!value) return;
+    const key = `${reason}:${value}`;
+    const first = firstByKey.get(key);
+    if (!first) {
+      firstByKey.set(key, id);
+      return;
+    }
+    const [a, b] = [find(first), find(id)];
+    const reasons = new Set([
+      ...(groupReasons.get(a) ?? []),
+      ...(a === b ? [] : groupReasons.get(b) ?? []),
+      reason,
+    ]);
+    parent.set(b, a);
+    groupReasons.set(a, reasons);
+  };
+
+  for await (const { people, companiesByPerson } of peoplePages([
+    "full_name",
+    "email",
+    "phone",
+    "linkedin_url",
+    "normalized_company_domain",
+  ])) {
+    for (const person of people) {
+      const name = normalizeNameForComparison(person.full_name);
+      join("linkedin_url", canonicalizeLinkedInUrl(person.linkedin_url), person.id);
+      join("email", personEmail(person.email), person.id);
+      join("phone", normalizePhone(person.phone), person.id);
+      if (!name) continue;
+      for (const companyId of companiesByPerson.get(person.id) ?? []) {
+        join("name_company", `${companyId}|${name}`, person.id);
+      }
+      if (person.normalized_company_domain) {
+        join("name_domain", `${person.normalized_company_domain}|${name}`, person.id);
+      }
+    }
+  }
+
+  // Only people that joined someone are in `parent`
+  const members = new Map<string, string[]>();
+  for (const id of new Set([...parent.keys(), ...parent.values()])) {
+    const root = find(id);
+    members.set(root, [...(members.get(root) ?? []), id]);
+  }
+  const candidates = Array.from(members, ([root, ids]) => ({ root, ids }))
+    .filter(({ ids }) => ids.length > 1)
+    .sort((a, b) => b.ids.length - a.ids.length);
+
+  const companiesByPerson = await linkedCompanies(
+    candidates.flatMap(({ ids }) => ids)
+  );
+  const companyIds = (id: string) => companiesByPerson.get(id) ?? [];
+  const selected = candidates
+    .filter(
+      ({ ids }) =>
+        !params.company_id ||
+        ids.some((id) => companyIds(id).includes(params.company_id!))
+    )
+    .slice(0, limit);
+
+  const rows = await getRepository().select("people", {
+    columns: [
+      "id",
+      "full_name",
+      "title",
+      "email",
+      "phone",
+      "linkedin_url",
+      "created_at",
+    ],
+    filters: [inList("id", selected.flatMap(({ ids }) => ids))],
+  });
+  const rowById = new Map(rows.map((row) => [row.id, row]));
+
+  const groups: DuplicatePeopleGroup[] = [];
+  for (const { root, ids } of selected) {
+    const group = ids.flatMap((id) => rowById.get(id) ?? []);
+    // Merged or deleted since the scan
+    if (group.length < 2) continue;
+    const ranked = rankPeople(group);
+    groups.push({
+      person_ids: ranked.map((p) => p.id),
+      reasons: Array.from(groupReasons.get(root) ?? []),
+      conflicts: linkedInConflicts(group),
+      people: ranked.map((p) => ({
+        id: p.id,
+        full_name: p.full_name,
+        title: p.title ?? null,
+        email: p.email ?? null,
+        phone: p.phone ?? null,
+        linkedin_url: p.linkedin_url ?? null,
+        company_ids: companyIds(p.id),
+        created_at: p.created_at ?? null,
+      })),
+    });
+  }
+  return groups;
+}
+
+/**
+ * Split merged people's link rows into rows to move to the survivor and rows
+ * the survivor already has (by the link's other key column + role)
+ */
+function planLinks<T extends { person_id: string; role: string }>(
+  survivorLinks: T[],
+  mergedLinks: T[],
+  otherKey: (link: T) => string
+) {
+  const keys = new Set(survivorLinks.map((l) => `${otherKey(l)}|${l.role}`));
+  const move: T[] = [];
+  const drop: T[] = [];
+  for (const link of mergedLinks) {
+    const key = `${otherKey(link)}|${link.role}`;
+    if (keys.has(key)) {
+      drop.push(link);
+    } else {
+      keys.add(key);
+      move.push(link);
+    }
+  }
+  return { move, drop };
+}
+
+const companyLinkFilters = (link: CompanyLink) => [
+  eq("company_id", link.company_id),
+  eq("person_id", link.person_id),
+  eq("role", link.role),
+];
+
+const jobPostLinkFilters = (link: JobPostLink) => [
+  eq("job_post_id", link.job_post_id),
+  eq("person_id", link.person_id),
+  eq("role", link.role),
+];
+
+/**
+ * Merge people into one survivor (explicit, or the best-ranked person).
+ * With `dry_run`, returns the plan without writing anything.
+ */
+export async function mergePeople(params: {
+  person_ids: string[];
+  survivor_id?: string;
+  reason?: string | null;
+  dry_run?: boolean;
+}): Promise<PersonMergeResult> {
+  const { reason = null, dry_run = false } = params;
+  const personIds = Array.from(new Set(params.person_ids));
+  if (params.survivor_id && !personIds.includes(params.survivor_id)) {
+    personIds.push(params.survivor_id);
+  }
+  if (personIds.length < 2) {
+    throw new PersonMergeError("At least two distinct people are required");
+  }
+
+  const repo = getRepository();
+  const people = await repo.select("people", {
+    filters: [inList("id", personIds)],
+  });
+  const missing = personIds.filter((id) => !people.some((p) => p.id === id));
+  if (missing.length > 0) {
+    throw new PersonMergeError(`Person not found: ${missing.join(", ")}`, 404);
+  }
+  if (linkedInConflicts(people).length > 0) {
+    throw new PersonMergeError("People have different LinkedIn profiles");
+  }
+
+  const ranked = rankPeople(people);
+  const survivor = params.survivor_id
+    ? people.find((p) => p.id === params.survivor_id)!
+    : ranked[0];
+  const merged = ranked.filter((p) => p.id !== survivor.id);
+  const mergedIds = merged.map((p) => p.id as string);
+
+  // Field winners: the survivor's value, else the best-ranked non-empty value
+  const fieldSources: PersonMergeResult["field_sources"] = {};
+  const fills: Row = {};
+  const survivorFields: PersonMergeSnapshot["survivor_fields"] = {};
+  for (const field of PERSON_MERGE_FIELDS) {
+    if (present(survivor[field])) {
+      fieldSources[field] = survivor.id;
+      continue;
+    }
+    const donor = merged.find((p) => present(p[field]));
+    if (donor) {
+      fieldSources[field] = donor.id;
+      fills[field] = donor[field];
+      survivorFields[field] = survivor[field] ?? null;
+    }
+  }
+
+  const [
+    survivorCompanyLinks,
+    mergedCompanyLinks,
+    survivorJobLinks,
+    mergedJobLinks,
+    survivorContactPoints,
+    mergedContactPoints,
+  ] = await Promise.all([
+    repo.select<CompanyLink>("company_people", {
+      filters: [eq("person_id", survivor.id)],
+    }),
+    repo.select<CompanyLink>("company_people", {
+      filters: [inList("person_id", mergedIds)],
+    }),
+    repo.select<JobPostLink>("job_post_people", {
+      filters: [eq("person_id", survivor.id)],
+    }),
+    repo.select<JobPostLink>("job_post_people", {
+      filters: [inList("person_id", mergedIds)],
+    }),
+    repo.select<ContactPointRow>("contact_points", {
+      columns: ["id", "person_id", "kind", "value"],
+      filters: [eq("person_id", survivor.id)],
+    }),
+    repo.select<ContactPointRow>("contact_points", {
+      filters: [inList("person_id", mergedIds)],
+    }),
+  ]);
+  const companyLinks = planLinks(
+    survivorCompanyLinks,
+    mergedCompanyLinks,
+    (l) => l.company_id
+  );
+  const jobLinks = planLinks(
+    survivorJobLinks,
+    mergedJobLinks,
+    (l) => l.job_post_id
+  );
+
+  // A contact point moves to the survivor unless the survivor has the value
+  const contactKeys = new Set(
+    survivorContactPoints.map((point) => `${point.kind}|${point.value}`)
+  );
+  const contactPointsToMove: ContactPointRow[] = [];
+  const contactPointsToDelete: ContactPointRow[] = [];
+  for (const point of mergedContactPoints) {
+    const key = `${point.kind}|${point.value}`;
+    if (contactKeys.has(key)) {
+      contactPointsToDelete.push(point);
+    } else {
+      contactKeys.add(key);
+      contactPointsToMove.push(point);
+    }
+  }
+
+  const result: PersonMergeResult = {
+    merge_id: null,
+    survivor_id: survivor.id,
+    merged_person_ids: mergedIds,
+    field_sources: fieldSources,
+    company_people_moved: companyLinks.move.length,
+    company_people_deduped: companyLinks.drop.length,
+    job_post_people_moved: jobLinks.move.length,
+    job_post_people_deduped: jobLinks.drop.length,
+    contact_points_moved: contactPointsToMove.length,
+    contact_points_deduped: contactPointsToDelete.length,
+    dry_run,
+  };
+  if (dry_run) return result;
+
+  // Record first, so an interrupted merge can still be inspected and reverted
+  const [record] = await repo.insert<PersonMergeRecord>("person_merges", [
+    {
+      survivor_id: survivor.id,
+      merged_person_ids: mergedIds,
+      field_sources: fieldSources,
+      reason,
+      snapshot: {
+        people,
+        company_people_moved: companyLinks.move,
+        job_post_people_moved: jobLinks.move,
+        company_people_deleted: companyLinks.drop,
+        job_post_people_deleted: jobLinks.drop,
+        contact_points_moved: contactPointsToMove.map(({ id, person_id }) => ({
+          id,
+          person_id,
+        })),
+        contact_points_deleted: contactPointsToDelete,
+        survivor_fields: survivorFields,
+      } satisfies PersonMergeSnapshot,
+    },
+  ]);
+
+  for (const link of companyLinks.drop) {
+    await repo.delete("company_people", companyLinkFilters(link));
+  }
+  for (const link of companyLinks.move) {
+    await repo.update("company_people", companyLinkFilters(link), {
+      person_id: survivor.id,
+    });
+  }
+  for (const link of jobLinks.drop) {
+    await repo.delete("job_post_people", jobPostLinkFilters(link));
+  }
+  for (const link of jobLinks.move) {
+    await repo.update("job_post_people", jobPostLinkFilters(link), {
+      person_id: survivor.id,
+    });
+  }
+
+  if (contactPointsToDelete.length > 0) {
+    await repo.delete("contact_points", [
+      inList("id", contactPointsToDelete.map((point) => point.id)),
+    ]);
+  }
+  if (contactPointsToMove.length > 0) {
+    await repo.update(
+      "contact_points",
+      [inList("id", contactPointsToMove.map((point) => point.id))],
+      { person_id: survivor.id }
+    );
+  }
+
+  // Delete merged people before filling the survivor (person_key stays the survivor's)
+  await repo.delete("people", [inList("id", mergedIds)]);
+  if (Object.keys(fills).length > 0) {
+    await repo.update("people", [eq("id", survivor.id)], fills);
+  }
+
+  console.log(
+    `[Merge] Merged ${mergedIds.length} people into ${survivor.id} (merge ${record.id})`
+  );
+  return { ...result, merge_id: record.id };
+}
+
+/**
+ * Undo a person merge: restore the merged people with their original ids,
+ * move their links back and reset filled survivor fields
+ */
+export async function revertPersonMerge(
+  mergeId: string
+): Promise<PersonMergeRecord> {
+  const repo = getRepository();
+  const [record] = await repo.select<PersonMergeRecord>("person_merges", {
+    filters: [eq("id", mergeId)],
+    limit: 1,
+  });
+  if (!record) {
+    throw new PersonMergeError(`Merge not found: ${mergeId}`, 404);
+  }
+  if (record.reverted_at) {
+    throw new PersonMergeError(`Merge ${mergeId} was already reverted`);
+  }
+
+  const { snapshot, survivor_id: survivorId } = record;
+
+  if (Object.keys(snapshot.survivor_fields).length > 0) {
+    await repo.update("people", [eq("id", survivorId)], snapshot.survivor_fields);
+  }
+
+  const mergedPeople = snapshot.people.filter((p) => p.id !== survivorId);
+  await repo.upsert("people", mergedPeople, { onConflict: ["id"] });
+
+  for (const link of snapshot.company_people_moved) {
+    await repo.update(
+      "company_people",
+      companyLinkFilters({ ...link, person_id: survivorId }),
+      { person_id: link.person_id }
+    );
+  }
+  for (const link of snapshot.job_post_people_moved) {
+    await repo.update(
+      "job_post_people",
+      jobPostLinkFilters({ ...link, person_id: survivorId }),
+      { person_id: link.person_id }
+    );
+  }
+  if (snapshot.company_people_deleted.length > 0) {
+    await repo.upsert("company_people", snapshot.company_people_deleted);
+  }
+  if (snapshot.job_post_people_deleted.length > 0) {
+    await repo.upsert("job_post_people", snapshot.job_post_people_deleted);
+  }
+  for (const point of snapshot.contact_points_moved ?? []) {
+    await repo.update("contact_points", [eq("id", point.id)], {
+      person_id: point.person_id,
+    });
+  }
+  if (snapshot.contact_points_deleted?.length) {
+    await repo.upsert("contact_points", snapshot.contact_points_deleted, {
+      onConflict: ["id"],
+    });
+  }
+
+  const [reverted] = await repo.update<PersonMergeRecord>(
+    "person_merges",
+    [eq("id", mergeId)],
+    { reverted_at: new Date().toISOString() }
+  );
+
+  console.log(`[Merge] Reverted person merge ${mergeId}`);
+  return reverted;
+}
+
+/**
+ * Person merge records, newest first
+ */
+export async function listPersonMerges(
+  params: { survivor_id?: string; limit?: number } = {}
+): Promise<Omit<PersonMergeRecord, "snapshot">[]> {
+  const records = await getRepository().select<PersonMergeRecord>(
+    "person_merges",
+    {
+      filters: params.survivor_id ? [eq("survivor_id", params.survivor_id)] : [],
+      orderBy: [{ column: "created_at", ascending: false }],
+      limit: params.limit ?? 50,
+    }
+  );
+  return records.map(({ snapshot, ...record }) => record);
+}
@@ -0,0 +1,275 @@
+/**
+ * Phone number parsing to E.164.
+ *
+ * Sources write the same number as "+47 982 13 806", "0047 98213806",
+ * "4798213806" or just "98213806". Numbers are parsed against a small table of
+ * Nordic and common European calling codes: national numbers (no "+" / "00")
+ * are read in the default region (PHONE_DEFAULT_REGION, default NO), falling
+ * back to a calling code written without "+". The line type is a prefix
+ * heuristic per country, not a carrier lookup.
+ */
+
+export type PhoneLineType = "mobile" | "landline" | "unknown";
+
+export type ParsedPhone = {
+  // "+4798213806"
+  e164: string;
+  // ISO 3166-1 alpha-2 region, null for calling codes not in PHONE_REGIONS
+  region: string | null;
+  line_type: PhoneLineType;
+};
+
+type PhoneRegion = {
+  callingCode: string;
+  // National numbers are dialled with a leading 0 that E.164 drops
+  trunkPrefix: boolean;
+  // Allowed lengths of the national significant number
+  minLength: number;
+  maxLength: number;
+  // Tested against the national significant number, mobile first
+  mobile: RegExp;
+  landline: RegExp;
+};
+
+export const PHONE_REGIONS: Record<string, PhoneRegion> = {
+  // Nordics
+  NO: {
+    callingCode: "47",
+    trunkPrefix: false,
+    minLength: 8,
+    maxLength: 8,
+    mobile: /^[49]/,
+    landline: /^[2357]/,
+  },
+  SE: {
+    callingCode: "46",
+    trunkPrefix: true,
+    minLength: 7,
+    maxLength: 9,
+    mobile: /^7[02369]\d{7}$/,
+    landline: /^[1-68]/,
+  },
+  DK: {
+    callingCode: "45",
+    trunkPrefix: false,
+    minLength: 8,
+    maxLength: 8,
+    mobile: /^(2\d|3[01]|4[0-2]|5[0-3]|6[01]|71|81|9[1-3])/,
+    landline: /^[3-9]/,
+  },
+  FI: {
+    callingCode: "358",
+    trunkPrefix: true,
+    minLength: 6,
+    maxLength: 10,
+    mobile: /^(4\d|50)/,
+    landline: /^[1-35-9]/,
+  },
+  IS: {
+    callingCode: "354",
+    trunkPrefix: false,
+    minLength: 7,
+    maxLength: 7,
+    mobile: /^[678]/,
+    landline: /^[45]/,
+  },
+  // Common European codes
+  DE: {
+    callingCode: "49",
+    trunkPrefix: true,
+    minLength: 6,
+    maxLength: 11,
+    mobile: /^1[5-7]/,
+    landline: /^[2-9]/,
+  },
+  NL: {
+    callingCode: "31",
+    trunkPrefix: true,
+    minLength: 9,
+    maxLength: 9,
+    mobile: /^6/,
+    landline: /^[1-57]/,
+  },
+  GB: {
+    callingCode: "44",
+    trunkPrefix: true,
+    minLength: 9,
+    maxLength: 10,
+    mobile: /^7[1-57-9]/,
+    landline: /^[123]/,
+  },
+  IE: {
+    callingCode: "353",
+    trunkPrefix: true,
+    minLength: 7,
+    maxLength: 9,
+    mobile: /^8[3-9]/,
+    landline: /^[1-79]/,
+  },
+  FR: {
+    callingCode: "33",
+    trunkPrefix: true,
+    minLength: 9,
+    maxLength: 9,
+    mobile: /^[67]/,
+    landline: /^[1-5]/,
+  },
+  BE: {
+    callingCode: "32",
+    trunkPrefix: true,
+    minLength: 8,
+    maxLength: 9,
+    mobile: /^4[5-9]\d{7}$/,
+    landline: /^[1-9]/,
+  },
+  CH: {
+    callingCode: "41",
+    trunkPrefix: true,
+    minLength: 9,
+    maxLength: 9,
+    mobile: /^7[5-9]/,
+    landline: /^[2-69]/,
+  },
+  AT: {
+    callingCode: "43",
+    trunkPrefix: true,
+    minLength: 4,
+    maxLength: 13,
+    mobile: /^6[5-9]/,
+    landline: /^[1-57]/,
+  },
+  PL: {
+    callingCode: "48",
+    trunkPrefix: false,
+    minLength: 9,
+    maxLength: 9,
+    mobile: /^(45|5[0137]|6[069]|7[2389]|88)/,
+    landline: /^[1-9]/,
+  },
+  ES: {
+    callingCode: "34",
+    trunkPrefix: false,
+    minLength: 9,
+    maxLength: 9,
+    mobile: /^[67]/,
+    landline: /^[89]/,
+  },
+  // Italian landlines keep their leading 0 in E.164
+  IT: {
+    callingCode: "39",
+    trunkPrefix: false,
+    minLength: 6,
+    maxLength: 11,
+    mobile: /^3/,
+    landline: /^0/,
+  },
+  PT: {
+    callingCode: "351",
+    trunkPrefix: false,
+    minLength: 9,
+    maxLength: 9,
+    mobile: /^9[1-36]/,
+    landline: /^2/,
+  },
+  EE: {
+    callingCode: "372",
+    trunkPrefix: false,
+    minLength: 7,
+    maxLength: 8,
+    mobile: /^5/,
+    landline: /^[3-8]/,
+  },
+};
+
+export const PHONE_DEFAULT_REGION = (
+  process.env.PHONE_DEFAULT_REGION ?? "NO"
+).toUpperCase();
+
+// E.164 numbers have at most 15 digits after the "+"
+const E164_MIN_DIGITS = 7;
+const E164_MAX_DIGITS = 15;
+
+function lineType(region: PhoneRegion, nsn: string): PhoneLineType {
+  if (region.mobile.test(nsn)) return "mobile";
+  if (region.landline.test(nsn)) return "landline";
+  return "unknown";
+}
+
+/**
+ * Number in a known region, or null when the national part doesn't fit it
+ */
+function fromRegion(code: string, nationalDigits: string): ParsedPhone | null {
+  const region = PHONE_REGIONS[code];
+  if (!region) return null;
+  const nsn =
+    region.trunkPrefix && nationalDigits.startsWith("0")
+      ? nationalDigits.slice(1)
+      : nationalDigits;
+  if (nsn.length < region.minLength || nsn.length > region.maxLength) {
+    return null;
+  }
+  return {
+    e164: `+${region.callingCode}${nsn}`,
+    region: code,
+    line_type: lineType(region, nsn),
+  };
+}
+
+/**
+ * Number starting with its calling code. Known codes must fit their region.
+ */
+function fromCallingCode(digits: string): ParsedPhone | null {
+  for (const [code, region] of Object.entries(PHONE_REGIONS)) {
+    if (digits.startsWith(region.callingCode)) {
+      return fromRegion(code, digits.slice(region.callingCode.length));
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a phone number to E.164 with its region and line type.
+ * Returns null when the input can't be read as a phone number.
+ */
+export function parsePhone(
+  input?: string | null,
+  defaultRegion: string = PHONE_DEFAULT_REGION
+): ParsedPhone | null {
+  if (!input) return null;
+  const cleaned = input
+    .trim()
+    // Extensions ("ext. 12", "x12") aren't part of the number
+    .replace(/\s*(ext\.?|x|#)\s*\d+$/i, "")
+    // Optional trunk prefix in "+44 (0)20 ..."
+    .replace(/\(0\)/g, "");
+  const digits = cleaned.replace(/\D+/g, "");
+  if (!digits) return null;
+
+  if (cleaned.startsWith("+") || digits.startsWith("00")) {
+    const international = cleaned.startsWith("+") ? digits : digits.slice(2);
+    const known = fromCallingCode(international);
+    if (known) return known;
+    // Explicit international number we have no rules for: keep the digits
+    if (
+      international.length < E164_MIN_DIGITS ||
+      international.length > E164_MAX_DIGITS ||
+      international.startsWith("0")
+    ) {
+      return null;
+    }
+    return { e164: `+${international}`, region: null, line_type: "unknown" };
+  }
+
+  // National number in the default region, else a calling code without "+"
+  // ("4798213806" from CSV exports)
+  return (
+    fromRegion(defaultRegion.toUpperCase(), digits) ?? fromCallingCode(digits)
+  );
+}
+
+/**
+ * Line type of a phone number, null when it can't be parsed
+ */
+export function phoneLineType(input?: string | null): PhoneLineType | null {
+  return parsePhone(input)?.line_type ?? null;
+}
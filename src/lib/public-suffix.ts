@@ -0,0 +1,63 @@
+/**
+ * Registrable domains ("eTLD+1") from the Public Suffix List, so
+ * "karriere.equinor.com" and "equinor.com" - or "jobs.dnb.no" and "dnb.no" -
+ * normalize to the same company domain while "nav.no" and "hotell.oslo.no"
+ * stay apart. The list is embedded in ./public-suffix-list (regenerate with
+ * scripts/update-public-suffix-list.ts).
+ */
+
+import { PUBLIC_SUFFIX_RULES } from "./public-suffix-list";
+
+type SuffixRules = {
+  exact: Set<string>;
+  // "*.ck": any label under ck is a public suffix
+  wildcard: Set<string>;
+  // "!www.ck": exception to a wildcard rule
+  exception: Set<string>;
+};
+
+let rules: SuffixRules | null = null;
+
+function getRules(): SuffixRules {
+  if (rules) return rules;
+  rules = { exact: new Set(), wildcard: new Set(), exception: new Set() };
+  for (const rule of PUBLIC_SUFFIX_RULES.split("\n")) {
+    if (!rule) continue;
+    if (rule.startsWith("!")) rules.exception.add(rule.slice(1));
+    else if (rule.startsWith("*.")) rules.wildcard.add(rule.slice(2));
+    else rules.exact.add(rule);
+  }
+  return rules;
+}
+
+/**
+ * Number of labels in the public suffix of a hostname
+ */
+function publicSuffixLength(labels: string[]): number {
+  const { exact, wildcard, exception } = getRules();
+  // Longest matching rule wins; unlisted TLDs count as one-label suffixes
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join(".");
+    if (exception.has(candidate)) return labels.length - i - 1;
+    if (i > 0 && wildcard.has(candidate)) return labels.length - i + 1;
+    if (exact.has(candidate)) return labels.length - i;
+  }
+  return 1;
+}
+
+const IPV4 = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+/**
+ * Registrable domain of a lowercase hostname, or null for public suffixes
+ * ("co.uk"), single labels and IP addresses
+ */
+export function registrableDomain(hostname: string): string | null {
+  const host = hostname.replace(/\.$/, "");
+  if (!host || IPV4.test(host) || host.includes(":")) return null;
+  const labels = host.split(".");
+  if (labels.some((label) => !label)) return null;
+
+  const suffixLength = publicSuffixLength(labels);
+  if (labels.length <= suffixLength) return null;
+  return labels.slice(-(suffixLength + 1)).join(".");
+}
@@ -0,0 +1,69 @@
+/**
+ * Repository selection.
+ *
+ * DB_BACKEND picks the storage backend:
+ * - "supabase" (default): hosted Supabase via SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY
+ * - "postgres": plain Postgres via DATABASE_URL (schema from DATABASE_SCHEMA, default "leadgen")
+ * - "memory": in-process store, for offline runs and tests
+ */
+
+import { createSupabaseClient } from "../supabase";
+import { MemoryRepository } from "./memory";
+import { PostgresRepository } from "./postgres";
+import { SupabaseRepository } from "./supabase";
+import { Repository, RepositoryBackend } from "./types";
+
+export * from "./types";
+export { MemoryRepository } from "./memory";
+export { PostgresRepository } from "./postgres";
+export { SupabaseRepository } from "./supabase";
+
+let repository: Repository | null = null;
+
+function resolveBackend(value?: string): RepositoryBackend {
+  const backend = (value || "supabase").trim().toLowerCase();
+  if (backend === "supabase" || backend === "postgres" || backend === "memory") {
+    return backend;
+  }
+  throw new Error(
+    `Invalid DB_BACKEND "${value}" (expected supabase, postgres or memory)`
+  );
+}
+
+export function createRepository(
+  backend: RepositoryBackend = resolveBackend(process.env.DB_BACKEND)
+): Repository {
+  switch (backend) {
+    case "memory":
+      return new MemoryRepository();
+    case "postgres": {
+      const { DATABASE_URL, DATABASE_SCHEMA } = process.env;
+      if (!DATABASE_URL) {
+        throw new Error("Missing DATABASE_URL env var for DB_BACKEND=postgres");
+      }
+      return new PostgresRepository({
+        connectionString: DATABASE_URL,
+        schema: DATABASE_SCHEMA || "leadgen",
+      });
+    }
+    case "supabase":
+      return new SupabaseRepository(createSupabaseClient());
+  }
+}
+
+/**
+ * Get the process-wide repository, creating it from config on first use
+ */
+export function getRepository(): Repository {
+  if (!repository) {
+    repository = createRepository();
+  }
+  return repository;
+}
+
+/**
+ * Override the process-wide repository (e.g. a MemoryRepository in tests)
+ */
+export function setRepository(next: Repository | null) {
+  repository = next;
+}
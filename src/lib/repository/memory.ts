@@ -0,0 +1,191 @@
+/**
+ * In-memory repository backend for offline runs and tests.
+ * Data lives only for the lifetime of the process.
+ */
+
+import { randomUUID } from "node:crypto";
+import { getTableDefinition } from "./schema";
+import { compare, definedValues, sortRows } from "./rows";
+import {
+  Filter,
+  Repository,
+  Row,
+  SelectQuery,
+  UpsertOptions,
+} from "./types";
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+function likeToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(
+    `^${escaped.replace(/%/g, ".*").replace(/_/g, ".")}$`,
+    "is"
+  );
+}
+
+function matchesFilter(row: Row, filter: Filter): boolean {
+  const actual = row[filter.column];
+  switch (filter.op) {
+    case "eq":
+      return actual !== null && actual !== undefined && actual === filter.value;
+    case "neq":
+      return actual !== null && actual !== undefined && actual !== filter.value;
+    case "in":
+      return (filter.value as unknown[]).includes(actual);
+    case "is":
+      return filter.value === null
+        ? actual === null || actual === undefined
+        : actual === filter.value;
+    case "not_null":
+      return actual !== null && actual !== undefined;
+    case "ilike":
+      return (
+        typeof actual === "string" &&
+        likeToRegExp(String(filter.value)).test(actual)
+      );
+    case "contains":
+      return (
+        Array.isArray(actual) &&
+        (filter.value as unknown[]).every((value) => actual.includes(value))
+      );
+    default: {
+      if (actual === null || actual === undefined) return false;
+      const order = compare(actual, filter.value);
+      if (filter.op === "gt") return order > 0;
+      if (filter.op === "gte") return order >= 0;
+      if (filter.op === "lt") return order < 0;
+      return order <= 0; // lte
+    }
+  }
+}
+
+const matchesAll = (row: Row, filters: Filter[] = []) =>
+  filters.every((filter) => matchesFilter(row, filter));
+
+function project(row: Row, columns?: string[]): Row {
+  if (!columns || columns.length === 0) return clone(row);
+  const out: Row = {};
+  for (const column of columns) {
+    out[column] = clone(row[column] ?? null);
+  }
+  return out;
+}
+
+export class MemoryRepository implements Repository {
+  readonly backend = "memory" as const;
+
+  private tables = new Map<string, Row[]>();
+
+  private rows(table: string): Row[] {
+    getTableDefinition(table); // validate table name
+    let rows = this.tables.get(table);
+    if (!rows) {
+      rows = [];
+      this.tables.set(table, rows);
+    }
+    return rows;
+  }
+
+  private withDefaults(table: string, row: Row): Row {
+    const definition = getTableDefinition(table);
+    const now = new Date().toISOString();
+    return {
+      ...(definition.generatedId && { id: randomUUID() }),
+      ...(definition.timestamps.created && { created_at: now }),
+      ...(definition.timestamps.updated && { updated_at: now }),
+      ...clone(definedValues(row)),
+    };
+  }
+
+  private touch(table: string, row: Row) {
+    if (getTableDefinition(table).timestamps.updated) {
+      row.updated_at = new Date().toISOString();
+    }
+  }
+
+  /** Remove all data, e.g. between test cases */
+  reset() {
+    this.tables.clear();
+  }
+
+  async select<T extends Row = Row>(
+    table: string,
+    query: SelectQuery = {}
+  ): Promise<T[]> {
+    let rows = this.rows(table).filter((row) =>
+      matchesAll(row, query.filters)
+    );
+    if (query.orderBy?.length) rows = sortRows(rows, query.orderBy);
+    if (query.limit !== undefined) rows = rows.slice(0, query.limit);
+    return rows.map((row) => project(row, query.columns)) as T[];
+  }
+
+  async insert<T extends Row = Row>(table: string, rows: Row[]): Promise<T[]> {
+    const target = this.rows(table);
+    const inserted = rows.map((row) => this.withDefaults(table, row));
+    target.push(...inserted);
+    return inserted.map((row) => clone(row)) as T[];
+  }
+
+  async upsert<T extends Row = Row>(
+    table: string,
+    rows: Row[],
+    options: UpsertOptions = {}
+  ): Promise<T[]> {
+    const target = this.rows(table);
+    const conflictColumns =
+      options.onConflict ?? getTableDefinition(table).primaryKey;
+    const result: Row[] = [];
+
+    for (const row of rows) {
+      const existing = target.find((candidate) =>
+        conflictColumns.every(
+          (column) =>
+            row[column] !== undefined &&
+            row[column] !== null &&
+            candidate[column] === row[column]
+        )
+      );
+      if (existing) {
+        if (options.ignoreDuplicates) continue;
+        Object.assign(existing, clone(definedValues(row)));
+        this.touch(table, existing);
+        result.push(clone(existing));
+      } else {
+        const inserted = this.withDefaults(table, row);
+        target.push(inserted);
+        result.push(clone(inserted));
+      }
+    }
+
+    return result as T[];
+  }
+
+  async update<T extends Row = Row>(
+    table: string,
+    filters: Filter[],
+    patch: Row
+  ): Promise<T[]> {
+    const updated: Row[] = [];
+    if (Object.keys(definedValues(patch)).length === 0) return [];
+    for (const row of this.rows(table)) {
+      if (!matchesAll(row, filters)) continue;
+      Object.assign(row, clone(definedValues(patch)));
+      this.touch(table, row);
+      updated.push(clone(row));
+    }
+    return updated as T[];
+  }
+
+  async delete(table: string, filters: Filter[]): Promise<number> {
+    const rows = this.rows(table);
+    const kept = rows.filter((row) => !matchesAll(row, filters));
+    this.tables.set(table, kept);
+    return rows.length - kept.length;
+  }
+
+  async rpc<T extends Row = Row>(fn: string): Promise<T[]> {
+    throw new Error(`SQL function ${fn} is not available on the memory backend`);
+  }
+}
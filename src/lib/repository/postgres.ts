@@ -0,0 +1,258 @@
+/**
+ * Plain Postgres repository backend (node-postgres).
+ * Expects the leadgen schema from migrations/ to be applied.
+ */
+
+import { CustomTypesConfig, Pool, PoolConfig, types } from "pg";
+import { getTableDefinition } from "./schema";
+import { definedValues, groupByColumns } from "./rows";
+import {
+  Filter,
+  Repository,
+  Row,
+  SelectQuery,
+  UpsertOptions,
+} from "./types";
+
+// Return timestamps as ISO strings at full (microsecond) precision, like
+// Supabase (PostgREST): "2024-05-01 10:00:00.123456+00" ->
+// "2024-05-01T10:00:00.123456+00:00". A Date would cut them to milliseconds,
+// so a value read back would no longer equal the stored one. Set on every
+// query, so a pool passed in with other type parsers reads them the same.
+const TIMESTAMP_OID = 1114;
+const TIMESTAMPTZ_OID = 1184;
+const toIsoString = (value: string) =>
+  value.replace(" ", "T").replace(/([+-]\d{2})$/, "$1:00");
+const QUERY_TYPES: CustomTypesConfig = {
+  getTypeParser: (oid, format) =>
+    oid === TIMESTAMP_OID || oid === TIMESTAMPTZ_OID
+      ? toIsoString
+      : types.getTypeParser(oid, format),
+};
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+class SqlParams {
+  readonly values: unknown[] = [];
+
+  add(value: unknown): string {
+    this.values.push(value);
+    return `$${this.values.length}`;
+  }
+}
+
+function buildWhere(filters: Filter[] = [], params: SqlParams): string {
+  if (filters.length === 0) return "";
+  const clauses = filters.map(({ column, op, value }) => {
+    const col = quoteIdent(column);
+    switch (op) {
+      case "eq":
+        return `${col} = ${params.add(value)}`;
+      case "neq":
+        return `${col} <> ${params.add(value)}`;
+      case "in":
+        if ((value as unknown[]).length === 0) return "false";
+        return `${col} = any(${params.add(value)})`;
+      case "gt":
+        return `${col} > ${params.add(value)}`;
+      case "gte":
+        return `${col} >= ${params.add(value)}`;
+      case "lt":
+        return `${col} < ${params.add(value)}`;
+      case "lte":
+        return `${col} <= ${params.add(value)}`;
+      case "is":
+        if (value === null) return `${col} is null`;
+        return `${col} is ${value ? "true" : "false"}`;
+      case "not_null":
+        return `${col} is not null`;
+      case "ilike":
+        return `${col} ilike ${params.add(value)}`;
+      case "contains":
+        return `${col} @> ${params.add(value)}`;
+    }
+  });
+  return ` where ${clauses.join(" and ")}`;
+}
+
+export class PostgresRepository implements Repository {
+  readonly backend = "postgres" as const;
+
+  private pool: Pool;
+  private schema: string;
+
+  constructor(config: PoolConfig & { schema?: string; pool?: Pool }) {
+    const { schema = "leadgen", pool, ...poolConfig } = config;
+    this.pool = pool ?? new Pool(poolConfig);
+    // Same offsets in every timestamp (and in string comparisons of them)
+    this.pool.on("connect", (client) => {
+      client.query("set timezone = 'UTC'").catch(() => undefined);
+    });
+    this.schema = schema;
+  }
+
+  private table(name: string): string {
+    getTableDefinition(name); // validate table name
+    return `${quoteIdent(this.schema)}.${quoteIdent(name)}`;
+  }
+
+  private async query<T extends Row>(
+    sql: string,
+    params: SqlParams
+  ): Promise<{ rows: T[]; rowCount: number }> {
+    const result = await this.pool.query({
+      text: sql,
+      values: params.values,
+      types: QUERY_TYPES,
+    });
+    return { rows: result.rows as T[], rowCount: result.rowCount ?? 0 };
+  }
+
+  // Columns a row doesn't name (or leaves undefined) get their default
+  private buildInsert(table: string, rows: Row[], params: SqlParams) {
+    const columns = Array.from(
+      new Set(rows.flatMap((row) => Object.keys(definedValues(row))))
+    );
+    const values = rows
+      .map(
+        (row) =>
+          `(${columns
+            .map((column) =>
+              row[column] === undefined ? "default" : params.add(row[column])
+            )
+            .join(", ")})`
+      )
+      .join(", ");
+    const sql = `insert into ${this.table(table)} (${columns
+      .map(quoteIdent)
+      .join(", ")}) values ${values}`;
+    return { sql, columns };
+  }
+
+  async close() {
+    await this.pool.end();
+  }
+
+  async select<T extends Row = Row>(
+    table: string,
+    query: SelectQuery = {}
+  ): Promise<T[]> {
+    const params = new SqlParams();
+    const columns = query.columns?.length
+      ? query.columns.map(quoteIdent).join(", ")
+      : "*";
+    let sql = `select ${columns} from ${this.table(table)}`;
+    sql += buildWhere(query.filters, params);
+    if (query.orderBy?.length) {
+      sql += ` order by ${query.orderBy
+        .map(
+          ({ column, ascending = true }) =>
+            `${quoteIdent(column)} ${ascending ? "asc" : "desc"}`
+        )
+        .join(", ")}`;
+    }
+    if (query.limit !== undefined) {
+      sql += ` limit ${params.add(query.limit)}`;
+    }
+    return (await this.query<T>(sql, params)).rows;
+  }
+
+  async insert<T extends Row = Row>(table: string, rows: Row[]): Promise<T[]> {
+    if (rows.length === 0) return [];
+    const params = new SqlParams();
+    const { sql } = this.buildInsert(table, rows, params);
+    return (await this.query<T>(`${sql} returning *`, params)).rows;
+  }
+
+  async upsert<T extends Row = Row>(
+    table: string,
+    rows: Row[],
+    options: UpsertOptions = {}
+  ): Promise<T[]> {
+    if (rows.length === 0) return [];
+    const definition = getTableDefinition(table);
+    const conflictColumns = options.onConflict ?? definition.primaryKey;
+
+    if (options.ignoreDuplicates) {
+      const inserted: T[] = [];
+      for (const group of groupByColumns(rows)) {
+        const params = new SqlParams();
+        const { sql } = this.buildInsert(table, group.rows, params);
+        const insertSql =
+          `${sql} on conflict (${conflictColumns.map(quoteIdent).join(", ")}) ` +
+          `do nothing returning *`;
+        inserted.push(...(await this.query<T>(insertSql, params)).rows);
+      }
+      return inserted;
+    }
+
+    // One statement per column set, so a conflict only overwrites the
+    // columns the row names (rows are returned in input order)
+    const result: T[] = new Array(rows.length);
+    for (const group of groupByColumns(rows)) {
+      const params = new SqlParams();
+      const { sql, columns } = this.buildInsert(table, group.rows, params);
+
+      // Always "update" on conflict so that RETURNING yields existing rows too
+      const updateColumns = columns.filter((c) => !conflictColumns.includes(c));
+      const assignments = (
+        updateColumns.length > 0 ? updateColumns : [conflictColumns[0]]
+      ).map(
+        (column) => `${quoteIdent(column)} = excluded.${quoteIdent(column)}`
+      );
+      if (definition.timestamps.updated && !columns.includes("updated_at")) {
+        assignments.push(`"updated_at" = now()`);
+      }
+
+      const upsertSql =
+        `${sql} on conflict (${conflictColumns.map(quoteIdent).join(", ")}) ` +
+        `do update set ${assignments.join(", ")} returning *`;
+      const { rows: written } = await this.query<T>(upsertSql, params);
+      group.indexes.forEach((index, i) => (result[index] = written[i]));
+    }
+    return result.filter(Boolean);
+  }
+
+  async update<T extends Row = Row>(
+    table: string,
+    filters: Filter[],
+    patch: Row
+  ): Promise<T[]> {
+    const entries = Object.entries(patch).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return [];
+    const params = new SqlParams();
+    const assignments = entries.map(
+      ([column, value]) => `${quoteIdent(column)} = ${params.add(value)}`
+    );
+    if (
+      getTableDefinition(table).timestamps.updated &&
+      !("updated_at" in patch)
+    ) {
+      assignments.push(`"updated_at" = now()`);
+    }
+    const sql =
+      `update ${this.table(table)} set ${assignments.join(", ")}` +
+      `${buildWhere(filters, params)} returning *`;
+    return (await this.query<T>(sql, params)).rows;
+  }
+
+  async delete(table: string, filters: Filter[]): Promise<number> {
+    const params = new SqlParams();
+    const sql = `delete from ${this.table(table)}${buildWhere(
+      filters,
+      params
+    )}`;
+    return (await this.query(sql, params)).rowCount;
+  }
+
+  async rpc<T extends Row = Row>(fn: string, args: Row = {}): Promise<T[]> {
+    const params = new SqlParams();
+    const namedArgs = Object.entries(args)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `${quoteIdent(name)} => ${params.add(value)}`);
+    const sql = `select * from ${quoteIdent(this.schema)}.${quoteIdent(
+      fn
+    )}(${namedArgs.join(", ")})`;
+    return (await this.query<T>(sql, params)).rows;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Row helpers shared by the repository backends (not part of the public
+ * repository surface).
+ */
+
+import { Filter, OrderBy, Row } from "./types";
+
+/**
+ * Order of two non-null column values (strings, numbers, ISO timestamps)
+ */
+export function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  return (a as any) < (b as any) ? -1 : 1;
+}
+
+export function sortRows<T extends Row>(rows: T[], orderBy: OrderBy[]): T[] {
+  return [...rows].sort((a, b) => {
+    for (const { column, ascending = true } of orderBy) {
+      const left = a[column] ?? null;
+      const right = b[column] ?? null;
+      if (left === right) continue;
+      // Match Postgres defaults: NULLS LAST ascending, NULLS FIRST descending
+      if (left === null) return ascending ? 1 : -1;
+      if (right === null) return ascending ? -1 : 1;
+      const order = compare(left, right);
+      return ascending ? order : -order;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Row without undefined values: an undefined value means "not given", so
+ * inserts use the column default and upserts leave the column alone
+ */
+export function definedValues(row: Row): Row {
+  return Object.fromEntries(
+    Object.entries(row).filter(([, value]) => value !== undefined)
+  );
+}
+
+/**
+ * Rows grouped by the set of columns they name (first-seen order), with
+ * their positions in `rows`, so each group can be written as one statement
+ * that only touches those columns
+ */
+export function groupByColumns(
+  rows: Row[]
+): { columns: string[]; rows: Row[]; indexes: number[] }[] {
+  const groups = new Map<
+    string,
+    { columns: string[]; rows: Row[]; indexes: number[] }
+  >();
+  rows.forEach((row, index) => {
+    const defined = definedValues(row);
+    const columns = Object.keys(defined).sort();
+    const key = columns.join(",");
+    const group = groups.get(key) ?? { columns, rows: [], indexes: [] };
+    group.rows.push(defined);
+    group.indexes.push(index);
+    groups.set(key, group);
+  });
+  return Array.from(groups.values());
+}
+
+/**
+ * Split the first `in` filter longer than `size` into several filter sets
+ * (long id lists don't fit in a PostgREST URL)
+ */
+export function chunkInFilter(filters: Filter[], size: number): Filter[][] {
+  const index = filters.findIndex(
+    (filter) => filter.op === "in" && (filter.value as unknown[]).length > size
+  );
+  if (index === -1) return [filters];
+  const values = filters[index].value as unknown[];
+  const chunks: Filter[][] = [];
+  for (let start = 0; start < values.length; start += size) {
+    const chunk = [...filters];
+    chunk[index] = { ...filters[index], value: values.slice(start, start + size) };
+    chunks.push(chunk);
+  }
+  return chunks;
+}
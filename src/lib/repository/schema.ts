@@ -0,0 +1,66 @@
+/**
+ * Table metadata shared by the repository backends.
+ * Mirrors the leadgen schema in migrations/ - keep both in sync.
+ */
+
+export type TableDefinition = {
+  // Primary key columns (used as the default upsert conflict target)
+  primaryKey: string[];
+  // Whether the primary key is a generated UUID `id` column
+  generatedId: boolean;
+  // Whether the table has created_at / updated_at timestamp columns
+  timestamps: { created: boolean; updated: boolean };
+};
+
+const entityTable: TableDefinition = {
+  primaryKey: ["id"],
+  generatedId: true,
+  timestamps: { created: true, updated: true },
+};
+
+const linkTable = (primaryKey: string[]): TableDefinition => ({
+  primaryKey,
+  generatedId: false,
+  timestamps: { created: true, updated: false },
+});
+
+export const TABLES: Record<string, TableDefinition> = {
+  companies: entityTable,
+  people: entityTable,
+  job_posts: entityTable,
+  company_people: linkTable(["company_id", "person_id", "role"]),
+  job_post_people: linkTable(["job_post_id", "person_id", "role"]),
+  ingest_sources: entityTable,
+  vacancies: entityTable,
+  clay_outbox: entityTable,
+  clay_sync_state: {
+    primaryKey: ["job_post_id"],
+    generatedId: false,
+    timestamps: { created: true, updated: true },
+  },
+  crm_sync_state: {
+    primaryKey: ["provider", "entity_type", "entity_id"],
+    generatedId: false,
+    timestamps: { created: true, updated: true },
+  },
+  company_domains: entityTable,
+  company_aliases: entityTable,
+  company_enrichments: entityTable,
+  contact_points: entityTable,
+  company_merges: entityTable,
+  person_merges: entityTable,
+  match_reviews: entityTable,
+  sync_cursors: {
+    primaryKey: ["name"],
+    generatedId: false,
+    timestamps: { created: false, updated: true },
+  },
+};
+
+export function getTableDefinition(table: string): TableDefinition {
+  const definition = TABLES[table];
+  if (!definition) {
+    throw new Error(`Unknown table: ${table}`);
+  }
+  return definition;
+}
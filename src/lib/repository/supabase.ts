@@ -0,0 +1,206 @@
+/**
+ * Supabase (PostgREST) repository backend - the production default.
+ *
+ * PostgREST caps every response at the project's max-rows (1000 by default),
+ * so selects are read in pages of SUPABASE_MAX_ROWS, and long `in` lists are
+ * split over several requests to keep URLs short.
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { getTableDefinition } from "./schema";
+import {
+  chunkInFilter,
+  definedValues,
+  groupByColumns,
+  sortRows,
+} from "./rows";
+import {
+  Filter,
+  OrderBy,
+  Repository,
+  Row,
+  SelectQuery,
+  UpsertOptions,
+} from "./types";
+
+// PostgREST filter builders are heavily generic; we only rely on the
+// untyped subset shared by select/update/delete builders.
+function applyFilters(query: any, filters: Filter[] = []): any {
+  return filters.reduce((q, { column, op, value }) => {
+    switch (op) {
+      case "in":
+        return q.in(column, value as unknown[]);
+      case "is":
+        return q.is(column, value);
+      case "not_null":
+        return q.not(column, "is", null);
+      case "contains":
+        return q.contains(column, value as unknown[]);
+      default:
+        return q[op](column, value);
+    }
+  }, query);
+}
+
+// Must not exceed the project's max-rows setting
+const PAGE_SIZE = Math.max(1, Number(process.env.SUPABASE_MAX_ROWS) || 1000);
+// Values per `in` filter (36-character uuids: ~7.5 KB of URL)
+const IN_CHUNK_SIZE = 200;
+
+export class SupabaseRepository implements Repository {
+  readonly backend = "supabase" as const;
+
+  constructor(private client: SupabaseClient<any, any, any>) {}
+
+  private from(table: string) {
+    getTableDefinition(table); // validate table name
+    return this.client.from(table);
+  }
+
+  async select<T extends Row = Row>(
+    table: string,
+    query: SelectQuery = {}
+  ): Promise<T[]> {
+    const chunks = chunkInFilter(query.filters ?? [], IN_CHUNK_SIZE);
+    if (chunks.length === 1) return this.selectPages<T>(table, query);
+
+    let rows: T[] = [];
+    for (const filters of chunks) {
+      rows.push(...(await this.selectPages<T>(table, { ...query, filters })));
+    }
+    if (query.orderBy?.length) rows = sortRows(rows, query.orderBy);
+    return query.limit !== undefined ? rows.slice(0, query.limit) : rows;
+  }
+
+  // All matching rows (up to the limit), one max-rows page at a time
+  private async selectPages<T extends Row>(
+    table: string,
+    query: SelectQuery
+  ): Promise<T[]> {
+    const columns = query.columns?.length ? query.columns.join(", ") : "*";
+    // Primary key as tiebreaker keeps the pages stable
+    const primaryKey = getTableDefinition(table).primaryKey;
+    const orderBy: OrderBy[] = [
+      ...(query.orderBy ?? []),
+      ...primaryKey
+        .filter((column) => !query.orderBy?.some((o) => o.column === column))
+        .map((column) => ({ column })),
+    ];
+
+    const rows: T[] = [];
+    for (;;) {
+      const wanted = Math.min(
+        PAGE_SIZE,
+        (query.limit ?? Infinity) - rows.length
+      );
+      if (wanted <= 0) return rows;
+      let builder = applyFilters(
+        this.from(table).select(columns),
+        query.filters
+      );
+      for (const { column, ascending = true } of orderBy) {
+        builder = builder.order(column, { ascending });
+      }
+      const { data, error } = await builder.range(
+        rows.length,
+        rows.length + wanted - 1
+      );
+      if (error) throw error;
+      rows.push(...((data ?? []) as T[]));
+      if ((data ?? []).length < wanted) return rows;
+    }
+  }
+
+  async insert<T extends Row = Row>(table: string, rows: Row[]): Promise<T[]> {
+    if (rows.length === 0) return [];
+    // Columns a row doesn't name get their default, not null
+    const { data, error } = await this.from(table)
+      .insert(rows.map(definedValues), { defaultToNull: false })
+      .select();
+    if (error) throw error;
+    return (data ?? []) as T[];
+  }
+
+  async upsert<T extends Row = Row>(
+    table: string,
+    rows: Row[],
+    options: UpsertOptions = {}
+  ): Promise<T[]> {
+    if (rows.length === 0) return [];
+    const definition = getTableDefinition(table);
+    const onConflict = (options.onConflict ?? definition.primaryKey).join(",");
+    const now = new Date().toISOString();
+
+    if (options.ignoreDuplicates) {
+      const inserted: T[] = [];
+      for (const group of groupByColumns(rows)) {
+        const { data, error } = await this.from(table)
+          .upsert(group.rows, {
+            onConflict,
+            ignoreDuplicates: true,
+            defaultToNull: false,
+          })
+          .select();
+        if (error) throw error;
+        inserted.push(...((data ?? []) as T[]));
+      }
+      return inserted;
+    }
+
+    // One request per column set, so a conflict only overwrites the columns
+    // the row names (rows are returned in input order)
+    const result: T[] = new Array(rows.length);
+    for (const group of groupByColumns(rows)) {
+      const payload = definition.timestamps.updated
+        ? group.rows.map((row) => ({ updated_at: now, ...row }))
+        : group.rows;
+      const { data, error } = await this.from(table)
+        .upsert(payload, { onConflict, defaultToNull: false })
+        .select();
+      if (error) throw error;
+      group.indexes.forEach((index, i) => (result[index] = (data ?? [])[i]));
+    }
+    return result.filter(Boolean);
+  }
+
+  async update<T extends Row = Row>(
+    table: string,
+    filters: Filter[],
+    patch: Row
+  ): Promise<T[]> {
+    const values = definedValues(patch);
+    if (Object.keys(values).length === 0) return [];
+    if (getTableDefinition(table).timestamps.updated && !("updated_at" in values)) {
+      values.updated_at = new Date().toISOString();
+    }
+    const updated: T[] = [];
+    for (const chunk of chunkInFilter(filters, IN_CHUNK_SIZE)) {
+      const { data, error } = await applyFilters(
+        this.from(table).update(values),
+        chunk
+      ).select();
+      if (error) throw error;
+      updated.push(...((data ?? []) as T[]));
+    }
+    return updated;
+  }
+
+  async delete(table: string, filters: Filter[]): Promise<number> {
+    let deleted = 0;
+    for (const chunk of chunkInFilter(filters, IN_CHUNK_SIZE)) {
+      const { count, error } = await applyFilters(
+        this.from(table).delete({ count: "exact" }),
+        chunk
+      );
+      if (error) throw error;
+      deleted += count ?? 0;
+    }
+    return deleted;
+  }
+
+  async rpc<T extends Row = Row>(fn: string, args: Row = {}): Promise<T[]> {
+    const { data, error } = await this.client.rpc(fn, args);
+    if (error) throw error;
+    return (data ?? []) as T[];
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Storage-agnostic repository interface used by src/lib/db.ts.
+ *
+ * The query surface is intentionally small (single-table selects with simple
+ * filters, inserts, upserts, updates and deletes) so that every backend -
+ * Supabase, plain Postgres and the in-memory store - can implement it
+ * faithfully. Joins are done in application code; `rpc` is the escape hatch
+ * for SQL functions the memory backend has no equivalent of.
+ */
+
+export type Row = Record<string, any>;
+
+export type RepositoryBackend = "supabase" | "postgres" | "memory";
+
+export type FilterOp =
+  | "eq"
+  | "neq"
+  | "in"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "is"
+  | "not_null"
+  | "ilike"
+  // Array column contains all given values
+  | "contains";
+
+export type Filter = {
+  column: string;
+  op: FilterOp;
+  value: unknown;
+};
+
+export type OrderBy = {
+  column: string;
+  ascending?: boolean;
+};
+
+export type SelectQuery = {
+  columns?: string[];
+  filters?: Filter[];
+  orderBy?: OrderBy[];
+  limit?: number;
+};
+
+export type UpsertOptions = {
+  // Columns of the unique constraint to resolve conflicts on.
+  // Defaults to the table's primary key (see schema.ts).
+  onConflict?: string[];
+  // Leave conflicting rows as they are (on conflict do nothing); only the
+  // inserted rows are returned
+  ignoreDuplicates?: boolean;
+};
+
+export interface Repository {
+  readonly backend: RepositoryBackend;
+
+  select<T extends Row = Row>(table: string, query?: SelectQuery): Promise<T[]>;
+
+  insert<T extends Row = Row>(table: string, rows: Row[]): Promise<T[]>;
+
+  upsert<T extends Row = Row>(
+    table: string,
+    rows: Row[],
+    options?: UpsertOptions
+  ): Promise<T[]>;
+
+  update<T extends Row = Row>(
+    table: string,
+    filters: Filter[],
+    patch: Row
+  ): Promise<T[]>;
+
+  delete(table: string, filters: Filter[]): Promise<number>;
+
+  // Call a set-returning SQL function in the schema with named arguments
+  // (Postgres backends only; the memory backend throws)
+  rpc<T extends Row = Row>(fn: string, args?: Row): Promise<T[]>;
+}
+
+// Filter builders - keep call sites in db.ts readable
+export const eq = (column: string, value: unknown): Filter => ({
+  column,
+  op: "eq",
+  value,
+});
+export const neq = (column: string, value: unknown): Filter => ({
+  column,
+  op: "neq",
+  value,
+});
+export const inList = (column: string, value: unknown[]): Filter => ({
+  column,
+  op: "in",
+  value,
+});
+export const gt = (column: string, value: unknown): Filter => ({
+  column,
+  op: "gt",
+  value,
+});
+export const gte = (column: string, value: unknown): Filter => ({
+  column,
+  op: "gte",
+  value,
+});
+export const lt = (column: string, value: unknown): Filter => ({
+  column,
+  op: "lt",
+  value,
+});
+export const lte = (column: string, value: unknown): Filter => ({
+  column,
+  op: "lte",
+  value,
+});
+export const isNull = (column: string): Filter => ({
+  column,
+  op: "is",
+  value: null,
+});
+export const notNull = (column: string): Filter => ({
+  column,
+  op: "not_null",
+  value: null,
+});
+export const ilike = (column: string, pattern: string): Filter => ({
+  column,
+  op: "ilike",
+  value: pattern,
+});
+export const contains = (column: string, values: unknown[]): Filter => ({
+  column,
+  op: "contains",
+  value: values,
+});
@@ -0,0 +1,356 @@
+/**
+ * Role classification from job titles.
+ *
+ * Titles are matched against the versioned rule set in ./role-rules.json
+ * (or the JSON file in ROLE_RULES_PATH): seniority and department rules are
+ * tried in order and the first rule with a matching pattern and no matching
+ * exclusion wins; role rules then combine seniority, department and their own
+ * patterns into the link role. Patterns match whole words, case-insensitive;
+ * "*" matches the rest of a (Norwegian compound) word, so "*leder" matches
+ * "salgsleder" and "leder".
+ *
+ * people.role_rules_version records the rule set a person was classified
+ * with; reclassifyPersonRoles re-runs newer rules over the company_people /
+ * job_post_people links whose role came from the title (role_source
+ * "title"). Roles from Clay, imports or older rows are left alone.
+ */
+
+import fs from "node:fs";
+import { z } from "zod";
+import { getRepository, eq, gt, inList, Filter } from "./repository";
+import defaultRules from "./role-rules.json";
+
+export type PersonRole =
+  | "decision_maker"
+  | "recruiter"
+  | "contact_person"
+  | "other";
+
+const PERSON_ROLES = [
+  "decision_maker",
+  "recruiter",
+  "contact_person",
+  "other",
+] as const;
+
+const RuleSetSchema = z.object({
+  version: z.string().min(1),
+  seniority: z.array(
+    z.object({
+      seniority: z.string().min(1),
+      patterns: z.array(z.string().min(1)),
+      exclude: z.array(z.string().min(1)).optional(),
+    })
+  ),
+  departments: z.array(
+    z.object({
+      department: z.string().min(1),
+      patterns: z.array(z.string().min(1)),
+      exclude: z.array(z.string().min(1)).optional(),
+    })
+  ),
+  roles: z.array(
+    z.object({
+      role: z.enum(PERSON_ROLES),
+      // All given conditions must hold
+      seniority: z.array(z.string()).optional(),
+      department: z.array(z.string()).optional(),
+      patterns: z.array(z.string().min(1)).optional(),
+      exclude: z.array(z.string().min(1)).optional(),
+    })
+  ),
+  default_role: z.enum(PERSON_ROLES),
+});
+
+export type RoleRuleSet = z.infer<typeof RuleSetSchema>;
+
+export type RoleClassification = {
+  role: PersonRole;
+  seniority: string | null;
+  department: string | null;
+  rules_version: string;
+};
+
+type CompiledRule<T> = T & { match: RegExp | null; skip: RegExp | null };
+
+type CompiledRuleSet = {
+  version: string;
+  seniority: CompiledRule<RoleRuleSet["seniority"][number]>[];
+  departments: CompiledRule<RoleRuleSet["departments"][number]>[];
+  roles: CompiledRule<RoleRuleSet["roles"][number]>[];
+  default_role: PersonRole;
+};
+
+/**
+ * One regex for a list of word patterns ("*" = rest of the word)
+ */
+function compilePatterns(patterns?: string[]): RegExp | null {
+  if (!patterns?.length) return null;
+  const alternatives = patterns.map((pattern) =>
+    pattern
+      .toLowerCase()
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join("\\p{L}*")
+  );
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}])`,
+    "iu"
+  );
+}
+
+function compile<T extends { patterns?: string[]; exclude?: string[] }>(
+  rule: T
+): CompiledRule<T> {
+  return {
+    ...rule,
+    match: compilePatterns(rule.patterns),
+    skip: compilePatterns(rule.exclude),
+  };
+}
+
+let ruleSet: CompiledRuleSet | null = null;
+
+/**
+ * Rule set in use: ROLE_RULES_PATH when set, else the bundled rules
+ */
+export function getRoleRules(): CompiledRuleSet {
+  if (ruleSet) return ruleSet;
+  const path = process.env.ROLE_RULES_PATH;
+  const raw = path ? JSON.parse(fs.readFileSync(path, "utf8")) : defaultRules;
+  const parsed = RuleSetSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid role rules${path ? ` in ${path}` : ""}: ${parsed.error.message}`
+    );
+  }
+  ruleSet = {
+    version: parsed.data.version,
+    seniority: parsed.data.seniority.map(compile),
+    departments: parsed.data.departments.map(compile),
+    roles: parsed.data.roles.map(compile),
+    default_role: parsed.data.default_role,
+  };
+  return ruleSet;
+}
+
+const matches = (
+  rule: { match: RegExp | null; skip: RegExp | null },
+  title: string
+) => (!rule.match || rule.match.test(title)) && !rule.skip?.test(title);
+
+/**
+ * Role, seniority and department for a job title
+ */
+export function classifyPersonTitle(
+  title: string | null | undefined
+): RoleClassification {
+  const rules = getRoleRules();
+  const normalizedTitle = (title ?? "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!normalizedTitle) {
+    return {
+      role: "contact_person",
+      seniority: null,
+      department: null,
+      rules_version: rules.version,
+    };
+  }
+
+  const seniority =
+    rules.seniority.find((rule) => matches(rule, normalizedTitle))
+      ?.seniority ?? null;
+  const department =
+    rules.departments.find((rule) => matches(rule, normalizedTitle))
+      ?.department ?? null;
+  const roleRule = rules.roles.find(
+    (rule) =>
+      (!rule.seniority || rule.seniority.includes(seniority ?? "")) &&
+      (!rule.department || rule.department.includes(department ?? "")) &&
+      matches(rule, normalizedTitle)
+  );
+
+  return {
+    role: roleRule?.role ?? rules.default_role,
+    seniority,
+    department,
+    rules_version: rules.version,
+  };
+}
+
+/**
+ * Classifies a person's role based on their title
+ * Returns one of: 'decision_maker', 'recruiter', 'contact_person', 'other'
+ */
+export function classifyPersonRole(
+  title: string | null | undefined
+): PersonRole {
+  return classifyPersonTitle(title).role;
+}
+
+/**
+ * seniority / department / role_rules_version columns for a person's title
+ */
+export function personTitleFields(title: string | null | undefined) {
+  const { seniority, department, rules_version } = classifyPersonTitle(title);
+  return { seniority, department, role_rules_version: rules_version };
+}
+
+export type RoleChange = {
+  person_id: string;
+  title: string | null;
+  table: "company_people" | "job_post_people";
+  from: string;
+  to: PersonRole;
+};
+
+export type ReclassifyResult = {
+  rules_version: string;
+  people_checked: number;
+  people_updated: number;
+  company_people_changed: number;
+  job_post_people_changed: number;
+  // Changed links (first 100)
+  changes: RoleChange[];
+  // Pass as `after` to continue; null when done
+  next_after: string | null;
+  dry_run: boolean;
+};
+
+const LINK_TABLES = [
+  {
+    table: "company_people",
+    otherKey: "company_id",
+    counter: "company_people_changed",
+  },
+  {
+    table: "job_post_people",
+    otherKey: "job_post_id",
+    counter: "job_post_people_changed",
+  },
+] as const;
+
+/**
+ * Re-run role classification over people and their title-classified links
+ * (a person's other link rows are never changed or deleted). Only people
+ * classified with an older rule set are checked unless `all` is set; each
+ * call handles up to `limit` people, continue with `after` = next_after.
+ */
+export async function reclassifyPersonRoles(
+  params: {
+    all?: boolean;
+    company_id?: string;
+    after?: string;
+    limit?: number;
+    dry_run?: boolean;
+  } = {}
+): Promise<ReclassifyResult> {
+  const { all = false, company_id, after, limit = 500, dry_run = false } =
+    params;
+  const repo = getRepository();
+  const rules = getRoleRules();
+
+  const filters: Filter[] = after ? [gt("id", after)] : [];
+  let personIds: string[] | null = null;
+  if (company_id) {
+    const links = await repo.select("company_people", {
+      columns: ["person_id"],
+      filters: [eq("company_id", company_id)],
+    });
+    personIds = Array.from(new Set(links.map((l) => l.person_id as string)));
+    filters.push(inList("id", personIds));
+  }
+  const people =
+    personIds?.length === 0
+      ? []
+      : await repo.select("people", {
+          columns: [
+            "id",
+            "title",
+            "seniority",
+            "department",
+            "role_rules_version",
+          ],
+          filters,
+          orderBy: [{ column: "id", ascending: true }],
+          limit,
+        });
+
+  const result: ReclassifyResult = {
+    rules_version: rules.version,
+    people_checked: 0,
+    people_updated: 0,
+    company_people_changed: 0,
+    job_post_people_changed: 0,
+    changes: [],
+    next_after: people.length === limit ? people[people.length - 1].id : null,
+    dry_run,
+  };
+
+  for (const person of people) {
+    if (!all && person.role_rules_version === rules.version) continue;
+    result.people_checked++;
+
+    const classification = classifyPersonTitle(person.title);
+    const fields = {
+      seniority: classification.seniority,
+      department: classification.department,
+      role_rules_version: classification.rules_version,
+    };
+    if (
+      fields.seniority !== (person.seniority ?? null) ||
+      fields.department !== (person.department ?? null) ||
+      fields.role_rules_version !== person.role_rules_version
+    ) {
+      result.people_updated++;
+      if (!dry_run) {
+        await repo.update("people", [eq("id", person.id)], fields);
+      }
+    }
+
+    for (const { table, otherKey, counter } of LINK_TABLES) {
+      const links = await repo.select(table, {
+        filters: [eq("person_id", person.id)],
+      });
+      const existing = new Set(links.map((l) => `${l[otherKey]}|${l.role}`));
+      for (const link of links) {
+        if (link.role_source !== "title") continue;
+        if (link.role === classification.role) continue;
+        result[counter]++;
+        if (result.changes.length < 100) {
+          result.changes.push({
+            person_id: person.id,
+            title: person.title ?? null,
+            table,
+            from: link.role,
+            to: classification.role,
+          });
+        }
+        if (dry_run) continue;
+        const linkFilters = [
+          eq(otherKey, link[otherKey]),
+          eq("person_id", person.id),
+          eq("role", link.role),
+        ];
+        // The person already has the new role there: drop the title link
+        // (the other row stays, whatever its source)
+        const target = `${link[otherKey]}|${classification.role}`;
+        if (existing.has(target)) {
+          await repo.delete(table, linkFilters);
+        } else {
+          existing.add(target);
+          await repo.update(table, linkFilters, { role: classification.role });
+        }
+      }
+    }
+  }
+
+  console.log(
+    `[Roles] Checked ${result.people_checked} people with rules v${rules.version}${
+      dry_run ? " (dry run)" : ""
+    }`
+  );
+  return result;
+}
@@ -0,0 +1,456 @@
+/**
+ * Full-text search over job posts (GET /search).
+ *
+ * A job post matches when its title + description, its company's name or the
+ * title of a person linked to it contains the query, and none of those has an
+ * excluded word. Queries use websearch syntax: words, "quoted phrases",
+ * -excluded words and `or`.
+ *
+ * On Postgres / Supabase the search runs in leadgen.search_job_posts
+ * (migrations/024_full_text_search.sql, highlights escaped since
+ * migrations/030_escape_search_highlights.sql) with Norwegian and English
+ * dictionaries. The memory backend has no SQL functions, so an in-memory
+ * index is built per query instead: words match by prefix ("utvikler" finds
+ * "utviklere") rather than by dictionary stem, and ranks are on their own
+ * scale.
+ */
+
+import {
+  getRepository,
+  eq,
+  gte,
+  lt,
+  ilike,
+  inList,
+  contains,
+  Filter,
+  Row,
+} from "./repository";
+import { EnrichedJobPost } from "./db";
+
+export type SearchParams = {
+  q: string;
+  board?: string;
+  source?: string;
+  company_id?: string;
+  sector?: string;
+  industry?: string;
+  location?: string;
+  created_from?: string;
+  created_to?: string;
+  limit: number;
+  offset?: number;
+};
+
+export type SearchHit = {
+  job_post: Omit<EnrichedJobPost["job_post"], "description">;
+  company: Pick<
+    EnrichedJobPost["company"],
+    "id" | "name" | "clean_domain"
+  > | null;
+  rank: number;
+  // HTML-escaped text with the query words wrapped in <mark>; null / empty
+  // when the field has none
+  highlights: {
+    title: string | null;
+    description: string | null;
+    company_name: string | null;
+    people_titles: string[];
+  };
+};
+
+export type SearchPage = {
+  items: SearchHit[];
+  // Pass as `offset` for the next page; null on the last page
+  next_offset: number | null;
+};
+
+// Row shape of leadgen.search_job_posts
+type SearchRow = {
+  job_post_id: string;
+  rank: number;
+  title_highlight: string | null;
+  description_highlight: string | null;
+  company_name_highlight: string | null;
+  people_title_highlights: string[] | null;
+};
+
+const JOB_POST_COLUMNS = [
+  "id",
+  "board",
+  "external_id",
+  "finn_id",
+  "finn_url",
+  "title",
+  "location",
+  "employment_type",
+  "salary",
+  "publication_date",
+  "expiration_date",
+  "application_url",
+  "sector",
+  "industries",
+  "source",
+  "created_at",
+  "vacancy_id",
+] as const;
+
+export async function searchJobPosts(
+  params: SearchParams
+): Promise<SearchPage> {
+  const offset = params.offset ?? 0;
+  // One extra row tells whether there is a next page
+  const rows =
+    getRepository().backend === "memory"
+      ? searchInMemory(params, await buildMemorySearchIndex(params), {
+          offset,
+          limit: params.limit + 1,
+        })
+      : await getRepository().rpc<SearchRow>("search_job_posts", {
+          search_query: params.q,
+          filter_board: params.board,
+          filter_source: params.source,
+          filter_company_id: params.company_id,
+          filter_sector: params.sector,
+          filter_industry: params.industry,
+          filter_location: params.location,
+          created_from: params.created_from,
+          created_to: params.created_to,
+          result_limit: params.limit + 1,
+          result_offset: offset,
+        });
+
+  const page = rows.slice(0, params.limit);
+  return {
+    items: await hydrateSearchRows(page),
+    next_offset: rows.length > params.limit ? offset + params.limit : null,
+  };
+}
+
+/**
+ * Job post and company for each search row, in rank order
+ */
+async function hydrateSearchRows(rows: SearchRow[]): Promise<SearchHit[]> {
+  if (rows.length === 0) return [];
+  const repo = getRepository();
+  const jobPosts = await repo.select("job_posts", {
+    columns: [...JOB_POST_COLUMNS, "company_id"],
+    filters: [inList("id", rows.map((row) => row.job_post_id))],
+  });
+  const companyIds = Array.from(new Set(jobPosts.map((jp) => jp.company_id)));
+  const companies = companyIds.length
+    ? await repo.select("companies", {
+        columns: ["id", "name", "clean_domain"],
+        filters: [inList("id", companyIds)],
+      })
+    : [];
+  const jobPostById = new Map(jobPosts.map((jp) => [jp.id, jp]));
+  const companyById = new Map(companies.map((c) => [c.id, c]));
+
+  return rows.flatMap((row) => {
+    const jobPost = jobPostById.get(row.job_post_id);
+    if (!jobPost) return [];
+    const company = companyById.get(jobPost.company_id);
+    return [
+      {
+        job_post: Object.fromEntries(
+          JOB_POST_COLUMNS.map((column) => [column, jobPost[column] ?? null])
+        ) as SearchHit["job_post"],
+        company: company
+          ? {
+              id: company.id,
+              name: company.name ?? null,
+              clean_domain: company.clean_domain ?? null,
+            }
+          : null,
+        rank: Number(row.rank),
+        highlights: {
+          title: row.title_highlight,
+          description: row.description_highlight,
+          company_name: row.company_name_highlight,
+          people_titles: row.people_title_highlights ?? [],
+        },
+      },
+    ];
+  });
+}
+
+// In-memory fallback
+
+type SearchTerm = { words: string[]; exclude: boolean };
+
+type Token = { word: string; start: number; end: number };
+
+type IndexedJobPost = {
+  id: string;
+  created_at: string;
+  title: string | null;
+  description: string | null;
+  company_name: string | null;
+  people_titles: string[];
+  tokens: {
+    title: Token[];
+    description: Token[];
+    company_name: Token[];
+    people_titles: Token[][];
+  };
+};
+
+// ts_rank's default weights for A (title), B (company), C (people), D (description)
+const FIELD_WEIGHTS = {
+  title: 1,
+  company_name: 0.4,
+  people_titles: 0.2,
+  description: 0.1,
+};
+
+function tokenize(text: string | null | undefined): Token[] {
+  return Array.from((text ?? "").matchAll(/[\p{L}\p{N}]+/gu), (match) => ({
+    word: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+/**
+ * websearch syntax -> alternatives (split on `or`) of terms that must all
+ * match; a quoted term is a phrase
+ */
+function parseSearchQuery(query: string): SearchTerm[][] {
+  const alternatives: SearchTerm[][] = [[]];
+  for (const match of query.matchAll(/(-?)(?:"([^"]*)"?|(\S+))/g)) {
+    const [, minus, phrase, word] = match;
+    if (phrase === undefined && word.toLowerCase() === "or") {
+      alternatives.push([]);
+      continue;
+    }
+    const words = tokenize(phrase ?? word).map((token) => token.word);
+    if (words.length === 0) continue;
+    alternatives[alternatives.length - 1].push({
+      words,
+      exclude: minus === "-",
+    });
+  }
+  return alternatives.filter((terms) => terms.some((term) => !term.exclude));
+}
+
+/**
+ * Start indexes in `tokens` where the term's words occur in order (prefix
+ * match per word)
+ */
+function termPositions(tokens: Token[], term: SearchTerm): number[] {
+  const positions: number[] = [];
+  for (let i = 0; i + term.words.length <= tokens.length; i++) {
+    if (term.words.every((word, j) => tokens[i + j].word.startsWith(word))) {
+      positions.push(i);
+    }
+  }
+  return positions;
+}
+
+const fieldMatches = (tokens: Token[], terms: SearchTerm[]) =>
+  terms.every(
+    (term) => termPositions(tokens, term).length > 0 !== term.exclude
+  );
+
+/**
+ * Filtered job posts with their company names and linked people titles
+ */
+async function buildMemorySearchIndex(
+  params: SearchParams
+): Promise<IndexedJobPost[]> {
+  const repo = getRepository();
+  const filters: Filter[] = [
+    ...(params.board ? [eq("board", params.board)] : []),
+    ...(params.source ? [ilike("source", `%${params.source}%`)] : []),
+    ...(params.company_id ? [eq("company_id", params.company_id)] : []),
+    ...(params.sector ? [ilike("sector", params.sector)] : []),
+    ...(params.industry ? [contains("industries", [params.industry])] : []),
+    ...(params.location ? [ilike("location", `%${params.location}%`)] : []),
+    ...(params.created_from ? [gte("created_at", params.created_from)] : []),
+    ...(params.created_to ? [lt("created_at", params.created_to)] : []),
+  ];
+  const jobPosts = await repo.select("job_posts", {
+    columns: ["id", "company_id", "title", "description", "created_at"],
+    filters,
+  });
+  if (jobPosts.length === 0) return [];
+
+  const [companies, links] = await Promise.all([
+    repo.select("companies", {
+      columns: ["id", "name"],
+      filters: [
+        inList("id", [...new Set(jobPosts.map((jp) => jp.company_id))]),
+      ],
+    }),
+    repo.select("job_post_people", {
+      columns: ["job_post_id", "person_id"],
+      filters: [inList("job_post_id", jobPosts.map((jp) => jp.id))],
+    }),
+  ]);
+  const people: Row[] = links.length
+    ? await repo.select("people", {
+        columns: ["id", "title"],
+        filters: [inList("id", [...new Set(links.map((l) => l.person_id))])],
+      })
+    : [];
+  const companyName = new Map(companies.map((c) => [c.id, c.name ?? null]));
+  const personTitle = new Map(people.map((p) => [p.id, p.title ?? null]));
+
+  return jobPosts.map((jobPost) => {
+    const peopleTitles = Array.from(
+      new Set(
+        links
+          .filter((link) => link.job_post_id === jobPost.id)
+          .map((link) => personTitle.get(link.person_id))
+          .filter((title): title is string => Boolean(title))
+      )
+    );
+    const name = companyName.get(jobPost.company_id) ?? null;
+    return {
+      id: jobPost.id,
+      created_at: jobPost.created_at ?? "",
+      title: jobPost.title ?? null,
+      description: jobPost.description ?? null,
+      company_name: name,
+      people_titles: peopleTitles,
+      tokens: {
+        title: tokenize(jobPost.title),
+        description: tokenize(jobPost.description),
+        company_name: tokenize(name),
+        people_titles: peopleTitles.map(tokenize),
+      },
+    };
+  });
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * HTML-escape the text and wrap words matching the terms in <mark>, like
+ * leadgen.search_headline. With `fragments`, only up to that
+ * many ~30-word windows around the matches are kept (like ts_headline).
+ * Null when nothing matches.
+ */
+function highlight(
+  text: string | null,
+  tokens: Token[],
+  terms: SearchTerm[],
+  fragments?: number
+): string | null {
+  if (!text) return null;
+  const marked = new Set<number>();
+  for (const term of terms) {
+    if (term.exclude) continue;
+    for (const start of termPositions(tokens, term)) {
+      term.words.forEach((_, j) => marked.add(start + j));
+    }
+  }
+  if (marked.size === 0) return null;
+
+  const render = (from: number, to: number) => {
+    let out = "";
+    let cursor = tokens[from].start;
+    for (let i = from; i < to; i++) {
+      const token = tokens[i];
+      out += escapeHtml(text.slice(cursor, token.start));
+      const word = escapeHtml(text.slice(token.start, token.end));
+      out += marked.has(i) ? `<mark>${word}</mark>` : word;
+      cursor = token.end;
+    }
+    return out;
+  };
+  if (!fragments) {
+    return (
+      escapeHtml(text.slice(0, tokens[0].start)) +
+      render(0, tokens.length) +
+      escapeHtml(text.slice(tokens[tokens.length - 1].end))
+    );
+  }
+
+  const windows: [number, number][] = [];
+  for (const index of Array.from(marked).sort((a, b) => a - b)) {
+    if (windows.length === fragments) break;
+    if (windows.some(([from, to]) => index >= from && index < to)) continue;
+    const from = Math.max(0, index - 10);
+    windows.push([from, Math.min(tokens.length, from + 30)]);
+  }
+  return windows.map(([from, to]) => render(from, to)).join(" ... ");
+}
+
+function searchInMemory(
+  params: SearchParams,
+  index: IndexedJobPost[],
+  page: { offset: number; limit: number }
+): SearchRow[] {
+  const alternatives = parseSearchQuery(params.q);
+  const matchesQuery = (tokens: Token[]) =>
+    alternatives.some((terms) => fieldMatches(tokens, terms));
+  const positiveTerms = alternatives.flat().filter((term) => !term.exclude);
+  const occurrences = (tokens: Token[]) =>
+    positiveTerms.reduce(
+      (sum, term) => sum + termPositions(tokens, term).length,
+      0
+    );
+
+  const matches = index
+    .filter(
+      (doc) =>
+        (matchesQuery([...doc.tokens.title, ...doc.tokens.description]) ||
+          matchesQuery(doc.tokens.company_name) ||
+          doc.tokens.people_titles.some(matchesQuery)) &&
+        // Excluded words count anywhere in the post
+        matchesQuery([
+          ...doc.tokens.title,
+          ...doc.tokens.company_name,
+          ...doc.tokens.people_titles.flat(),
+          ...doc.tokens.description,
+        ])
+    )
+    .map((doc) => {
+      const rank =
+        FIELD_WEIGHTS.title * occurrences(doc.tokens.title) +
+        FIELD_WEIGHTS.company_name * occurrences(doc.tokens.company_name) +
+        FIELD_WEIGHTS.people_titles *
+          doc.tokens.people_titles.reduce((sum, t) => sum + occurrences(t), 0) +
+        FIELD_WEIGHTS.description * occurrences(doc.tokens.description);
+      return { doc, rank: Math.round(rank * 10000) / 10000 };
+    })
+    // Same order as search_job_posts: rank, newest, id
+    .sort(
+      (a, b) =>
+        b.rank - a.rank ||
+        b.doc.created_at.localeCompare(a.doc.created_at) ||
+        a.doc.id.localeCompare(b.doc.id)
+    );
+
+  return matches
+    .slice(page.offset, page.offset + page.limit)
+    .map(({ doc, rank }) => ({
+      job_post_id: doc.id,
+      rank,
+      title_highlight: highlight(doc.title, doc.tokens.title, positiveTerms),
+      description_highlight: highlight(
+        doc.description,
+        doc.tokens.description,
+        positiveTerms,
+        2
+      ),
+      company_name_highlight: highlight(
+        doc.company_name,
+        doc.tokens.company_name,
+        positiveTerms
+      ),
+      people_title_highlights: doc.people_titles
+        .map((title, i) =>
+          highlight(title, doc.tokens.people_titles[i], positiveTerms)
+        )
+        .filter((title): title is string => title !== null),
+    }));
+}
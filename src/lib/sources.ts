@@ -0,0 +1,113 @@
+/**
+ * Ingest source registry.
+ *
+ * Each team/scraper that pushes jobs into the pipeline is a row in
+ * leadgen.ingest_sources, so onboarding a new source is a data change
+ * instead of a new route and redeploy.
+ */
+
+import { getRepository, eq } from "./repository";
+
+export type IngestSourceKind = "apify" | "nav";
+
+export type IngestSource = {
+  id: string;
+  // How the source is read: pushed/polled Apify datasets or the NAV job feed
+  kind: IngestSourceKind;
+  // Source name, stored on job_posts.source and used in /ingest/:source/apify-job
+  name: string;
+  // Apify dataset items URL polled by the import cron (null = not polled)
+  dataset_url: string | null;
+  // Shared secret required on /ingest/:source/* (null = no auth)
+  auth_secret: string | null;
+  // Default payload values applied when the scraper omits them
+  defaults: Record<string, unknown>;
+  enabled: boolean;
+  // Last read position for pull-based feeds (NAV: URL of the next feed page)
+  feed_cursor: string | null;
+};
+
+const SOURCE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+export function isValidSourceName(name: string): boolean {
+  return SOURCE_NAME_PATTERN.test(name);
+}
+
+/**
+ * Dataset URL for a source: the registry value, or APIFY_DATASET_URL_<NAME>
+ * from the environment (keeps pre-registry deployments working).
+ */
+function resolveDatasetUrl(name: string, datasetUrl: string | null) {
+  if (datasetUrl) return datasetUrl;
+  const envName = `APIFY_DATASET_URL_${name.toUpperCase().replace(/-/g, "_")}`;
+  return process.env[envName] || null;
+}
+
+function toIngestSource(row: Record<string, any>): IngestSource {
+  return {
+    id: row.id,
+    kind: row.kind ?? "apify",
+    name: row.name,
+    dataset_url: resolveDatasetUrl(row.name, row.dataset_url ?? null),
+    auth_secret: row.auth_secret ?? null,
+    defaults: row.defaults ?? {},
+    enabled: row.enabled ?? true,
+    feed_cursor: row.feed_cursor ?? null,
+  };
+}
+
+/**
+ * List all enabled sources, optionally of a single kind
+ */
+export async function listIngestSources(
+  kind?: IngestSourceKind
+): Promise<IngestSource[]> {
+  const rows = await getRepository().select("ingest_sources", {
+    filters: [eq("enabled", true), ...(kind ? [eq("kind", kind)] : [])],
+    orderBy: [{ column: "name" }],
+  });
+  return rows.map(toIngestSource);
+}
+
+/**
+ * Look up an enabled source by name
+ */
+export async function getIngestSource(
+  name: string
+): Promise<IngestSource | null> {
+  if (!isValidSourceName(name)) return null;
+  const [row] = await getRepository().select("ingest_sources", {
+    filters: [eq("name", name), eq("enabled", true)],
+    limit: 1,
+  });
+  return row ? toIngestSource(row) : null;
+}
+
+/**
+ * Apply a source's defaults to an incoming payload.
+ * Values present in the payload always win.
+ */
+export function applySourceDefaults(
+  body: unknown,
+  source: IngestSource
+): unknown {
+  if (!body || typeof body !== "object" || Array.isArray(body)) return body;
+  const payload = body as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...source.defaults };
+  for (const [key, value] of Object.entries(payload)) {
+    if (value !== undefined && value !== null) merged[key] = value;
+  }
+  return merged;
+}
+
+/**
+ * Persist the read position of a pull-based feed source
+ */
+export async function saveIngestSourceCursor(
+  sourceId: string,
+  cursor: string | null
+) {
+  await getRepository().update("ingest_sources", [eq("id", sourceId)], {
+    feed_cursor: cursor,
+  });
+}
@@ -1,22 +1,29 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
 
-const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+/**
+ * Create the Supabase client for the leadgen schema.
+ * Called lazily by the repository layer so that importing this module
+ * does not require Supabase credentials (e.g. with DB_BACKEND=memory).
+ */
+export function createSupabaseClient(): SupabaseClient<any, any, any> {
+  const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env;
 
-if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
-  throw new Error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY env vars");
-}
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY env vars");
+  }
 
-export const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
-  db: {
-    schema: "leadgen",
-  },
-  auth: {
-    autoRefreshToken: false,
-    persistSession: false,
-  },
-  global: {
-    headers: {
-      "X-Client-Info": "leads-sync-machine",
+  return createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    db: {
+      schema: "leadgen",
+    },
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
     },
-  },
-});
+    global: {
+      headers: {
+        "X-Client-Info": "leads-sync-machine",
+      },
+    },
+  });
+}
@@ -0,0 +1,108 @@
+/**
+ * Named read positions for incremental sync jobs (leadgen.sync_cursors),
+ * e.g. the (updated_at, id) of the last job post /cron/clay-sync looked at.
+ *
+ * Changed rows are scanned in (timestamp, id) order: the next batch is the
+ * rows sharing the position's timestamp with a later id, then the rows after
+ * the timestamp - two queries, as the repository has no OR filters (like
+ * selectPage in listing.ts). A batch that ends inside a group of rows with
+ * the same timestamp resumes after the last row it saw.
+ */
+
+import { getRepository, eq, gt, notNull, Filter, Row } from "./repository";
+
+export async function getSyncCursor(name: string): Promise<string | null> {
+  const [row] = await getRepository().select("sync_cursors", {
+    columns: ["cursor"],
+    filters: [eq("name", name)],
+    limit: 1,
+  });
+  return (row?.cursor as string | null) ?? null;
+}
+
+export async function saveSyncCursor(name: string, cursor: string | null) {
+  await getRepository().upsert("sync_cursors", [{ name, cursor }], {
+    onConflict: ["name"],
+  });
+}
+
+export type SyncPosition = { ts: string; id: string };
+
+// Sorts before every id: resumes at the first row of a timestamp
+const FIRST_ID = "00000000-0000-0000-0000-000000000000";
+
+/**
+ * Position before the first row with timestamp `ts`
+ */
+export const positionAt = (ts: string): SyncPosition => ({ ts, id: FIRST_ID });
+
+/**
+ * Saved position; a bare timestamp (saved before positions carried an id)
+ * starts at the first row with that timestamp
+ */
+export async function getSyncPosition(
+  name: string
+): Promise<SyncPosition | null> {
+  const cursor = await getSyncCursor(name);
+  if (!cursor) return null;
+  try {
+    const [ts, id] = JSON.parse(cursor);
+    if (typeof ts === "string" && typeof id === "string") return { ts, id };
+  } catch {
+    // fall through
+  }
+  return positionAt(cursor);
+}
+
+export async function saveSyncPosition(name: string, position: SyncPosition) {
+  await saveSyncCursor(name, JSON.stringify([position.ts, position.id]));
+}
+
+/**
+ * Up to `limit` rows of `table` after `after` in (column, id) order; rows
+ * with a null `column` are never returned
+ */
+export async function selectChangedRows(
+  table: string,
+  params: {
+    column: string;
+    after: SyncPosition | null;
+    columns?: string[];
+    filters?: Filter[];
+    limit: number;
+  }
+): Promise<Row[]> {
+  const repo = getRepository();
+  const { column, after, filters = [], limit } = params;
+  const columns = params.columns
+    ? Array.from(new Set([...params.columns, "id", column]))
+    : undefined;
+
+  let rows: Row[] = [];
+  if (after) {
+    rows = await repo.select(table, {
+      columns,
+      filters: [...filters, eq(column, after.ts), gt("id", after.id)],
+      orderBy: [{ column: "id" }],
+      limit,
+    });
+  }
+  if (rows.length < limit) {
+    const rest = await repo.select(table, {
+      columns,
+      filters: [...filters, after ? gt(column, after.ts) : notNull(column)],
+      orderBy: [{ column }, { column: "id" }],
+      limit: limit - rows.length,
+    });
+    rows = rows.concat(rest);
+  }
+  return rows;
+}
+
+/**
+ * Position of the last row of a batch from selectChangedRows
+ */
+export function lastPosition(rows: Row[], column: string): SyncPosition | null {
+  const last = rows[rows.length - 1];
+  return last ? { ts: last[column], id: last.id } : null;
+}
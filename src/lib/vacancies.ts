@@ -0,0 +1,428 @@
+/**
+ * Cross-board duplicate job detection.
+ *
+ * The same vacancy is often posted on several boards (finn.no, NAV, ...).
+ * Postings whose fingerprints match - same company, similar normalized title,
+ * compatible location, published close together and with similar
+ * descriptions - are grouped into one leadgen.vacancies row. The vacancy's
+ * primary posting carries the job_post_people links and is the one synced to Clay.
+ */
+
+import {
+  getRepository,
+  eq,
+  neq,
+  inList,
+  isNull,
+  gte,
+  lte,
+  Row,
+} from "./repository";
+
+export type Vacancy = {
+  id: string;
+  company_id: string;
+  // Posting that carries the people links and the Clay row
+  primary_job_post_id: string | null;
+  title: string | null;
+  location: string | null;
+  first_published_at: string | null;
+  last_published_at: string | null;
+};
+
+export type VacancyAssignment = {
+  vacancy_id: string;
+  primary_job_post_id: string;
+  // True when the posting joined a vacancy already posted on another board
+  matched_existing: boolean;
+};
+
+export type JobFingerprint = {
+  company_id: string;
+  title_tokens: Set<string>;
+  location: string | null;
+  published_at: number | null;
+  description_tokens: Set<string>;
+};
+
+export const VACANCY_MATCH_CONFIG = {
+  // Max days between publication dates of duplicate postings
+  publicationWindowDays: 30,
+  // Min Dice similarity of normalized title tokens
+  minTitleSimilarity: 0.8,
+  // Min Jaccard similarity of description words
+  minDescriptionSimilarity: 0.35,
+  // Descriptions with fewer words are ignored (then the title must match exactly)
+  minDescriptionWords: 20,
+};
+
+// Descriptions are only read for candidates that pass the other checks
+const FINGERPRINT_COLUMNS = [
+  "id",
+  "company_id",
+  "board",
+  "title",
+  "location",
+  "publication_date",
+  "created_at",
+  "vacancy_id",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const tokenize = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFKC")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+/**
+ * Normalize a job title for comparison: drops gender/percentage markers
+ * ("(m/k)", "100%"), bracketed notes and punctuation.
+ * Example: "Senior utvikler (m/k/d) - 100% fast" -> "senior utvikler fast"
+ */
+export function normalizeJobTitle(title?: string | null): string | null {
+  if (!title) return null;
+  const normalized = title
+    .toLowerCase()
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, " ")
+    .replace(/\b[mkd](\/[mkd])+\b/g, " ")
+    .replace(/\d+\s*%/g, " ");
+  const tokens = tokenize(normalized);
+  return tokens.length ? tokens.join(" ") : null;
+}
+
+function normalizeLocation(location?: string | null): string | null {
+  if (!location) return null;
+  const tokens = tokenize(location);
+  return tokens.length ? tokens.join(" ") : null;
+}
+
+function toTimestamp(value?: string | null): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+export function buildJobFingerprint(post: Row): JobFingerprint {
+  return {
+    company_id: post.company_id,
+    title_tokens: new Set(normalizeJobTitle(post.title)?.split(" ") ?? []),
+    location: normalizeLocation(post.location),
+    published_at:
+      toTimestamp(post.publication_date) ?? toTimestamp(post.created_at),
+    description_tokens: new Set(
+      tokenize(post.description ?? "").filter((word) => word.length >= 3)
+    ),
+  };
+}
+
+function diceSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  return (2 * shared) / (a.size + b.size);
+}
+
+function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+const locationsCompatible = (a: string | null, b: string | null) =>
+  !a || !b || a === b || a.includes(b) || b.includes(a);
+
+/**
+ * Compare everything but the descriptions. Returns the title similarity when
+ * the postings may describe the same vacancy, otherwise null.
+ */
+function matchJobMetadata(
+  a: JobFingerprint,
+  b: JobFingerprint,
+  config = VACANCY_MATCH_CONFIG
+): number | null {
+  if (a.company_id !== b.company_id) return null;
+  if (!locationsCompatible(a.location, b.location)) return null;
+
+  if (a.published_at !== null && b.published_at !== null) {
+    const days = Math.abs(a.published_at - b.published_at) / DAY_MS;
+    if (days > config.publicationWindowDays) return null;
+  }
+
+  const titleSimilarity = diceSimilarity(a.title_tokens, b.title_tokens);
+  return titleSimilarity < config.minTitleSimilarity ? null : titleSimilarity;
+}
+
+/**
+ * Compare two fingerprints. Returns a score (0-1) when they describe the same
+ * vacancy, otherwise null.
+ */
+export function matchJobFingerprints(
+  a: JobFingerprint,
+  b: JobFingerprint,
+  config = VACANCY_MATCH_CONFIG
+): number | null {
+  const titleSimilarity = matchJobMetadata(a, b, config);
+  if (titleSimilarity === null) return null;
+
+  const comparableDescriptions =
+    a.description_tokens.size >= config.minDescriptionWords &&
+    b.description_tokens.size >= config.minDescriptionWords;
+  if (!comparableDescriptions) {
+    return titleSimilarity === 1 ? titleSimilarity : null;
+  }
+
+  const descriptionSimilarity = jaccardSimilarity(
+    a.description_tokens,
+    b.description_tokens
+  );
+  if (descriptionSimilarity < config.minDescriptionSimilarity) return null;
+
+  return (titleSimilarity + descriptionSimilarity) / 2;
+}
+
+async function getVacancy(vacancyId: string): Promise<Vacancy | null> {
+  const [vacancy] = await getRepository().select<Vacancy>("vacancies", {
+    filters: [eq("id", vacancyId)],
+    limit: 1,
+  });
+  return vacancy ?? null;
+}
+
+async function createVacancy(primary: Row): Promise<Vacancy> {
+  const publishedAt = primary.publication_date ?? primary.created_at ?? null;
+  const [vacancy] = await getRepository().insert<Vacancy>("vacancies", [
+    {
+      company_id: primary.company_id,
+      primary_job_post_id: primary.id,
+      title: primary.title ?? null,
+      location: primary.location ?? null,
+      first_published_at: publishedAt,
+      last_published_at: publishedAt,
+    },
+  ]);
+  await getRepository().update("job_posts", [eq("id", primary.id)], {
+    vacancy_id: vacancy.id,
+  });
+  return vacancy;
+}
+
+/**
+ * Widen the vacancy's publication window to include a newly linked posting
+ */
+async function extendVacancyWindow(vacancy: Vacancy, post: Row) {
+  const publishedAt = toTimestamp(post.publication_date ?? post.created_at);
+  if (publishedAt === null) return;
+
+  const first = toTimestamp(vacancy.first_published_at);
+  const last = toTimestamp(vacancy.last_published_at);
+  const changes: Partial<Vacancy> = {};
+  if (first === null || publishedAt < first) {
+    changes.first_published_at = new Date(publishedAt).toISOString();
+  }
+  if (last === null || publishedAt > last) {
+    changes.last_published_at = new Date(publishedAt).toISOString();
+  }
+  if (Object.keys(changes).length > 0) {
+    await getRepository().update("vacancies", [eq("id", vacancy.id)], changes);
+  }
+}
+
+/**
+ * Duplicate candidates: postings of the same company on other boards,
+ * published within the match window (by publication_date, or created_at when
+ * a posting has none). The bounds get a day of slack; matchJobFingerprints
+ * applies the exact window.
+ */
+async function selectCandidatePosts(
+  post: Row,
+  publishedAt: number | null
+): Promise<Row[]> {
+  const sameCompany = [
+    eq("company_id", post.company_id),
+    neq("id", post.id),
+    neq("board", post.board),
+  ];
+  if (publishedAt === null) {
+    return getRepository().select("job_posts", {
+      columns: FINGERPRINT_COLUMNS,
+      filters: sameCompany,
+    });
+  }
+
+  const windowMs = (VACANCY_MATCH_CONFIG.publicationWindowDays + 1) * DAY_MS;
+  const from = new Date(publishedAt - windowMs).toISOString();
+  const to = new Date(publishedAt + windowMs).toISOString();
+  const [published, undated] = await Promise.all([
+    getRepository().select("job_posts", {
+      columns: FINGERPRINT_COLUMNS,
+      filters: [
+        ...sameCompany,
+        gte("publication_date", from),
+        lte("publication_date", to),
+      ],
+    }),
+    getRepository().select("job_posts", {
+      columns: FINGERPRINT_COLUMNS,
+      filters: [
+        ...sameCompany,
+        isNull("publication_date"),
+        gte("created_at", from),
+        lte("created_at", to),
+      ],
+    }),
+  ]);
+  return [...published, ...undated];
+}
+
+/**
+ * Find the vacancy a posting belongs to, linking it to a matching posting on
+ * another board or creating a new vacancy. Idempotent: a posting that already
+ * has a vacancy keeps it.
+ */
+export async function assignJobPostToVacancy(
+  jobPostId: string
+): Promise<VacancyAssignment> {
+  const [post] = await getRepository().select("job_posts", {
+    columns: [...FINGERPRINT_COLUMNS, "description"],
+    filters: [eq("id", jobPostId)],
+    limit: 1,
+  });
+  if (!post) {
+    throw new Error(`Job post not found: ${jobPostId}`);
+  }
+
+  if (post.vacancy_id) {
+    const vacancy = await getVacancy(post.vacancy_id);
+    if (vacancy?.primary_job_post_id) {
+      return {
+        vacancy_id: vacancy.id,
+        primary_job_post_id: vacancy.primary_job_post_id,
+        matched_existing: vacancy.primary_job_post_id !== jobPostId,
+      };
+    }
+  }
+
+  const fingerprint = buildJobFingerprint(post);
+  const candidates = await selectCandidatePosts(post, fingerprint.published_at);
+
+  // A vacancy has at most one posting per board
+  const candidateVacancyIds = Array.from(
+    new Set(candidates.map((c) => c.vacancy_id).filter(Boolean))
+  );
+  const takenVacancyIds = new Set(
+    candidateVacancyIds.length
+      ? (
+          await getRepository().select("job_posts", {
+            columns: ["vacancy_id"],
+            filters: [
+              inList("vacancy_id", candidateVacancyIds),
+              eq("board", post.board),
+            ],
+          })
+        ).map((row) => row.vacancy_id)
+      : []
+  );
+
+  const plausible = candidates.filter(
+    (candidate) =>
+      !(candidate.vacancy_id && takenVacancyIds.has(candidate.vacancy_id)) &&
+      matchJobMetadata(fingerprint, buildJobFingerprint(candidate)) !== null
+  );
+  // Descriptions only decide when this posting has enough words to compare
+  const needsDescriptions =
+    plausible.length > 0 &&
+    fingerprint.description_tokens.size >=
+      VACANCY_MATCH_CONFIG.minDescriptionWords;
+  const descriptions = new Map(
+    needsDescriptions
+      ? (
+          await getRepository().select("job_posts", {
+            columns: ["id", "description"],
+            filters: [inList("id", plausible.map((c) => c.id))],
+          })
+        ).map((row) => [row.id, row.description])
+      : []
+  );
+
+  let best: { candidate: Row; score: number } | null = null;
+  for (const candidate of plausible) {
+    const score = matchJobFingerprints(
+      fingerprint,
+      buildJobFingerprint({
+        ...candidate,
+        description: descriptions.get(candidate.id) ?? null,
+      })
+    );
+    if (score !== null && (!best || score > best.score)) {
+      best = { candidate, score };
+    }
+  }
+
+  if (!best) {
+    const vacancy = await createVacancy(post);
+    return {
+      vacancy_id: vacancy.id,
+      primary_job_post_id: post.id,
+      matched_existing: false,
+    };
+  }
+
+  const vacancy =
+    (best.candidate.vacancy_id &&
+      (await getVacancy(best.candidate.vacancy_id))) ||
+    (await createVacancy(best.candidate));
+
+  await getRepository().update("job_posts", [eq("id", post.id)], {
+    vacancy_id: vacancy.id,
+  });
+  await extendVacancyWindow(vacancy, post);
+
+  console.log(
+    `[Vacancy] Linked job post ${post.id} to vacancy ${vacancy.id} (score ${best.score.toFixed(2)})`
+  );
+
+  return {
+    vacancy_id: vacancy.id,
+    primary_job_post_id: vacancy.primary_job_post_id ?? best.candidate.id,
+    matched_existing: true,
+  };
+}
+
+/**
+ * Map job post IDs to the primary posting of their vacancy (deduplicated,
+ * order preserved). Postings without a vacancy map to themselves.
+ */
+export async function getPrimaryJobPostIds(
+  jobPostIds: string[]
+): Promise<string[]> {
+  if (jobPostIds.length === 0) return [];
+
+  const posts = await getRepository().select("job_posts", {
+    columns: ["id", "vacancy_id"],
+    filters: [inList("id", jobPostIds)],
+  });
+  const vacancyIdByPost = new Map(posts.map((p) => [p.id, p.vacancy_id]));
+
+  const vacancyIds = Array.from(
+    new Set(posts.map((p) => p.vacancy_id).filter(Boolean))
+  );
+  const vacancies = vacancyIds.length
+    ? await getRepository().select("vacancies", {
+        columns: ["id", "primary_job_post_id"],
+        filters: [inList("id", vacancyIds)],
+      })
+    : [];
+  const primaryByVacancy = new Map(
+    vacancies.map((v) => [v.id, v.primary_job_post_id])
+  );
+
+  const primaryIds = jobPostIds.map((id) => {
+    const vacancyId = vacancyIdByPost.get(id);
+    return (vacancyId && primaryByVacancy.get(vacancyId)) || id;
+  });
+  return Array.from(new Set(primaryIds));
+}
@@ -0,0 +1,255 @@
+/**
+ * Streaming single-sheet XLSX writer (lead exports).
+ *
+ * An XLSX file is a zip of XML parts. The worksheet is deflated while rows
+ * arrive and each zip entry ends with a data descriptor (CRC and sizes after
+ * the data), so nothing but the current chunk is held in memory. Cells are
+ * inline strings or numbers; the first row is bold and frozen as the header.
+ */
+
+import { createDeflateRaw } from "node:zlib";
+
+export type XlsxCell = string | number | null | undefined;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer, crc = 0): number {
+  let c = crc ^ 0xffffffff;
+  for (const byte of data) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+const XML_HEADER =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+const DOC_REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+const staticParts = (sheetName: string): [string, string][] => [
+  [
+    "[Content_Types].xml",
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      "</Types>",
+  ],
+  [
+    "_rels/.rels",
+    `${XML_HEADER}<Relationships xmlns="${REL_NS}">` +
+      `<Relationship Id="rId1" Type="${DOC_REL}/officeDocument" Target="xl/workbook.xml"/>` +
+      "</Relationships>",
+  ],
+  [
+    "xl/workbook.xml",
+    `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${DOC_REL}">` +
+      `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+      "</workbook>",
+  ],
+  [
+    "xl/_rels/workbook.xml.rels",
+    `${XML_HEADER}<Relationships xmlns="${REL_NS}">` +
+      `<Relationship Id="rId1" Type="${DOC_REL}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      `<Relationship Id="rId2" Type="${DOC_REL}/styles" Target="styles.xml"/>` +
+      "</Relationships>",
+  ],
+  [
+    "xl/styles.xml",
+    `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}">` +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      "</styleSheet>",
+  ],
+];
+
+function escapeXml(value: string): string {
+  return (
+    value
+      // Control characters are not allowed in XML 1.0
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+  );
+}
+
+// 0 -> "A", 26 -> "AA"
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function rowXml(cells: XlsxCell[], rowNumber: number, style?: number): string {
+  const xml = cells
+    .map((value, i) => {
+      if (value === null || value === undefined || value === "") return "";
+      const attrs = `r="${columnName(i)}${rowNumber}"${style ? ` s="${style}"` : ""}`;
+      if (typeof value === "number" && Number.isFinite(value)) {
+        return `<c ${attrs}><v>${value}</v></c>`;
+      }
+      return `<c ${attrs} t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+        String(value)
+      )}</t></is></c>`;
+    })
+    .join("");
+  return `<row r="${rowNumber}">${xml}</row>`;
+}
+
+// DOS date/time of "now" for zip headers
+function dosDateTime(date = new Date()): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+type ZipEntry = {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+};
+
+/**
+ * XLSX file chunks for a header row followed by `rows`
+ */
+export async function* xlsxChunks(
+  header: string[],
+  rows: AsyncIterable<XlsxCell[]>,
+  options: { sheetName?: string } = {}
+): AsyncGenerator<Buffer> {
+  const entries: ZipEntry[] = [];
+  const stamp = dosDateTime();
+  let offset = 0;
+
+  // Local file header: deflate, UTF-8 name, sizes in the data descriptor
+  function localHeader(name: Buffer): Buffer {
+    const buffer = Buffer.alloc(30);
+    buffer.writeUInt32LE(0x04034b50, 0);
+    buffer.writeUInt16LE(20, 4);
+    buffer.writeUInt16LE(0x0808, 6);
+    buffer.writeUInt16LE(8, 8);
+    buffer.writeUInt16LE(stamp.time, 10);
+    buffer.writeUInt16LE(stamp.date, 12);
+    buffer.writeUInt16LE(name.length, 26);
+    return Buffer.concat([buffer, name]);
+  }
+
+  async function* entry(
+    fileName: string,
+    content: AsyncIterable<string> | Iterable<string>
+  ): AsyncGenerator<Buffer> {
+    const name = Buffer.from(fileName, "utf8");
+    const record: ZipEntry = {
+      name,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset,
+    };
+    const head = localHeader(name);
+    offset += head.length;
+    yield head;
+
+    const deflate = createDeflateRaw();
+    const compressed: Buffer[] = [];
+    deflate.on("data", (chunk: Buffer) => compressed.push(chunk));
+    const flush = function* () {
+      for (const chunk of compressed.splice(0)) {
+        record.compressedSize += chunk.length;
+        offset += chunk.length;
+        yield chunk;
+      }
+    };
+
+    for await (const text of content) {
+      const data = Buffer.from(text, "utf8");
+      record.crc = crc32(data, record.crc);
+      record.size += data.length;
+      if (!deflate.write(data)) {
+        await new Promise((resolve) => deflate.once("drain", resolve));
+      }
+      yield* flush();
+    }
+    await new Promise((resolve) => {
+      deflate.once("end", resolve);
+      deflate.end();
+    });
+    yield* flush();
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(record.crc, 4);
+    descriptor.writeUInt32LE(record.compressedSize, 8);
+    descriptor.writeUInt32LE(record.size, 12);
+    offset += descriptor.length;
+    entries.push(record);
+    yield descriptor;
+  }
+
+  for (const [fileName, xml] of staticParts(options.sheetName ?? "Sheet1")) {
+    yield* entry(fileName, [xml]);
+  }
+  yield* entry(
+    "xl/worksheets/sheet1.xml",
+    (async function* () {
+      yield `${XML_HEADER}<worksheet xmlns="${MAIN_NS}">` +
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+        `<sheetData>${rowXml(header, 1, 1)}`;
+      let rowNumber = 1;
+      for await (const row of rows) {
+        yield rowXml(row, ++rowNumber);
+      }
+      yield "</sheetData></worksheet>";
+    })()
+  );
+
+  // Central directory
+  const centralStart = offset;
+  for (const record of entries) {
+    const buffer = Buffer.alloc(46);
+    buffer.writeUInt32LE(0x02014b50, 0);
+    buffer.writeUInt16LE(20, 4);
+    buffer.writeUInt16LE(20, 6);
+    buffer.writeUInt16LE(0x0808, 8);
+    buffer.writeUInt16LE(8, 10);
+    buffer.writeUInt16LE(stamp.time, 12);
+    buffer.writeUInt16LE(stamp.date, 14);
+    buffer.writeUInt32LE(record.crc, 16);
+    buffer.writeUInt32LE(record.compressedSize, 20);
+    buffer.writeUInt32LE(record.size, 24);
+    buffer.writeUInt16LE(record.name.length, 28);
+    buffer.writeUInt32LE(record.offset, 42);
+    const header = Buffer.concat([buffer, record.name]);
+    offset += header.length;
+    yield header;
+  }
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(offset - centralStart, 12);
+  end.writeUInt32LE(centralStart, 16);
+  yield end;
+}
@@ -0,0 +1,423 @@
+import { FastifyInstance, FastifyPluginOptions } from "fastify";
+import { z } from "zod";
+import {
+  listClayOutbox,
+  redriveClayOutbox,
+  deliverClayOutbox,
+} from "../lib/clay-outbox";
+import { requestAuth } from "../lib/auth";
+import {
+  mergeCompanies,
+  revertCompanyMerge,
+  listCompanyMerges,
+} from "../lib/company-merge";
+import {
+  findDuplicatePeople,
+  mergePeople,
+  revertPersonMerge,
+  listPersonMerges,
+} from "../lib/person-merge";
+import {
+  listMatchReviews,
+  getMatchReview,
+  acceptMatchReview,
+  rejectMatchReview,
+  queuePersonDuplicateReviews,
+} from "../lib/match-reviews";
+import { enrichCompanyFromBrreg } from "../lib/brreg";
+import {
+  CONTACT_POINT_STATUSES,
+  listContactPoints,
+  setContactPointStatus,
+} from "../lib/contact-points";
+import { reclassifyPersonRoles } from "../lib/role-classification";
+
+const ADMIN_SECRET = process.env.ADMIN_SECRET;
+
+const outboxQuerySchema = z.object({
+  status: z.enum(["pending", "delivered", "dead"]).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+const idParamsSchema = z.object({ id: z.string().uuid() });
+
+const mergeListQuerySchema = z.object({
+  survivor_id: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+const redriveSchema = z.object({
+  // Entries to re-drive; omit to re-drive every dead entry
+  ids: z.array(z.string().uuid()).optional(),
+  // Deliver immediately instead of waiting for the next /cron/clay-outbox run
+  deliver: z.boolean().default(false),
+});
+
+const companyMergeSchema = z.object({
+  company_ids: z.array(z.string().uuid()).min(2),
+  // Company to keep; defaults to the one with the most data (orgnr first)
+  survivor_id: z.string().uuid().optional(),
+  reason: z.string().max(500).optional(),
+  dry_run: z.boolean().default(false),
+});
+
+const duplicatePeopleQuerySchema = z.object({
+  company_id: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+const personMergeSchema = z.object({
+  person_ids: z.array(z.string().uuid()).min(2),
+  // Person to keep; defaults to the one with the most data (LinkedIn first)
+  survivor_id: z.string().uuid().optional(),
+  reason: z.string().max(500).optional(),
+  dry_run: z.boolean().default(false),
+});
+
+const reclassifyRolesSchema = z.object({
+  // Re-run for every person, not only those classified with older rules
+  all: z.boolean().default(false),
+  company_id: z.string().uuid().optional(),
+  // next_after from the previous call
+  after: z.string().uuid().optional(),
+  limit: z.number().int().min(1).max(2000).default(500),
+  dry_run: z.boolean().default(false),
+});
+
+const contactPointStatusSchema = z.object({
+  status: z.enum(CONTACT_POINT_STATUSES),
+});
+
+const matchReviewQuerySchema = z.object({
+  entity_type: z.enum(["company", "person"]).optional(),
+  status: z.enum(["pending", "accepted", "rejected"]).default("pending"),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+const reviewScanQuerySchema = z.object({
+  company_id: z.string().uuid().optional(),
+});
+
+const acceptReviewSchema = z.object({
+  // Record to keep; defaults to the existing candidate
+  survivor_id: z.string().uuid().optional(),
+  note: z.string().max(500).optional(),
+});
+
+const rejectReviewSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+export default async function adminRoutes(
+  app: FastifyInstance,
+  _opts: FastifyPluginOptions
+) {
+  // Signed body or x-admin-secret / Bearer; closed until ADMIN_SECRET is set
+  await app.register(requestAuth, {
+    resolveSecrets: () => [ADMIN_SECRET],
+    secretHeader: "x-admin-secret",
+    required: true,
+  });
+
+  /**
+   * List Clay webhook deliveries
+   * Query: status (pending | delivered | dead), limit (default 50)
+   */
+  app.get("/clay-outbox", async (request, reply) => {
+    const parsed = outboxQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    const entries = await listClayOutbox(parsed.data);
+    return reply.send({ count: entries.length, entries });
+  });
+
+  /**
+   * Re-drive failed Clay deliveries (reset to pending with a fresh attempt budget)
+   */
+  app.post("/clay-outbox/redrive", async (request, reply) => {
+    const parsed = redriveSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    const ids = await redriveClayOutbox(parsed.data.ids);
+    const delivery = parsed.data.deliver
+      ? await deliverClayOutbox({ ids, limit: ids.length })
+      : null;
+
+    return reply.send({ requeued: ids.length, ids, delivery });
+  });
+
+  /**
+   * Merge duplicate companies into one survivor (reversible)
+   */
+  app.post("/companies/merge", async (request, reply) => {
+    const parsed = companyMergeSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    const result = await mergeCompanies(parsed.data);
+    return reply.send(result);
+  });
+
+  /**
+   * Look a company up in Enhetsregisteret (Brønnøysund) and fill empty fields
+   */
+  app.post("/companies/:id/enrich/brreg", async (request, reply) => {
+    const params = idParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: params.error.message });
+    }
+
+    const result = await enrichCompanyFromBrreg(params.data.id);
+    return reply.send(result);
+  });
+
+  /**
+   * List company merges, optionally for one survivor
+   */
+  app.get("/companies/merges", async (request, reply) => {
+    const parsed = mergeListQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    const merges = await listCompanyMerges(parsed.data);
+    return reply.send({ count: merges.length, merges });
+  });
+
+  /**
+   * Revert a company merge
+   */
+  app.post("/companies/merges/:id/revert", async (request, reply) => {
+    const params = idParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: params.error.message });
+    }
+
+    const { snapshot, ...merge } = await revertCompanyMerge(params.data.id);
+    return reply.send({ status: "reverted", merge });
+  });
+
+  /**
+   * Duplicate people report
+   * Query: company_id (only groups involving this company), limit (default 100)
+   */
+  app.get("/people/duplicates", async (request, reply) => {
+    const parsed = duplicatePeopleQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    const groups = await findDuplicatePeople(parsed.data);
+    return reply.send({ count: groups.length, groups });
+  });
+
+  /**
+   * Merge duplicate people into one survivor (reversible)
+   */
+  app.post("/people/merge", async (request, reply) => {
+    const parsed = personMergeSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    const result = await mergePeople(parsed.data);
+    return reply.send(result);
+  });
+
+  /**
+   * List person merges, optionally for one survivor
+   */
+  app.get("/people/merges", async (request, reply) => {
+    const parsed = mergeListQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    const merges = await listPersonMerges(parsed.data);
+    return reply.send({ count: merges.length, merges });
+  });
+
+  /**
+   * Revert a person merge
+   */
+  app.post("/people/merges/:id/revert", async (request, reply) => {
+    const params = idParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: params.error.message });
+    }
+
+    const { snapshot, ...merge } = await revertPersonMerge(params.data.id);
+    return reply.send({ status: "reverted", merge });
+  });
+
+  /**
+   * Re-run title classification (role, seniority, department) over people
+   * and their company_people / job_post_people links
+   */
+  app.post("/people/reclassify-roles", async (request, reply) => {
+    const parsed = reclassifyRolesSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    const result = await reclassifyPersonRoles(parsed.data);
+    return reply.send(result);
+  });
+
+  /**
+   * List a person's contact points (every email / phone / LinkedIn seen)
+   */
+  app.get("/people/:id/contact-points", async (request, reply) => {
+    const params = idParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: params.error.message });
+    }
+
+    const contactPoints = await listContactPoints(params.data.id);
+    return reply.send({
+      count: contactPoints.length,
+      contact_points: contactPoints,
+    });
+  });
+
+  /**
+   * Mark a contact point valid / invalid (e.g. after a bounce); invalid
+   * values are no longer sent to Clay
+   */
+  app.post("/contact-points/:id/status", async (request, reply) => {
+    const params = idParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: params.error.message });
+    }
+
+    const parsed = contactPointStatusSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    const contactPoint = await setContactPointStatus(
+      params.data.id,
+      parsed.data.status
+    );
+    return reply.send({ contact_point: contactPoint });
+  });
+
+  /**
+   * List match reviews with side-by-side field comparison
+   * Query: entity_type (company | person), status (default pending), limit
+   */
+  app.get("/match-reviews", async (request, reply) => {
+    const parsed = matchReviewQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    const reviews = await listMatchReviews(parsed.data);
+    return reply.send({ count: reviews.length, reviews });
+  });
+
+  /**
+   * Queue groups from the duplicate people report for review
+   */
+  app.post("/match-reviews/people/scan", async (request, reply) => {
+    const parsed = reviewScanQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    const result = await queuePersonDuplicateReviews(parsed.data);
+    return reply.send(result);
+  });
+
+  app.get("/match-reviews/:id", async (request, reply) => {
+    const params = idParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: params.error.message });
+    }
+
+    return reply.send(await getMatchReview(params.data.id));
+  });
+
+  /**
+   * Accept a match: merge the pair
+   */
+  app.post("/match-reviews/:id/accept", async (request, reply) => {
+    const params = idParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: params.error.message });
+    }
+
+    const parsed = acceptReviewSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    const result = await acceptMatchReview(params.data.id, parsed.data);
+    return reply.send(result);
+  });
+
+  /**
+   * Reject a match: the pair is distinct and won't be proposed again
+   */
+  app.post("/match-reviews/:id/reject", async (request, reply) => {
+    const params = idParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: params.error.message });
+    }
+
+    const parsed = rejectReviewSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    const review = await rejectMatchReview(params.data.id, parsed.data);
+    return reply.send({ review });
+  });
+}
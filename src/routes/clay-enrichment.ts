@@ -5,8 +5,8 @@ import {
   ClayEnrichmentPayload,
 } from "../lib/clay";
 import {
-  getCompanyByJobPostFinnId,
-  getJobPostIdByFinnId,
+  getCompanyByJobPostRef,
+  getJobPostIdByRef,
   updateCompanyEnrichment,
   updatePersonEnrichment,
   findExistingPerson,
@@ -20,12 +20,17 @@ import {
   normalizePhone,
   normalizeOrgnr,
   normalizeCompanyNameForMatching,
-  normalizeDomainHost,
+  normalizeCompanyDomain,
   canonicalizeLinkedInUrl,
-  extractFinnIdFromUrl,
   isValidPersonName,
 } from "../lib/normalize";
+import { parseJobReference } from "../lib/job-boards";
 import { buildPersonKey } from "../lib/keys";
+import { phoneLineType } from "../lib/phone";
+import { emailType } from "../lib/email";
+import { recordPersonContactPoints } from "../lib/contact-points";
+import { personTitleFields } from "../lib/role-classification";
+import { requestAuth } from "../lib/auth";
 
 const CLAY_ENRICHMENT_SECRET = process.env.CLAY_ENRICHMENT_SECRET;
 
@@ -59,26 +64,31 @@ async function handleClayEnrichment(
   };
 
   try {
-    // Extract finn_id from URL if full URL was provided (e.g., "https://www.finn.no/job/ad/446256409" → "446256409")
-    const finnId = extractFinnIdFromUrl(payload.finn_id) || payload.finn_id;
+    // Resolve the anchor: Finn code, job key ("nav:<uuid>") or full posting URL
+    // (e.g., "https://www.finn.no/job/ad/446256409" → finn / "446256409")
+    const jobRef = parseJobReference(payload.finn_id);
+    if (!jobRef) {
+      stats.errors.push(`Unrecognized job reference: ${payload.finn_id}`);
+      return stats;
+    }
 
-    // Step 1: Find the company via finn_id
-    const company = await getCompanyByJobPostFinnId(finnId);
+    // Step 1: Find the company via the job post
+    const company = await getCompanyByJobPostRef(jobRef);
     if (!company) {
-      stats.errors.push(`No company found for finn_id: ${finnId}`);
+      stats.errors.push(`No company found for finn_id: ${payload.finn_id}`);
       return stats;
     }
     stats.company.found = true;
 
     const companyId = company.id;
-    const jobPostId = await getJobPostIdByFinnId(finnId);
+    const jobPostId = await getJobPostIdByRef(jobRef);
 
     // Step 2: Update company with enriched data
     if (payload.company) {
       const companyEnrichment = {
         orgnr: normalizeOrgnr(payload.company.orgnr),
-        domain: normalizeDomainHost(payload.company.domain),
-        clean_domain: normalizeDomainHost(payload.company.domain),
+        domain: normalizeCompanyDomain(payload.company.domain),
+        clean_domain: normalizeCompanyDomain(payload.company.domain),
         proff_url: payload.company.proff_url || undefined,
         industry: payload.company.industry || undefined,
         company_size: payload.company.company_size || undefined,
@@ -90,7 +100,8 @@ async function handleClayEnrichment(
 
       const companyResult = await updateCompanyEnrichment(
         companyId,
-        companyEnrichment
+        companyEnrichment,
+        { source: "clay" }
       );
       stats.company.fieldsUpdated = companyResult.fieldsUpdated;
     }
@@ -122,6 +133,7 @@ async function handleClayEnrichment(
               company_id: companyId,
               person_id: existing.id,
               role: "decision_maker" as const,
+              role_source: "clay",
             },
           ]);
           if (jobPostId) {
@@ -130,16 +142,21 @@ async function handleClayEnrichment(
                 job_post_id: jobPostId,
                 person_id: existing.id,
                 role: "decision_maker" as const,
+                role_source: "clay",
               },
             ]);
           }
           // Update existing person with any new data
-          const updateResult = await updatePersonEnrichment(existing.id, {
-            title: dm.title,
-            email: normalizeEmail(dm.email),
-            phone: normalizePhone(dm.phone),
-            linkedin_url: canonicalizeLinkedInUrl(dm.linkedin_url),
-          });
+          const updateResult = await updatePersonEnrichment(
+            existing.id,
+            {
+              title: dm.title,
+              email: normalizeEmail(dm.email),
+              phone: normalizePhone(dm.phone),
+              linkedin_url: canonicalizeLinkedInUrl(dm.linkedin_url),
+            },
+            { source: "clay" }
+          );
           if (updateResult.fieldsUpdated.length > 0) {
             stats.decision_makers.fieldsUpdated.push(
               ...updateResult.fieldsUpdated.map((f) => `${dm.full_name}:${f}`)
@@ -161,8 +178,11 @@ async function handleClayEnrichment(
             person_key: personKey,
             full_name: dm.full_name,
             title: dm.title || null,
+            ...personTitleFields(dm.title),
             email: normalizeEmail(dm.email),
+            email_type: emailType(dm.email),
             phone: normalizePhone(dm.phone),
+            phone_type: phoneLineType(dm.phone),
             linkedin_url: canonicalizeLinkedInUrl(dm.linkedin_url),
             normalized_company_name: normalizeCompanyNameForMatching(
               company.name
@@ -176,12 +196,16 @@ async function handleClayEnrichment(
       if (newPeople.length > 0) {
         const peopleResult = await upsertPeople(newPeople);
         stats.decision_makers.added = peopleResult.inserted;
+        for (const person of peopleResult.records) {
+          await recordPersonContactPoints(person.id, person, "clay");
+        }
 
         // Link new decision makers to company
         const companyLinks = peopleResult.records.map((p) => ({
           company_id: companyId,
           person_id: p.id,
           role: "decision_maker" as const,
+          role_source: "clay",
         }));
         await upsertCompanyPeople(companyLinks);
 
@@ -191,6 +215,7 @@ async function handleClayEnrichment(
             job_post_id: jobPostId,
             person_id: p.id,
             role: "decision_maker" as const,
+            role_source: "clay",
           }));
           await upsertJobPostPeople(jobLinks);
         }
@@ -209,12 +234,16 @@ async function handleClayEnrichment(
         });
 
         if (existing) {
-          const result = await updatePersonEnrichment(existing.id, {
-            title: cp.title,
-            email: normalizeEmail(cp.email),
-            phone: normalizePhone(cp.phone),
-            linkedin_url: canonicalizeLinkedInUrl(cp.linkedin_url),
-          });
+          const result = await updatePersonEnrichment(
+            existing.id,
+            {
+              title: cp.title,
+              email: normalizeEmail(cp.email),
+              phone: normalizePhone(cp.phone),
+              linkedin_url: canonicalizeLinkedInUrl(cp.linkedin_url),
+            },
+            { source: "clay" }
+          );
 
           if (result.fieldsUpdated.length > 0) {
             stats.contact_persons.updated++;
@@ -236,25 +265,14 @@ export default async function clayEnrichmentRoutes(
   app: FastifyInstance,
   _opts: FastifyPluginOptions
 ) {
+  // Optional: signed body or x-clay-secret / Bearer when CLAY_ENRICHMENT_SECRET is set
+  await app.register(requestAuth, {
+    resolveSecrets: () => [CLAY_ENRICHMENT_SECRET],
+    secretHeader: "x-clay-secret",
+  });
+
   // Single enrichment endpoint
   app.post("/clay-enrichment", async (request, reply) => {
-    // Optional: Verify auth header
-    if (CLAY_ENRICHMENT_SECRET) {
-      const authHeader =
-        request.headers["x-clay-secret"] || request.headers["authorization"];
-      const expectedBearer = `Bearer ${CLAY_ENRICHMENT_SECRET}`;
-
-      if (
-        authHeader !== CLAY_ENRICHMENT_SECRET &&
-        authHeader !== expectedBearer
-      ) {
-        return reply.status(401).send({
-          error: "Unauthorized",
-          message: "Invalid or missing authentication",
-        });
-      }
-    }
-
     // Validate payload
     const parsed = ClayEnrichmentPayloadSchema.safeParse(request.body);
     if (!parsed.success) {
@@ -285,21 +303,6 @@ export default async function clayEnrichmentRoutes(
 
   // Batch endpoint for multiple enrichments
   app.post("/clay-enrichment/batch", async (request, reply) => {
-    // Auth check
-    if (CLAY_ENRICHMENT_SECRET) {
-      const authHeader =
-        request.headers["x-clay-secret"] || request.headers["authorization"];
-      if (
-        authHeader !== CLAY_ENRICHMENT_SECRET &&
-        authHeader !== `Bearer ${CLAY_ENRICHMENT_SECRET}`
-      ) {
-        return reply.status(401).send({
-          error: "Unauthorized",
-          message: "Invalid or missing authentication",
-        });
-      }
-    }
-
     const batchSchema = z.object({
       items: z.array(ClayEnrichmentPayloadSchema).min(1).max(100),
     });
@@ -1,111 +1,162 @@
 import { FastifyInstance, FastifyPluginOptions } from "fastify";
-import {
-  getRecentJobPostIds,
-  getJobPostWithDecisionMakers,
-} from "../lib/db";
-import {
-  sendBatchToClayWebhook,
-  isClayWebhookEnabled,
-  ClayJobPostPayload,
-  formatPersonsCompact,
-  truncateDescription,
-} from "../lib/clay";
+import { isClayWebhookEnabled } from "../lib/clay";
+import { deliverClayOutbox } from "../lib/clay-outbox";
+import { queueChangedJobPostsForClay } from "../lib/clay-sync";
+import { listIngestSources } from "../lib/sources";
+import { importNavFeed, NavImportResult } from "../lib/nav";
+import { requestAuth } from "../lib/auth";
+import { enrichCompaniesFromBrreg } from "../lib/brreg";
+import { isHubSpotEnabled } from "../lib/hubspot";
+import { syncChangesToCrm } from "../lib/crm-sync";
 
 export default async function cronRoutes(
   app: FastifyInstance,
   _opts: FastifyPluginOptions
 ) {
+  // Vercel Cron sends Authorization: Bearer <CRON_SECRET>
+  await app.register(requestAuth, {
+    resolveSecrets: () => [process.env.CRON_SECRET],
+    required: true,
+  });
+
   /**
-   * Batch sync recent job posts to Clay
+   * Batch sync new and changed job posts to Clay
+   * Reads job posts, companies and people changed since the last run
+   * (positions in leadgen.sync_cursors) and only sends the job posts Clay
+   * hasn't received yet or whose payload changed.
    * Designed to be called by Vercel cron or manually
+   * Query: limit (default 200) - rows to scan per source per run
    */
-  app.get("/clay-sync", async (request, reply) => {
-    if (!isClayWebhookEnabled()) {
+  app.get<{ Querystring: { limit?: string } }>(
+    "/clay-sync",
+    async (request, reply) => {
+      if (!isClayWebhookEnabled()) {
+        return reply.send({
+          status: "skipped",
+          message: "CLAY_WEBHOOK_URL not configured",
+        });
+      }
+
+      const limit = Math.max(1, Number(request.query.limit) || 200);
+      const run = await queueChangedJobPostsForClay(limit);
+
+      if (run.queued.length === 0) {
+        return reply.send({
+          status: "ok",
+          message: "No new or changed job posts to sync",
+          scanned: run.scanned,
+          unchanged: run.unchanged,
+          synced: 0,
+          cursors: run.cursors,
+        });
+      }
+
+      // Send to Clay with rate limiting (100ms between requests);
+      // failures stay in the outbox for /cron/clay-outbox
+      const result = await deliverClayOutbox({
+        ids: run.queued,
+        limit: run.queued.length,
+        delayMs: 100,
+      });
+
       return reply.send({
-        status: "skipped",
-        message: "CLAY_WEBHOOK_URL not configured",
+        status: "ok",
+        scanned: run.scanned,
+        unchanged: run.unchanged,
+        queued: run.queued.length,
+        synced: result.delivered,
+        failed: result.retrying + result.dead,
+        rate_limited: result.rate_limited,
+        cursors: run.cursors,
       });
     }
+  );
+
+  /**
+   * Retry due Clay deliveries from the outbox
+   * Query: limit (default 50) - max deliveries per run
+   */
+  app.get<{ Querystring: { limit?: string } }>(
+    "/clay-outbox",
+    async (request, reply) => {
+      if (!isClayWebhookEnabled()) {
+        return reply.send({
+          status: "skipped",
+          message: "CLAY_WEBHOOK_URL not configured",
+        });
+      }
+
+      const limit = Math.max(1, Number(request.query.limit) || 50);
+      const result = await deliverClayOutbox({ limit });
+      return reply.send({ status: "ok", ...result });
+    }
+  );
+
+  /**
+   * Import new ads from the NAV job feed for every registered NAV source
+   * Query: maxPages (default 5) - feed pages to read per source
+   */
+  app.get<{ Querystring: { maxPages?: string } }>(
+    "/nav-import",
+    async (request, reply) => {
+      const maxPages = Math.max(1, Number(request.query.maxPages) || 5);
+      const sources = await listIngestSources("nav");
 
-    // Get job posts from last 24 hours
-    const hoursAgo = 24;
-    const jobPostIds = await getRecentJobPostIds(hoursAgo);
+      const results: Record<string, NavImportResult | { error: string }> = {};
+      for (const source of sources) {
+        try {
+          results[source.name] = await importNavFeed({ source, maxPages });
+        } catch (err: any) {
+          request.log.error({ err, source: source.name }, "NAV import failed");
+          results[source.name] = { error: err?.message ?? String(err) };
+        }
+      }
 
-    if (jobPostIds.length === 0) {
       return reply.send({
         status: "ok",
-        message: "No recent job posts to sync",
-        synced: 0,
+        sources: sources.length,
+        results,
       });
     }
+  );
 
-    // Build Clay payloads for each job post
-    const payloads: ClayJobPostPayload[] = [];
-    for (const jobPostId of jobPostIds) {
-      const enrichedJobPost = await getJobPostWithDecisionMakers(jobPostId);
-      if (!enrichedJobPost) continue;
-
-      payloads.push({
-        job_post: {
-          finn_id: enrichedJobPost.job_post.finn_id,
-          finn_url: enrichedJobPost.job_post.finn_url,
-          title: enrichedJobPost.job_post.title,
-          description: truncateDescription(enrichedJobPost.job_post.description),
-          location: enrichedJobPost.job_post.location,
-          employment_type: enrichedJobPost.job_post.employment_type,
-          salary: enrichedJobPost.job_post.salary,
-          publication_date: enrichedJobPost.job_post.publication_date,
-          expiration_date: enrichedJobPost.job_post.expiration_date,
-          application_url: enrichedJobPost.job_post.application_url,
-          sector: enrichedJobPost.job_post.sector,
-          industries: enrichedJobPost.job_post.industries,
-          source: enrichedJobPost.job_post.source,
-        },
-        company: {
-          name: enrichedJobPost.company.name,
-          domain: enrichedJobPost.company.domain,
-          clean_domain: enrichedJobPost.company.clean_domain,
-          orgnr: enrichedJobPost.company.orgnr,
-          proff_url: enrichedJobPost.company.proff_url,
-          industry: enrichedJobPost.company.industry,
-          company_size: enrichedJobPost.company.company_size,
-          location: enrichedJobPost.company.location,
-          sector: enrichedJobPost.company.sector,
-          profit_before_tax: enrichedJobPost.company.profit_before_tax,
-          turnover: enrichedJobPost.company.turnover,
-        },
-        decision_makers: enrichedJobPost.decision_makers.map((dm) => ({
-          full_name: dm.full_name,
-          title: dm.title,
-          email: dm.email,
-          phone: dm.phone,
-          linkedin_url: dm.linkedin_url,
-        })),
-        contact_persons: enrichedJobPost.contact_persons.map((cp) => ({
-          full_name: cp.full_name,
-          title: cp.title,
-          email: cp.email,
-          phone: cp.phone,
-          linkedin_url: cp.linkedin_url,
-        })),
-        decision_makers_formatted: formatPersonsCompact(
-          enrichedJobPost.decision_makers
-        ),
-        contact_persons_formatted: formatPersonsCompact(
-          enrichedJobPost.contact_persons
-        ),
-      });
+  /**
+   * Enrich companies not yet looked up in Enhetsregisteret (Brønnøysund)
+   * Query: limit (default 50) - companies per run
+   */
+  app.get<{ Querystring: { limit?: string } }>(
+    "/brreg-enrichment",
+    async (request, reply) => {
+      const limit = Math.min(
+        500,
+        Math.max(1, Number(request.query.limit) || 50)
+      );
+      const result = await enrichCompaniesFromBrreg({ limit });
+      return reply.send({ status: "ok", ...result });
     }
+  );
 
-    // Send to Clay with rate limiting (100ms between requests)
-    const result = await sendBatchToClayWebhook(payloads, 100);
+  /**
+   * Push changed companies and people (with their associations) to HubSpot,
+   * retrying records that failed last time
+   * Query: limit (default 50) - companies and people to scan per run
+   */
+  app.get<{ Querystring: { limit?: string } }>(
+    "/hubspot-sync",
+    async (request, reply) => {
+      if (!isHubSpotEnabled()) {
+        return reply.send({
+          status: "skipped",
+          message: "HUBSPOT_ACCESS_TOKEN not configured",
+        });
+      }
 
-    return reply.send({
-      status: "ok",
-      total_job_posts: jobPostIds.length,
-      payloads_built: payloads.length,
-      synced: result.success,
-      failed: result.failed,
-    });
-  });
+      const limit = Math.min(
+        500,
+        Math.max(1, Number(request.query.limit) || 50)
+      );
+      const result = await syncChangesToCrm({ limit });
+      return reply.send({ status: "ok", ...result });
+    }
+  );
 }
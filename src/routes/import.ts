@@ -1,6 +1,12 @@
 import { FastifyInstance, FastifyPluginOptions } from 'fastify';
 import { z } from 'zod';
-import { normalizeDomainHost } from '../lib/normalize';
+import { normalizeCompanyDomain, normalizeEmail, normalizePhone, parseOrgnr } from '../lib/normalize';
+import { phoneLineType } from '../lib/phone';
+import { emailType } from '../lib/email';
+import { recordCompanyDomain } from '../lib/company-domains';
+import { recordPersonContactPoints } from '../lib/contact-points';
+import { personTitleFields } from '../lib/role-classification';
+import { requestAuth } from '../lib/auth';
 import { upsertCompanies, upsertPeople, upsertCompanyPeople, CompanyRecord, PersonRecord } from '../lib/db';
 
 const companySchema = z.object({
@@ -36,6 +42,11 @@ const bodySchema = z.object({
 });
 
 export default async function importRoutes(app: FastifyInstance, _opts: FastifyPluginOptions) {
+  await app.register(requestAuth, {
+    resolveSecrets: () => [process.env.IMPORT_SECRET],
+    secretHeader: 'x-import-secret',
+  });
+
   app.post('/normalized', async (request, reply) => {
     const parsed = bodySchema.safeParse(request.body);
     if (!parsed.success) {
@@ -43,13 +54,27 @@ export default async function importRoutes(app: FastifyInstance, _opts: FastifyP
       return;
     }
 
-    const companies: CompanyRecord[] = parsed.data.companies.map((c) => ({
-      ...c,
-      domain: normalizeDomainHost(c.domain),
-    }));
+    // Invalid orgnr values are dropped and reported
+    const rejected: { company_key: string; field: string; value: string; reason: string }[] = [];
+    const companies: CompanyRecord[] = parsed.data.companies.map((c) => {
+      const orgnr = parseOrgnr(c.orgnr);
+      if (orgnr.rejected) {
+        rejected.push({ company_key: c.company_key, field: 'orgnr', value: c.orgnr!, reason: orgnr.rejected });
+      }
+      return {
+        ...c,
+        domain: normalizeCompanyDomain(c.domain),
+        orgnr: orgnr.orgnr,
+      };
+    });
 
     const people: PersonRecord[] = parsed.data.people.map((p) => ({
       ...p,
+      ...personTitleFields(p.title),
+      email: normalizeEmail(p.email),
+      email_type: emailType(p.email),
+      phone: normalizePhone(p.phone),
+      phone_type: phoneLineType(p.phone),
     }));
 
     // Upsert companies and people first to get their IDs
@@ -58,6 +83,13 @@ export default async function importRoutes(app: FastifyInstance, _opts: FastifyP
       upsertPeople(people),
     ]);
 
+    for (const company of companyResult.records) {
+      await recordCompanyDomain({ company_id: company.id, domain: company.domain, source: 'import' });
+    }
+    for (const person of peopleResult.records) {
+      await recordPersonContactPoints(person.id, person, 'import');
+    }
+
     // Build a map of keys to IDs
     const companyIdMap = new Map<string, string>();
     for (const company of companyResult.records) {
@@ -83,6 +115,7 @@ export default async function importRoutes(app: FastifyInstance, _opts: FastifyP
           company_id: companyId,
           person_id: personId,
           role: l.role,
+          role_source: 'import',
         };
       })
       .filter((link): link is NonNullable<typeof link> => link !== null);
@@ -93,6 +126,7 @@ export default async function importRoutes(app: FastifyInstance, _opts: FastifyP
       companies: companyResult,
       people: peopleResult,
       company_people: linkResult,
+      rejected,
     });
   });
 }
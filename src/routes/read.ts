@@ -0,0 +1,248 @@
+import { Readable } from "node:stream";
+import { FastifyInstance, FastifyPluginOptions } from "fastify";
+import { z } from "zod";
+import { requestAuth } from "../lib/auth";
+import {
+  listCompanies,
+  listPeople,
+  listJobPosts,
+  COMPANY_SORTS,
+  PERSON_SORTS,
+  JOB_POST_SORTS,
+} from "../lib/listing";
+import { getCompanyOverview } from "../lib/company-overview";
+import { searchJobPosts } from "../lib/search";
+import { prepareLeadExport, csvChunks } from "../lib/exports";
+import { xlsxChunks } from "../lib/xlsx";
+
+const READ_API_SECRET = process.env.READ_API_SECRET;
+const ADMIN_SECRET = process.env.ADMIN_SECRET;
+
+// Query strings: "true" / "false"
+const queryBoolean = z
+  .enum(["true", "false"])
+  .transform((value) => value === "true")
+  .optional();
+
+// ISO timestamp or date
+const queryDate = z
+  .string()
+  .datetime({ offset: true })
+  .or(z.string().date())
+  .optional();
+
+const pageQuery = {
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  cursor: z.string().min(1).optional(),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  created_from: queryDate,
+  created_to: queryDate,
+};
+
+const companiesQuerySchema = z.object({
+  ...pageQuery,
+  sort: z.enum(COMPANY_SORTS).default("created_at"),
+  q: z.string().min(1).optional(),
+  sector: z.string().min(1).optional(),
+  industry: z.string().min(1).optional(),
+  location: z.string().min(1).optional(),
+  has_orgnr: queryBoolean,
+});
+
+const companyParamsSchema = z.object({ id: z.string().uuid() });
+
+const peopleQuerySchema = z.object({
+  ...pageQuery,
+  sort: z.enum(PERSON_SORTS).default("created_at"),
+  q: z.string().min(1).optional(),
+  company_id: z.string().uuid().optional(),
+  role: z
+    .enum(["decision_maker", "recruiter", "contact_person", "other"])
+    .optional(),
+  seniority: z.string().min(1).optional(),
+  department: z.string().min(1).optional(),
+  has_email: queryBoolean,
+  has_phone: queryBoolean,
+});
+
+const jobPostsQuerySchema = z.object({
+  ...pageQuery,
+  sort: z.enum(JOB_POST_SORTS).default("created_at"),
+  title: z.string().min(1).optional(),
+  source: z.string().min(1).optional(),
+  board: z.string().min(1).optional(),
+  company_id: z.string().uuid().optional(),
+  sector: z.string().min(1).optional(),
+  industry: z.string().min(1).optional(),
+  location: z.string().min(1).optional(),
+});
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).max(10000).default(0),
+  board: z.string().min(1).optional(),
+  source: z.string().min(1).optional(),
+  company_id: z.string().uuid().optional(),
+  sector: z.string().min(1).optional(),
+  industry: z.string().min(1).optional(),
+  location: z.string().min(1).optional(),
+  created_from: queryDate,
+  created_to: queryDate,
+});
+
+const exportQuerySchema = z.object({
+  rows: z.enum(["contacts", "companies"]).default("contacts"),
+  columns: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).optional(),
+  title: z.string().min(1).optional(),
+  source: z.string().min(1).optional(),
+  board: z.string().min(1).optional(),
+  company_id: z.string().uuid().optional(),
+  sector: z.string().min(1).optional(),
+  industry: z.string().min(1).optional(),
+  location: z.string().min(1).optional(),
+  created_from: queryDate,
+  created_to: queryDate,
+  role: z
+    .enum(["decision_maker", "recruiter", "contact_person", "other"])
+    .optional(),
+  seniority: z.string().min(1).optional(),
+  department: z.string().min(1).optional(),
+  has_email: queryBoolean,
+  has_phone: queryBoolean,
+});
+
+export default async function readRoutes(
+  app: FastifyInstance,
+  _opts: FastifyPluginOptions
+) {
+  // x-api-secret / Bearer (READ_API_SECRET or ADMIN_SECRET); closed until
+  // one of them is set
+  await app.register(requestAuth, {
+    resolveSecrets: () => [READ_API_SECRET, ADMIN_SECRET],
+    secretHeader: "x-api-secret",
+    required: true,
+  });
+
+  /**
+   * List companies
+   * Query: q (name), sector, industry, location, has_orgnr, created_from,
+   * created_to, sort (created_at | name), order, limit, cursor
+   */
+  app.get("/companies", async (request, reply) => {
+    const parsed = companiesQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    return reply.send(await listCompanies(parsed.data));
+  });
+
+  /**
+   * Company 360: the company with its domains, job posts, people by role,
+   * posts per month and enrichment history
+   */
+  app.get("/companies/:id", async (request, reply) => {
+    const parsed = companyParamsSchema.safeParse(request.params);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    return reply.send(await getCompanyOverview(parsed.data.id));
+  });
+
+  /**
+   * List people with their company links
+   * Query: q (name), company_id, role, seniority, department, has_email,
+   * has_phone, created_from, created_to, sort (created_at | full_name),
+   * order, limit, cursor
+   */
+  app.get("/people", async (request, reply) => {
+    const parsed = peopleQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    return reply.send(await listPeople(parsed.data));
+  });
+
+  /**
+   * List job posts with their company
+   * Query: title, source, board, company_id, sector, industry, location,
+   * created_from, created_to, sort (created_at | publication_date), order,
+   * limit, cursor
+   */
+  app.get("/job-posts", async (request, reply) => {
+    const parsed = jobPostsQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    return reply.send(await listJobPosts(parsed.data));
+  });
+
+  /**
+   * Full-text search over job titles, descriptions, company names and people
+   * titles, best match first
+   * Query: q (websearch syntax), board, source, company_id, sector, industry,
+   * location, created_from, created_to, limit, offset
+   */
+  app.get("/search", async (request, reply) => {
+    const parsed = searchQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    return reply.send(await searchJobPosts(parsed.data));
+  });
+
+  /**
+   * Lead export as a streamed CSV or XLSX download: one row per (job post,
+   * person) or per company
+   * Query: rows (contacts | companies), columns (default | full | keys),
+   * limit, the /job-posts filters and role, seniority, department,
+   * has_email, has_phone
+   */
+  app.get("/exports/leads.:format", async (request, reply) => {
+    const format = (request.params as { format: string }).format;
+    if (format !== "csv" && format !== "xlsx") {
+      return reply.status(404).send({
+        error: "Not Found",
+        message: `Unknown export format: ${format}`,
+      });
+    }
+    const parsed = exportQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send({ error: "Bad Request", message: parsed.error.message });
+    }
+
+    const { header, rows } = prepareLeadExport(parsed.data);
+    const filename = `leads-${parsed.data.rows}-${new Date()
+      .toISOString()
+      .slice(0, 10)}.${format}`;
+    reply.header("content-disposition", `attachment; filename="${filename}"`);
+    if (format === "csv") {
+      return reply
+        .type("text/csv; charset=utf-8")
+        .send(Readable.from(csvChunks(header, rows)));
+    }
+    return reply
+      .type(
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      )
+      .send(Readable.from(xlsxChunks(header, rows, { sheetName: "Leads" })));
+  });
+}
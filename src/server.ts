@@ -6,6 +6,8 @@ import importRoutes from "./routes/import";
 import ingestRoutes from "./routes/ingest";
 import cronRoutes from "./routes/cron";
 import clayEnrichmentRoutes from "./routes/clay-enrichment";
+import adminRoutes from "./routes/admin";
+import readRoutes from "./routes/read";
 
 const PORT = Number(process.env.PORT || 3000);
 
@@ -24,6 +26,8 @@ async function buildServer() {
   await app.register(ingestRoutes, { prefix: "/ingest" });
   await app.register(cronRoutes, { prefix: "/cron" });
   await app.register(clayEnrichmentRoutes, { prefix: "/ingest" });
+  await app.register(adminRoutes, { prefix: "/admin" });
+  await app.register(readRoutes);
 
   app.setErrorHandler((err, req, reply) => {
     req.log.error({ err }, "Request failed");